@@ -1,24 +1,85 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppMode, WordPair, ContextQuestion, AppSettings, GrammarPracticeData, GrammarSubMode } from './types';
-import { fetchWordPairs, fetchContextQuestions, fetchGrammarData, fetchExplanationForError } from './geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AppMode, WordPair, ContextQuestion, AppSettings, GrammarPracticeData, GrammarExplanation, GrammarSubMode, NotebookEntry, AiProvider, AiFallback, QuestionResult, SessionKind, SessionRecord, WordList, PracticeSet, MistakeQuestion, CefrLevel, CurriculumNode, ReadingPassage, GrammarQuestionKind, MistakeRecord } from './types';
+import { fetchWordPairs, fetchContextQuestions, fetchGrammarData, fetchExplanationForError, fetchReplacementQuestion, fetchGrammarFollowUp, fetchReadingPassage, subscribeAiNotices } from './geminiService';
+import { recordReview, getDueCards, updateCardTranslations, findListWord, normalizeWord } from './srsService';
+import { addWordPairs, markPracticed, entryToWordPair } from './notebookService';
+import { recordMistake, attachAnalysis } from './mistakeService';
+import { AI_PROVIDERS, AiProviderError, AiErrorKind, getProvider, isAbortError } from './aiProviders';
+import { ValidationReport, describeDiscarded } from './responseValidator';
+import { listLocalGrammarPoints } from './localGenerator';
+import { clearCache } from './aiCache';
+import { createSession, saveSession } from './sessionService';
+import { listWordLists, listToInput, splitByList, splitWordInput } from './wordListService';
+import { WorksheetSource } from './worksheetExport';
+import { createPracticeSet, decodePracticeSet, parsePracticeSetText, readFragment, PRACTICE_SET_LABELS } from './practiceSet';
+import { speak, toSpeakableText } from './speechService';
+import { scrambleTokens, checkOrder, endMarkOf, joinTokens, OrderCheck } from './sentenceBuilder';
+import { correctionTokens, errorTokenIndex, gradeCorrection, correctionAnswerText, correctionUserText, correctedSentence, CorrectionGrade, NO_ERROR } from './errorCorrection';
+import { evaluateAnswer, evaluateBlanks, blankAnswerText, BLANK_SEPARATOR, AnswerEvaluation } from './answerEvaluator';
 import Button from './components/Button';
-import { Settings as SettingsIcon, RotateCcw, CheckCircle2, XCircle, Code, Monitor, Layout, Sliders, Target, BookOpen, HelpCircle, PenTool, ListChecks, Hash, Sparkles, Loader2, Key } from 'lucide-react';
+import NotebookSection from './components/NotebookSection';
+import FormattedText from './components/FormattedText';
+import MistakeSection from './components/MistakeSection';
+import SessionResults from './components/SessionResults';
+import SpeakButton from './components/SpeakButton';
+import DashboardSection from './components/DashboardSection';
+import DictationSection from './components/DictationSection';
+import SpeakingSection from './components/SpeakingSection';
+import ReadAloudPanel from './components/ReadAloudPanel';
+import BlankSentenceInput from './components/BlankSentenceInput';
+import WordImportSection from './components/WordImportSection';
+import AssignmentSection, { AssignmentDraft } from './components/AssignmentSection';
+import QuestionEditor from './components/QuestionEditor';
+import ReadingSection from './components/ReadingSection';
+import SentenceBuilder from './components/SentenceBuilder';
+import CorrectionPicker from './components/CorrectionPicker';
+import { EditableContent } from './questionEditor';
+import { targetLevel, grammarSkill, VOCABULARY_SKILL, READING_SKILL } from './learnerModel';
+import { useAdaptiveDifficulty } from './components/useAdaptiveDifficulty';
+import { CURRICULUM, STAGE_LABELS, canonicalGrammarPoint } from './grammarCurriculum';
+import GrammarSyllabus from './components/GrammarSyllabus';
+import WorksheetExportPanel from './components/WorksheetExportPanel';
+import SharePanel from './components/SharePanel';
+import { Settings as SettingsIcon, RotateCcw, CheckCircle2, XCircle, Code, Monitor, Layout, Sliders, Target, BookOpen, HelpCircle, PenTool, ListChecks, Hash, Sparkles, Loader2, Key, CalendarClock, BookMarked, BookX, AlertTriangle, WifiOff, RefreshCw, Database, Plus, Trash2, Info, BarChart3, Volume2, Headphones, Mic, FileUp, Printer, Share2, FolderOpen, ClipboardList, Pencil, BookOpenText, Blocks, SpellCheck } from 'lucide-react';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  baseUrl: 'https://generativelanguage.googleapis.com',
+  customApiKey: '',
+  modelName: 'gemini-3-flash-preview',
+  allowInflection: false,
+  theme: 'duolingo',
+  aeroOpacity: 70,
+  wordPracticeCount: 5,
+  grammarPracticeCount: 5,
+  mistakeRedoStreak: 3,
+  offlineMode: false,
+  cacheEnabled: true,
+  requestTimeoutSec: 60,
+  maxRetries: 2,
+  fallbacks: [],
+  ttsAccent: 'us',
+  ttsRate: 1,
+  ttsAutoPlay: false,
+  reviewBeforePractice: false
+};
 
-const FormattedText: React.FC<{ text: string }> = ({ text }) => {
-  const parts = text.split(/(\*\*.*?\*\*)/g);
-  return (
-    <>
-      {parts.map((part, i) => {
-        if (part.startsWith('**') && part.endsWith('**')) {
-          return <strong key={i} className="text-blue-700 font-extrabold">{part.slice(2, -2)}</strong>;
-        }
-        return part;
-      })}
-    </>
-  );
+// 难度调整时每次追加的题目数量
+const FOLLOW_UP_COUNT = 3;
+
+const ERROR_HINTS: Partial<Record<AiErrorKind, string>> = {
+  rate_limit: '请求过于频繁，自动重试后仍未成功，请稍后再试。',
+  timeout: 'AI 服务长时间没有响应，请检查网络，或在设置中调大超时时间。',
+  network: '网络连接失败，请检查网络或接口地址。',
+  server: 'AI 服务暂时不可用，请稍后再试，或在设置中添加备用模型。'
 };
 
+interface Notice {
+  tone: 'info' | 'error';
+  text: string;
+}
+
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>('input');
   const [grammarSubMode, setGrammarSubMode] = useState<GrammarSubMode>('explanation');
@@ -29,21 +90,44 @@ const App: React.FC = () => {
   const [wordPairs, setWordPairs] = useState<WordPair[]>([]);
   const [contextQuestions, setContextQuestions] = useState<ContextQuestion[]>([]);
   const [grammarData, setGrammarData] = useState<GrammarPracticeData | null>(null);
+  const [grammarDataKey, setGrammarDataKey] = useState('');
+  const [explanationDraft, setExplanationDraft] = useState<Partial<GrammarExplanation> | null>(null);
+  const grammarRequest = useRef<AbortController | null>(null);
   const [isDev, setIsDev] = useState(false);
   const [apiKeyMissing, setApiKeyMissing] = useState(false);
+  const [dueCount, setDueCount] = useState(0);
+  const [validationReports, setValidationReports] = useState<ValidationReport[]>([]);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [speakingSentences, setSpeakingSentences] = useState<string[]>([]);
+  const [speakingReturnMode, setSpeakingReturnMode] = useState<AppMode>('input');
+  const [wordLists, setWordLists] = useState<WordList[]>([]);
+  const [activeList, setActiveList] = useState<WordList | null>(null);
+  const [assignmentDraft, setAssignmentDraft] = useState<AssignmentDraft | null>(null);
+  const [editing, setEditing] = useState<EditableContent | null>(null);
+  // 当前这组题目生成时使用的难度级别
+  const [contextLevel, setContextLevel] = useState<CefrLevel>(() => targetLevel(VOCABULARY_SKILL));
+  const [grammarLevel, setGrammarLevel] = useState<CefrLevel>('A2');
+  const [reading, setReading] = useState<ReadingPassage | null>(null);
+  const [readingLevel, setReadingLevel] = useState<CefrLevel>('A2');
+  // 追加题目的请求返回时用来判断题目是否已经换过
+  const latestPractice = useRef({ context: contextQuestions, grammar: grammarData });
+  latestPractice.current = { context: contextQuestions, grammar: grammarData };
   
   const [settings, setSettings] = useState<AppSettings>(() => {
     const saved = localStorage.getItem('lingo_settings');
-    return saved ? JSON.parse(saved) : {
-      baseUrl: 'https://generativelanguage.googleapis.com',
-      customApiKey: '',
-      modelName: 'gemini-3-flash-preview',
-      allowInflection: false,
-      theme: 'duolingo',
-      aeroOpacity: 70,
-      wordPracticeCount: 5,
-      grammarPracticeCount: 5
-    };
+    if (!saved) return DEFAULT_SETTINGS;
+    // 保存的设置损坏时退回默认设置，不能让应用无法启动
+    let parsed: any;
+    try {
+      parsed = JSON.parse(saved);
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_SETTINGS;
+    // 旧版本通过 Key 前缀判断服务商，迁移时沿用该规则
+    if (!parsed.provider) parsed.provider = parsed.customApiKey?.startsWith('sk-') ? 'openai' : 'gemini';
+    // 旧版本保存的设置可能缺少新字段，用默认值补齐
+    return { ...DEFAULT_SETTINGS, ...parsed };
   });
 
   useEffect(() => {
@@ -54,7 +138,9 @@ const App: React.FC = () => {
       }
       
       // If no custom key AND no env key, check if we need to show a gate
-      if (!settings.customApiKey && !process.env.API_KEY) {
+      // 环境变量里的 Key 只对 Gemini 有效
+      const envKey = settings.provider === 'gemini' ? process.env.API_KEY : '';
+      if (!settings.offlineMode && getProvider(settings.provider).requiresApiKey && !settings.customApiKey && !envKey) {
         // @ts-ignore
         if (window.aistudio) {
           // @ts-ignore
@@ -66,12 +152,58 @@ const App: React.FC = () => {
       }
     };
     initApp();
-  }, [settings.customApiKey]);
+  }, [settings.customApiKey, settings.provider, settings.offlineMode]);
 
   useEffect(() => {
     localStorage.setItem('lingo_settings', JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => {
+    if (mode !== 'input') return;
+    setDueCount(getDueCards().length);
+    listWordLists().then(setWordLists).catch(() => {});
+  }, [mode]);
+
+  // 离开语法模块时取消仍在进行的生成请求
+  useEffect(() => {
+    if (mode !== 'grammar_input' && mode !== 'grammar_practice') cancelGrammarRequest();
+  }, [mode]);
+
+  useEffect(() => () => grammarRequest.current?.abort(), []);
+
+  useEffect(() => subscribeAiNotices(n => setNotice({
+    tone: 'info',
+    text: n.type === 'retry'
+      ? `${n.label} 请求失败，${Math.ceil(n.delayMs / 1000)} 秒后第 ${n.attempt} 次重试…`
+      : `${n.from} 不可用，已自动切换到备用模型 ${n.to}`
+  })), []);
+
+  // 重试和切换提示几秒后自动消失，错误提示在切换页面时清除
+  useEffect(() => {
+    if (notice?.tone !== 'info') return;
+    const timer = setTimeout(() => setNotice(null), 6000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  useEffect(() => setNotice(n => n?.tone === 'error' ? null : n), [mode]);
+
+  // 通过分享链接打开时，题目数据在 #set= 片段中
+  useEffect(() => {
+    const openFromHash = async () => {
+      const encoded = readFragment(location.hash);
+      if (!encoded) return;
+      history.replaceState(null, '', `${location.pathname}${location.search}`);
+      try {
+        openPracticeSet(await decodePracticeSet(encoded));
+      } catch (e: any) {
+        setNotice({ tone: 'error', text: e.message });
+      }
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
   const handleOpenKeySelector = async () => {
     // @ts-ignore
     if (window.aistudio) {
@@ -86,21 +218,35 @@ const App: React.FC = () => {
 
   const handleApiError = async (error: any) => {
     const msg = error.message || "";
+    if (error instanceof AiProviderError && error.kind === 'auth') {
+      setApiKeyMissing(true);
+      return;
+    }
     if (msg.includes("Requested entity was not found.") || msg.includes("API_KEY_INVALID") || msg.includes("401") || msg.includes("API Key 未配置")) {
       setApiKeyMissing(true);
       return;
     }
-    alert(`请求失败: ${msg}`);
+    const hint = error instanceof AiProviderError ? ERROR_HINTS[error.kind] : undefined;
+    setNotice({ tone: 'error', text: hint ? `${hint}（${msg}）` : `请求失败: ${msg}` });
   };
 
-  const startMatching = async () => {
+  // 只在确实有题目被丢弃或修复时提示用户
+  const handleReports = (reports: ValidationReport[]) => {
+    setValidationReports(reports.filter(r => r.discarded.length > 0 || r.repaired > 0 || r.delivered < r.requested));
+  };
+
+  const startWordPractice = async (target: 'matching' | 'dictation') => {
     if (!userWords.trim()) return;
     setIsLoading(true);
     try {
-      const pairs = await fetchWordPairs(userWords, settings);
+      // 选中的词表里已有释义的单词不再请求 AI
+      const { known, rest } = splitByList(userWords, activeList);
+      const fetched = rest.trim() ? await fetchWordPairs(rest, settings, handleReports) : [];
+      const pairs = [...known, ...fetched];
       const limitedPairs = pairs.slice(0, settings.wordPracticeCount);
       setWordPairs(limitedPairs);
-      setMode('matching');
+      setMode(target);
+      addWordPairs(pairs, target === 'matching' ? '单词连线' : '听写').catch(() => {});
     } catch (error: any) {
       await handleApiError(error);
     } finally {
@@ -108,35 +254,268 @@ const App: React.FC = () => {
     }
   };
 
-  const startContext = async () => {
+  const startReading = async (forceRefresh: boolean = false) => {
     if (!userWords.trim()) return;
     setIsLoading(true);
     try {
-      const questions = await fetchContextQuestions(userWords, settings.allowInflection, settings.wordPracticeCount, settings);
-      setContextQuestions(questions);
+      const level = targetLevel(READING_SKILL);
+      // 短文和单词释义分别校验，两份报告一起提示
+      const reports: ValidationReport[] = [];
+      const collect = (r: ValidationReport[]) => reports.push(...r);
+      const { known, rest } = splitByList(userWords, activeList);
+      const [passage, fetched] = await Promise.all([
+        fetchReadingPassage(userWords, settings.wordPracticeCount, settings, collect, { forceRefresh, level }),
+        rest.trim() ? fetchWordPairs(rest, settings, collect) : Promise.resolve([])
+      ]);
+      handleReports(reports);
+      setWordPairs([...known, ...fetched]);
+      setReading(passage);
+      setReadingLevel(level);
+      setMode('reading');
+    } catch (error: any) {
+      await handleApiError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startMatching = () => startWordPractice('matching');
+  const startDictation = () => startWordPractice('dictation');
+
+  const selectWordList = (list: WordList | null) => {
+    setActiveList(list);
+    if (list) setUserWords(listToInput(list));
+  };
+
+  const openImportedList = (list: WordList) => {
+    selectWordList(list);
+    setMode('input');
+    setNotice({ tone: 'info', text: `已载入词表「${list.name}」，共 ${list.words.length} 个单词` });
+  };
+
+  const openAssignmentDraft = (draft: AssignmentDraft) => {
+    setAssignmentDraft({ title: draft.title, content: draft.content });
+    setMode('assignments');
+  };
+
+  // 分享的练习包直接进入对应模式，不调用 AI
+  const openPracticeSet = (set: PracticeSet) => {
+    const { content } = set;
+    if (content.kind === 'matching') {
+      setUserWords(content.pairs.map(p => p.en).join(', '));
+      setWordPairs(content.pairs);
+      setMode('matching');
+    } else if (content.kind === 'context') {
+      setUserWords(Array.from(new Set(content.questions.map(q => q.answer))).join(', '));
+      setContextQuestions(content.questions);
+      setContextLevel(targetLevel(VOCABULARY_SKILL));
       setMode('context');
+    } else {
+      cancelGrammarRequest();
+      setGrammarPoint(content.data.explanation.title);
+      setGrammarData(content.data);
+      setGrammarDataKey(grammarKey(content.data.explanation.title));
+      setGrammarLevel(targetLevel(grammarSkill(content.data.explanation.title)));
+      setGrammarSubMode('explanation');
+      setMode('grammar_practice');
+    }
+    setNotice({ tone: 'info', text: `已打开练习包「${set.title}」（${PRACTICE_SET_LABELS[content.kind]}）` });
+  };
+
+  const openPracticeSetFile = async (file: File) => {
+    try {
+      openPracticeSet(parsePracticeSetText(await file.text()));
+    } catch (e: any) {
+      setNotice({ tone: 'error', text: e.message });
+    }
+  };
+
+  const startReview = async () => {
+    const dueCards = getDueCards().slice(0, settings.wordPracticeCount);
+    if (!dueCards.length) return;
+    setIsLoading(true);
+    try {
+      // 语境填空中记录的单词可能还没有中文释义，先补全
+      const missing = dueCards.filter(c => !c.cn);
+      let translated: WordPair[] = [];
+      if (missing.length) {
+        translated = await fetchWordPairs(missing.map(c => c.en).join(', '), settings);
+        updateCardTranslations(translated);
+      }
+      const pairs = dueCards.map((c, i) => ({
+        id: `review-${i}-${Date.now()}`,
+        en: c.en,
+        cn: c.cn || translated.find(t => normalizeWord(t.en) === c.word)?.cn || ''
+      })).filter(p => p.cn);
+      // AI 返回的单词可能少于请求的数量，一个释义都没有时不能进入空白的连线练习
+      if (!pairs.length) {
+        setNotice({ tone: 'error', text: '没能取得待复习单词的中文释义，请稍后重试。' });
+        return;
+      }
+      if (pairs.length < dueCards.length) setNotice({ tone: 'info', text: `有 ${dueCards.length - pairs.length} 个单词缺少中文释义，本次复习先跳过。` });
+      setWordPairs(pairs);
+      setMode('matching');
+    } catch (error: any) {
+      await handleApiError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 返回是否成功开始练习，失败时错误已经提示过
+  const startContext = async (words: string = userWords, forceRefresh: boolean = false): Promise<boolean> => {
+    if (!words.trim()) return false;
+    setIsLoading(true);
+    try {
+      const level = targetLevel(VOCABULARY_SKILL);
+      const questions = await fetchContextQuestions(words, settings.allowInflection, settings.wordPracticeCount, settings, handleReports, { forceRefresh, level });
+      setContextQuestions(questions);
+      setContextLevel(level);
+      if (settings.reviewBeforePractice) openEditor({ kind: 'context', questions });
+      else setMode('context');
+      return true;
     } catch (error: any) {
       await handleApiError(error);
+      return false;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const startGrammar = async (targetMode: GrammarSubMode) => {
-    if (!grammarPoint.trim()) return;
+  const startMatchingFromNotebook = (entries: NotebookEntry[]) => {
+    const selected = entries.slice(0, settings.wordPracticeCount);
+    setUserWords(selected.map(e => e.en).join(', '));
+    setWordPairs(selected.map(entryToWordPair));
+    setMode('matching');
+    markPracticed(selected).catch(() => {});
+  };
+
+  const startContextFromNotebook = async (entries: NotebookEntry[]) => {
+    const words = entries.map(e => e.en).join(', ');
+    setUserWords(words);
+    if (await startContext(words)) markPracticed(entries).catch(() => {});
+  };
+
+  const cancelGrammarRequest = () => {
+    if (!grammarRequest.current) return;
+    grammarRequest.current.abort();
+    grammarRequest.current = null;
+    setIsLoading(false);
+    setExplanationDraft(null);
+  };
+
+  const grammarKey = (point: string, gradeLabel: string = grade) =>
+    [point.trim(), gradeLabel.trim(), settings.grammarPracticeCount, settings.provider, settings.modelName, settings.offlineMode].join('|');
+
+  // 从课程大纲选择时直接传入规范的语法点和年级，不依赖尚未更新的输入框状态
+  const startGrammar = async (targetMode: GrammarSubMode, forceRefresh: boolean = false, point: string = grammarPoint, gradeLabel: string = grade) => {
+    if (!point.trim()) return;
+    // 同一份语法包同时包含讲解、填空和选择，切换子模式时直接复用
+    const key = grammarKey(point, gradeLabel);
+    if (!forceRefresh && grammarData && grammarDataKey === key) {
+      setGrammarSubMode(targetMode);
+      setMode('grammar_practice');
+      return;
+    }
+    cancelGrammarRequest();
+    const controller = new AbortController();
+    grammarRequest.current = controller;
     setGrammarSubMode(targetMode);
     setIsLoading(true);
+    setGrammarData(null);
+    // 讲解模式直接进入页面，边生成边显示
+    const streamExplanation = targetMode === 'explanation';
+    if (streamExplanation) {
+      setExplanationDraft({});
+      setMode('grammar_practice');
+    }
     try {
-      const data = await fetchGrammarData(grammarPoint, grade, settings.grammarPracticeCount, settings);
+      const level = targetLevel(grammarSkill(point));
+      const data = await fetchGrammarData(point, gradeLabel, settings.grammarPracticeCount, settings, handleReports, {
+        signal: controller.signal,
+        forceRefresh,
+        level,
+        onExplanation: streamExplanation ? setExplanationDraft : undefined
+      });
       setGrammarData(data);
-      setMode('grammar_practice');
+      setGrammarDataKey(key);
+      setGrammarLevel(level);
+      // 讲解页已经在边生成边显示，不再插入编辑步骤
+      if (settings.reviewBeforePractice && !streamExplanation) openEditor({ kind: 'grammar', data });
+      else setMode('grammar_practice');
     } catch (error: any) {
+      if (isAbortError(error)) return;
+      if (streamExplanation) setMode('grammar_input');
       await handleApiError(error);
     } finally {
-      setIsLoading(false);
+      if (grammarRequest.current === controller) {
+        grammarRequest.current = null;
+        setIsLoading(false);
+        setExplanationDraft(null);
+      }
     }
   };
 
+  const openEditor = (content: EditableContent) => {
+    setEditing(content);
+    setMode('question_editor');
+  };
+
+  // 放弃修改时 saved 为 null，回到原来的题目
+  const closeEditor = (saved: EditableContent | null) => {
+    if (saved?.kind === 'context') setContextQuestions(saved.questions);
+    if (saved?.kind === 'grammar') setGrammarData(saved.data);
+    setMode(editing?.kind === 'context' ? 'context' : 'grammar_practice');
+    setEditing(null);
+  };
+
+  const regenerateQuestion = (item: MistakeQuestion) =>
+    fetchReplacementQuestion(item, { grammarPoint: grammarData?.explanation.title || grammarPoint, grade }, settings);
+
+  // 追加的题目只接在发起请求时的那组题目后面，期间换了题目就丢弃；返回实际追加的数量
+  const contextFollowUp = async (level: CefrLevel, signal: AbortSignal) => {
+    const base = contextQuestions;
+    const more = await fetchContextQuestions(userWords, settings.allowInflection, FOLLOW_UP_COUNT, settings, undefined, { forceRefresh: true, level, signal });
+    if (latestPractice.current.context !== base) return 0;
+    setContextQuestions([...base, ...more]);
+    return more.length;
+  };
+
+  const grammarFollowUp = async (kind: GrammarQuestionKind, level: CefrLevel, signal: AbortSignal) => {
+    const base = grammarData;
+    if (!base) return 0;
+    const more = await fetchGrammarFollowUp(kind, base.explanation.title, grade, FOLLOW_UP_COUNT, level, settings, { signal });
+    if (latestPractice.current.grammar !== base) return 0;
+    setGrammarData({
+      ...base,
+      fillQuestions: [...base.fillQuestions, ...more.fillQuestions],
+      choiceQuestions: [...base.choiceQuestions, ...more.choiceQuestions],
+      orderQuestions: [...base.orderQuestions, ...more.orderQuestions],
+      correctionQuestions: [...base.correctionQuestions, ...more.correctionQuestions]
+    });
+    return more.fillQuestions.length + more.choiceQuestions.length + more.orderQuestions.length + more.correctionQuestions.length;
+  };
+
+  const startCurriculumNode = (node: CurriculumNode, targetMode: GrammarSubMode) => {
+    const gradeLabel = STAGE_LABELS[node.stage];
+    setGrammarPoint(node.name);
+    setGrade(gradeLabel);
+    startGrammar(targetMode, false, node.name, gradeLabel);
+  };
+
+  const leaveGrammarPractice = () => {
+    cancelGrammarRequest();
+    setMode('grammar_input');
+  };
+
+  const startSpeaking = (sentences: string[]) => {
+    const targets = sentences.map(toSpeakableText).filter(Boolean);
+    if (!targets.length) return;
+    setSpeakingSentences(targets);
+    setSpeakingReturnMode(mode);
+    setMode('speaking');
+  };
+
   const isAero = settings.theme === 'aero';
 
   return (
@@ -166,6 +545,7 @@ const App: React.FC = () => {
               <p className="opacity-70 font-bold">
                 请先在设置中填写您的 API Key。
                 {isDev && " 或者，点击下方按钮选择内置 API Key。"}
+                {" 没有 Key 时也可以使用内置的离线题库。"}
               </p>
             </div>
             <div className="flex flex-col gap-3 w-full">
@@ -177,6 +557,9 @@ const App: React.FC = () => {
                   使用内置 Key
                 </Button>
                )}
+               <Button onClick={() => { setSettings(s => ({ ...s, offlineMode: true })); setApiKeyMissing(false); }} variant="ghost" fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+                 <WifiOff size={18} /> 使用离线题库
+               </Button>
             </div>
           </div>
         </div>
@@ -200,15 +583,79 @@ const App: React.FC = () => {
           }`}>T</div>
           <h1 className={`text-2xl font-black ${isAero ? "text-black drop-shadow-md" : "text-[#58cc02]"}`}>Tonglanguage AI</h1>
         </div>
-        <button 
-          onClick={() => setMode('settings')} 
-          className={`p-2 transition-all hover:rotate-90 ${isAero ? "text-black hover:opacity-70" : "text-gray-400 hover:text-gray-600"}`}
-        >
-          <SettingsIcon size={24} />
-        </button>
+        <div className="flex items-center gap-1">
+          <button 
+            onClick={() => setMode('notebook')} 
+            title="生词本"
+            className={`p-2 transition-all ${isAero ? "text-black hover:opacity-70" : "text-gray-400 hover:text-gray-600"}`}
+          >
+            <BookMarked size={24} />
+          </button>
+          <button 
+            onClick={() => setMode('mistakes')} 
+            title="错题本"
+            className={`p-2 transition-all ${isAero ? "text-black hover:opacity-70" : "text-gray-400 hover:text-gray-600"}`}
+          >
+            <BookX size={24} />
+          </button>
+          <button 
+            onClick={() => { setAssignmentDraft(null); setMode('assignments'); }} 
+            title="作业"
+            className={`p-2 transition-all ${isAero ? "text-black hover:opacity-70" : "text-gray-400 hover:text-gray-600"}`}
+          >
+            <ClipboardList size={24} />
+          </button>
+          <button 
+            onClick={() => setMode('dashboard')} 
+            title="学习记录"
+            className={`p-2 transition-all ${isAero ? "text-black hover:opacity-70" : "text-gray-400 hover:text-gray-600"}`}
+          >
+            <BarChart3 size={24} />
+          </button>
+          <button 
+            onClick={() => setMode('settings')} 
+            className={`p-2 transition-all hover:rotate-90 ${isAero ? "text-black hover:opacity-70" : "text-gray-400 hover:text-gray-600"}`}
+          >
+            <SettingsIcon size={24} />
+          </button>
+        </div>
       </header>
 
       <main className="w-full max-w-2xl flex-grow z-10">
+        {notice && (
+          <div className={`mb-4 p-4 rounded-2xl border-2 text-sm font-bold flex justify-between items-start gap-2 animate-in slide-in-from-top-2 duration-300 ${
+            isAero ? "bg-white/60 backdrop-blur-md border-white/50 text-black"
+              : notice.tone === 'error' ? "bg-red-50 border-red-200 text-red-700" : "bg-blue-50 border-blue-100 text-blue-700"
+          }`}>
+            <div className="flex items-start gap-2">
+              {notice.tone === 'error' ? <AlertTriangle size={16} className="shrink-0 mt-0.5" /> : <Info size={16} className="shrink-0 mt-0.5" />}
+              {notice.text}
+            </div>
+            <button onClick={() => setNotice(null)} className="opacity-50 hover:opacity-100"><XCircle size={16} /></button>
+          </div>
+        )}
+        {validationReports.length > 0 && (
+          <div className={`mb-4 p-4 rounded-2xl border-2 text-sm animate-in slide-in-from-top-2 duration-300 ${
+            isAero ? "bg-white/60 backdrop-blur-md border-white/50 text-black" : "bg-yellow-50 border-yellow-200 text-yellow-800"
+          }`}>
+            <div className="flex justify-between items-start gap-2">
+              <div className="font-black flex items-center gap-2"><AlertTriangle size={16} /> AI 返回的部分题目存在问题，已自动处理</div>
+              <button onClick={() => setValidationReports([])} className="opacity-50 hover:opacity-100"><XCircle size={16} /></button>
+            </div>
+            {validationReports.map(r => (
+              <details key={r.label} className="mt-2">
+                <summary className="cursor-pointer font-bold">
+                  {r.label}：可用 {r.delivered} / {r.requested}，修复 {r.repaired} 道，丢弃 {r.discarded.length} 道
+                </summary>
+                <ul className="mt-1 pl-4 list-disc opacity-80">
+                  {r.discarded.map((d, i) => (
+                    <li key={i}>{d.reason}{describeDiscarded(d.item) && `：${describeDiscarded(d.item)}`}</li>
+                  ))}
+                </ul>
+              </details>
+            ))}
+          </div>
+        )}
         <div className={`transition-all duration-500 ${
           isAero 
             ? "backdrop-blur-xl bg-white/30 border border-white/40 rounded-3xl shadow-[0_8px_32px_0_rgba(31,38,135,0.2)] p-1 overflow-hidden" 
@@ -219,8 +666,17 @@ const App: React.FC = () => {
               userWords={userWords} 
               setUserWords={setUserWords} 
               onMatch={startMatching} 
-              onContext={startContext}
+              onContext={() => startContext()}
+              onDictation={startDictation}
+              onReading={() => startReading()}
               onGoGrammar={() => setMode('grammar_input')}
+              onReview={startReview}
+              onImport={() => setMode('import')}
+              onOpenSet={openPracticeSetFile}
+              wordLists={wordLists}
+              activeList={activeList}
+              onSelectList={selectWordList}
+              dueCount={dueCount}
               isLoading={isLoading}
               settings={settings}
             />
@@ -231,7 +687,8 @@ const App: React.FC = () => {
               setGrammarPoint={setGrammarPoint}
               grade={grade}
               setGrade={setGrade}
-              onStart={startGrammar}
+              onStart={(m) => startGrammar(m)}
+              onStartNode={startCurriculumNode}
               onBack={() => setMode('input')}
               isLoading={isLoading}
               settings={settings}
@@ -241,10 +698,31 @@ const App: React.FC = () => {
             <GrammarPracticeSection 
               data={grammarData}
               subMode={grammarSubMode}
-              onReset={() => setMode('grammar_input')}
+              onReset={leaveGrammarPractice}
+              onRegenerate={() => startGrammar(grammarSubMode, true)}
+              onReadAloud={startSpeaking}
+              onAssign={openAssignmentDraft}
+              onEdit={() => openEditor({ kind: 'grammar', data: grammarData })}
+              level={grammarLevel}
+              onFollowUp={settings.offlineMode ? undefined : grammarFollowUp}
               settings={settings}
             />
           )}
+          {mode === 'grammar_practice' && !grammarData && !explanationDraft && isLoading && (
+            <div className="flex flex-col items-center gap-4 p-12 font-bold text-blue-500">
+              <Loader2 className="w-10 h-10 animate-spin" /> AI 正在重新生成题目...
+            </div>
+          )}
+          {mode === 'grammar_practice' && !grammarData && explanationDraft && (
+            <div className={`p-6 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+              <GrammarExplanationView
+                explanation={explanationDraft}
+                isStreaming
+                onReset={leaveGrammarPractice}
+                settings={settings}
+              />
+            </div>
+          )}
           {mode === 'matching' && (
             <MatchingSection 
               pairs={wordPairs} 
@@ -255,12 +733,92 @@ const App: React.FC = () => {
           {mode === 'context' && (
             <ContextSection 
               questions={contextQuestions} 
-              onRefresh={startContext}
+              userWords={userWords}
+              onRefresh={() => startContext(userWords, true)}
+              onReset={() => setMode('input')}
+              isLoading={isLoading}
+              onAssign={openAssignmentDraft}
+              onEdit={() => openEditor({ kind: 'context', questions: contextQuestions })}
+              level={contextLevel}
+              onFollowUp={settings.offlineMode ? undefined : contextFollowUp}
+              settings={settings}
+            />
+          )}
+          {mode === 'notebook' && (
+            <NotebookSection
+              onStartMatching={startMatchingFromNotebook}
+              onStartContext={startContextFromNotebook}
+              onBack={() => setMode('input')}
+              isLoading={isLoading}
+              settings={settings}
+            />
+          )}
+          {mode === 'mistakes' && (
+            <MistakeSection
+              onBack={() => setMode('input')}
+              onError={handleApiError}
+              settings={settings}
+            />
+          )}
+          {mode === 'reading' && reading && (
+            <ReadingSection
+              key={reading.passage}
+              reading={reading}
+              pairs={wordPairs}
+              level={readingLevel}
+              onNewPassage={() => startReading(true)}
               onReset={() => setMode('input')}
               isLoading={isLoading}
               settings={settings}
             />
           )}
+          {mode === 'dictation' && (
+            <DictationSection
+              pairs={wordPairs}
+              onReset={() => setMode('input')}
+              settings={settings}
+            />
+          )}
+          {mode === 'speaking' && (
+            <SpeakingSection
+              sentences={speakingSentences}
+              onBack={() => setMode(speakingReturnMode)}
+              settings={settings}
+            />
+          )}
+          {mode === 'import' && (
+            <WordImportSection
+              onUseList={openImportedList}
+              onError={handleApiError}
+              onBack={() => setMode('input')}
+              settings={settings}
+            />
+          )}
+          {mode === 'question_editor' && editing && (
+            <QuestionEditor
+              title={editing.kind === 'context' ? '语境填空练习' : editing.data.explanation.title}
+              content={editing}
+              onRegenerate={regenerateQuestion}
+              onSave={closeEditor}
+              onCancel={() => closeEditor(null)}
+              onError={handleApiError}
+              settings={settings}
+            />
+          )}
+          {mode === 'assignments' && (
+            <AssignmentSection
+              key={assignmentDraft ? assignmentDraft.title : 'assignments'}
+              draft={assignmentDraft}
+              onBack={() => setMode('input')}
+              settings={settings}
+            />
+          )}
+          {mode === 'dashboard' && (
+            <DashboardSection
+              onBack={() => setMode('input')}
+              settings={settings}
+            />
+          )}
           {mode === 'settings' && (
             <SettingsSection 
               settings={settings} 
@@ -281,10 +839,19 @@ const InputSection: React.FC<{
   setUserWords: (s: string) => void, 
   onMatch: () => void, 
   onContext: () => void,
+  onDictation: () => void,
+  onReading: () => void,
   onGoGrammar: () => void,
+  onReview: () => void,
+  onImport: () => void,
+  onOpenSet: (file: File) => void,
+  wordLists: WordList[],
+  activeList: WordList | null,
+  onSelectList: (list: WordList | null) => void,
+  dueCount: number,
   isLoading: boolean,
   settings: AppSettings
-}> = ({ userWords, setUserWords, onMatch, onContext, onGoGrammar, isLoading, settings }) => {
+}> = ({ userWords, setUserWords, onMatch, onContext, onDictation, onReading, onGoGrammar, onReview, onImport, onOpenSet, wordLists, activeList, onSelectList, dueCount, isLoading, settings }) => {
   const isAero = settings.theme === 'aero';
   return (
     <div className={`p-8 flex flex-col gap-6 animate-in fade-in slide-in-from-bottom-4 duration-500 relative overflow-hidden ${
@@ -303,8 +870,35 @@ const InputSection: React.FC<{
         </div>
       )}
 
-      <h2 className={`text-xl font-extrabold ${isAero ? "text-black" : "text-gray-700"}`}>输入单词列表</h2>
+      <div className="flex justify-between items-center">
+        <h2 className={`text-xl font-extrabold ${isAero ? "text-black" : "text-gray-700"}`}>输入单词列表</h2>
+        <div className="flex items-center gap-4">
+          <label className="font-bold text-sm flex items-center gap-1 text-blue-500 hover:text-blue-700 cursor-pointer">
+            <FolderOpen size={16} /> 打开练习包
+            <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onOpenSet(file);
+            }} />
+          </label>
+          <button onClick={onImport} className="font-bold text-sm flex items-center gap-1 text-blue-500 hover:text-blue-700">
+            <FileUp size={16} /> 导入词表
+          </button>
+        </div>
+      </div>
       <p className={`-mt-4 text-sm ${isAero ? "text-black/70" : "text-gray-500"}`}>请用逗号或空格分隔。我们将为你自动构建练习。</p>
+      {wordLists.length > 0 && (
+        <select
+          className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+            isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-700"
+          }`}
+          value={activeList?.id || ''}
+          onChange={(e) => onSelectList(wordLists.find(l => l.id === e.target.value) || null)}
+        >
+          <option value="">使用已保存的词表...</option>
+          {wordLists.map(l => <option key={l.id} value={l.id}>{l.name}（{l.words.length} 个单词）</option>)}
+        </select>
+      )}
       <textarea
         className={`w-full h-40 p-4 rounded-2xl border-2 focus:outline-none text-lg resize-none transition-all ${
           isAero 
@@ -323,6 +917,15 @@ const InputSection: React.FC<{
           语境填空
         </Button>
       </div>
+      <Button onClick={onDictation} variant="ghost" disabled={isLoading} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="border-2 border-purple-300 text-purple-500 hover:bg-purple-50">
+        <Headphones size={20} /> 听写练习
+      </Button>
+      <Button onClick={onReading} variant="ghost" disabled={isLoading} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="border-2 border-teal-300 text-teal-600 hover:bg-teal-50">
+        <BookOpenText size={20} /> 阅读理解
+      </Button>
+      <Button onClick={onReview} variant="ghost" disabled={isLoading || dueCount === 0} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="border-2 border-orange-300 text-orange-500 hover:bg-orange-50">
+        <CalendarClock size={20} /> 今日复习 {dueCount > 0 ? `(${dueCount} 个待复习)` : '(暂无到期单词)'}
+      </Button>
       <div className="pt-4 border-t border-dashed border-gray-300">
         <Button onClick={onGoGrammar} variant="ghost" fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="border-2 border-blue-400 text-blue-600 hover:bg-blue-50">
           <BookOpen size={20} /> 进入语法练习模式
@@ -341,31 +944,58 @@ const MatchingSection: React.FC<{
   const [selectedCn, setSelectedCn] = useState<string | null>(null);
   const [matches, setMatches] = useState<string[]>([]);
   const [wrongMatch, setWrongMatch] = useState<{ en: string, cn: string } | null>(null);
+  // 连错过的单词 id -> 第一次误连的中文释义
+  const [missed, setMissed] = useState<Record<string, string>>({});
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [session, setSession] = useState<SessionRecord | null>(null);
 
   const isAero = settings.theme === 'aero';
 
   const [shuffledEn, setShuffledEn] = useState<WordPair[]>([]);
   const [shuffledCn, setShuffledCn] = useState<WordPair[]>([]);
+  const [showShare, setShowShare] = useState(false);
+  const practiceSet = useMemo(() => createPracticeSet(pairs.slice(0, 4).map(p => p.en).join(', '), { kind: 'matching', pairs }), [pairs]);
 
-  useEffect(() => {
+  const restart = () => {
     setShuffledEn([...pairs].sort(() => Math.random() - 0.5));
     setShuffledCn([...pairs].sort(() => Math.random() - 0.5));
-  }, [pairs]);
+    setMatches([]);
+    setMissed({});
+    setSession(null);
+    setStartedAt(Date.now());
+  };
+
+  useEffect(restart, [pairs]);
+
+  const selectEn = (pair: WordPair) => {
+    setSelectedEn(pair.id);
+    if (settings.ttsAutoPlay) speak(pair.en, settings).catch(() => {});
+  };
 
   useEffect(() => {
     if (selectedEn && selectedCn) {
       if (selectedEn === selectedCn) {
+        const pair = pairs.find(p => p.id === selectedEn);
+        // 本轮中连错过的单词按答错记入复习计划
+        if (pair) recordReview(pair, !(selectedEn in missed));
         setMatches(prev => [...prev, selectedEn]);
         setSelectedEn(null);
         setSelectedCn(null);
         if (matches.length + 1 === pairs.length) {
-          setTimeout(() => {
-             alert("全对了！你太棒了！");
-             onReset();
-          }, 500);
+          const record = createSession('matching', pairs.map(p => p.en).join(', '), pairs.map(p => ({
+            prompt: p.cn,
+            answer: p.en,
+            userAnswer: p.id in missed ? `误连为「${missed[p.id]}」` : p.en,
+            correct: !(p.id in missed),
+            hintsUsed: 0
+          })), startedAt);
+          saveSession(record).catch(() => {});
+          setTimeout(() => setSession(record), 500);
         }
       } else {
         setWrongMatch({ en: selectedEn, cn: selectedCn });
+        const wrongCn = pairs.find(p => p.id === selectedCn)?.cn || '';
+        setMissed(prev => selectedEn in prev ? prev : { ...prev, [selectedEn]: wrongCn });
         setTimeout(() => {
           setWrongMatch(null);
           setSelectedEn(null);
@@ -373,7 +1003,11 @@ const MatchingSection: React.FC<{
         }, 1000);
       }
     }
-  }, [selectedEn, selectedCn, pairs, matches.length, onReset]);
+  }, [selectedEn, selectedCn, pairs, matches.length, missed, startedAt]);
+
+  if (session) {
+    return <SessionResults record={session} onContinue={restart} continueLabel="再练一次" onExit={onReset} settings={settings} />;
+  }
 
   return (
     <div className={`p-8 space-y-8 animate-in fade-in duration-500 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
@@ -390,19 +1024,20 @@ const MatchingSection: React.FC<{
             const isWrong = wrongMatch?.en === p.id;
 
             return (
-              <button
-                key={p.id}
-                disabled={isMatched || !!wrongMatch}
-                onClick={() => setSelectedEn(p.id)}
-                className={`p-4 rounded-2xl border-2 font-bold transition-all ${
-                  isMatched ? "opacity-0 pointer-events-none" :
-                  isWrong ? "bg-red-500/20 border-red-500 scale-95" :
-                  isSelected ? "bg-blue-500 text-white border-blue-600 scale-105" :
-                  (isAero ? "bg-white/50 border-white/30 hover:bg-white/70" : "bg-white border-gray-100 hover:border-blue-400")
-                }`}
-              >
-                {p.en}
-              </button>
+              <div key={p.id} className={`relative ${isMatched ? "opacity-0 pointer-events-none" : ""}`}>
+                <button
+                  disabled={isMatched || !!wrongMatch}
+                  onClick={() => selectEn(p)}
+                  className={`w-full p-4 pr-10 rounded-2xl border-2 font-bold transition-all ${
+                    isWrong ? "bg-red-500/20 border-red-500 scale-95" :
+                    isSelected ? "bg-blue-500 text-white border-blue-600 scale-105" :
+                    (isAero ? "bg-white/50 border-white/30 hover:bg-white/70" : "bg-white border-gray-100 hover:border-blue-400")
+                  }`}
+                >
+                  {p.en}
+                </button>
+                <SpeakButton text={p.en} settings={settings} size={16} className={`absolute right-3 top-1/2 -translate-y-1/2 ${isSelected ? "text-white" : ""}`} />
+              </div>
             );
           })}
         </div>
@@ -432,10 +1067,15 @@ const MatchingSection: React.FC<{
         </div>
       </div>
 
-      <div className="flex justify-center pt-4">
+      {showShare && <SharePanel set={practiceSet} onClose={() => setShowShare(false)} settings={settings} />}
+
+      <div className="flex justify-center gap-8 pt-4">
         <button onClick={onReset} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
           <RotateCcw size={18} /> 返回
         </button>
+        <button onClick={() => setShowShare(!showShare)} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <Share2 size={18} /> 分享
+        </button>
       </div>
     </div>
   );
@@ -447,10 +1087,12 @@ const GrammarInputSection: React.FC<{
   grade: string,
   setGrade: (s: string) => void,
   onStart: (m: GrammarSubMode) => void,
+  onStartNode: (node: CurriculumNode, m: GrammarSubMode) => void,
   onBack: () => void,
   isLoading: boolean,
   settings: AppSettings
-}> = ({ grammarPoint, setGrammarPoint, grade, setGrade, onStart, onBack, isLoading, settings }) => {
+}> = ({ grammarPoint, setGrammarPoint, grade, setGrade, onStart, onStartNode, onBack, isLoading, settings }) => {
+  const [showSyllabus, setShowSyllabus] = useState(true);
   const isAero = settings.theme === 'aero';
   return (
     <div className={`p-8 flex flex-col gap-6 animate-in fade-in slide-in-from-left-4 duration-500 ${
@@ -470,9 +1112,14 @@ const GrammarInputSection: React.FC<{
                 isAero ? "bg-white/70 border-white/40 text-black placeholder-black/30" : "bg-white border-gray-200"
               }`}
               placeholder="例如：现在完成时"
+              list="grammar-points"
               value={grammarPoint}
               onChange={(e) => setGrammarPoint(e.target.value)}
+              onBlur={() => setGrammarPoint(canonicalGrammarPoint(grammarPoint))}
             />
+            <datalist id="grammar-points">
+              {CURRICULUM.map(n => <option key={n.id} value={n.name}>{n.english}</option>)}
+            </datalist>
           </div>
           <div>
             <label className="block text-sm font-bold mb-1 opacity-70">适用年级</label>
@@ -482,9 +1129,13 @@ const GrammarInputSection: React.FC<{
                 isAero ? "bg-white/70 border-white/40 text-black placeholder-black/30" : "bg-white border-gray-200"
               }`}
               placeholder="例如：七年级"
+              list="grammar-grades"
               value={grade}
               onChange={(e) => setGrade(e.target.value)}
             />
+            <datalist id="grammar-grades">
+              {Object.values(STAGE_LABELS).map(label => <option key={label} value={label} />)}
+            </datalist>
           </div>
         </div>
       </div>
@@ -499,6 +1150,12 @@ const GrammarInputSection: React.FC<{
         <Button onClick={() => onStart('choice')} variant="ghost" disabled={isLoading || !grammarPoint.trim()} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="border-2 border-cyan-400 text-cyan-600">
           <ListChecks size={18} /> 语法选择实战
         </Button>
+        <Button onClick={() => onStart('order')} variant="ghost" disabled={isLoading || !grammarPoint.trim()} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="border-2 border-violet-400 text-violet-600">
+          <Blocks size={18} /> 连词成句实战
+        </Button>
+        <Button onClick={() => onStart('correction')} variant="ghost" disabled={isLoading || !grammarPoint.trim()} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="border-2 border-rose-400 text-rose-600">
+          <SpellCheck size={18} /> 语法改错实战
+        </Button>
       </div>
       
       {isLoading && (
@@ -507,100 +1164,328 @@ const GrammarInputSection: React.FC<{
         </div>
       )}
 
+      <div className="space-y-3">
+        <button onClick={() => setShowSyllabus(!showSyllabus)} className={`text-sm font-black flex items-center gap-2 ${isAero ? "text-black/70" : "text-gray-500"}`}>
+          <BookMarked size={16} /> 课程大纲（七年级至高中 · CEFR A1–B2）{showSyllabus ? '收起' : '展开'}
+        </button>
+        {showSyllabus && <GrammarSyllabus onStart={onStartNode} isLoading={isLoading} settings={settings} />}
+      </div>
+
       <button onClick={onBack} className="text-sm font-bold opacity-50 hover:opacity-100 py-2 transition-opacity">进入单词练习模式</button>
     </div>
   );
 };
 
+const GrammarExplanationView: React.FC<{
+  explanation: Partial<GrammarExplanation>,
+  isStreaming?: boolean,
+  onReset: () => void,
+  onReadAloud?: (sentences: string[]) => void,
+  settings: AppSettings
+}> = ({ explanation, isStreaming = false, onReset, onReadAloud, settings }) => {
+  const isAero = settings.theme === 'aero';
+  const cursor = isStreaming && <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle" />;
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-2 duration-300 space-y-4">
+      <h3 className="text-2xl font-black">{explanation.title || (isStreaming ? 'AI 正在编写讲解...' : '')}</h3>
+      {(explanation.usage !== undefined || !isStreaming) && (
+        <div className={`p-4 rounded-2xl ${isAero ? "bg-white/40" : "bg-blue-50"} space-y-2`}>
+          <p className="font-bold text-sm text-blue-600 uppercase tracking-widest">核心用法</p>
+          <p className="leading-relaxed whitespace-pre-wrap">{explanation.usage}{explanation.examples === undefined && cursor}</p>
+        </div>
+      )}
+      {explanation.examples !== undefined && (
+        <div className="space-y-2">
+          <p className="font-bold text-sm opacity-50 uppercase tracking-widest">经典例句</p>
+          <ul className="space-y-2">
+            {explanation.examples.map((ex, i) => (
+              <li key={i} className="flex gap-2 items-start">
+                <span className="text-blue-500 font-bold">{i+1}.</span>
+                <span className="font-bold flex-grow">{ex}</span>
+                {!isStreaming && <SpeakButton text={ex} settings={settings} className="mt-0.5" />}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {!isStreaming && onReadAloud && !!explanation.examples?.length && (
+        <button onClick={() => onReadAloud(explanation.examples!)} className="w-full p-3 rounded-xl border-2 border-purple-300 text-purple-600 font-bold flex items-center justify-center gap-2 hover:bg-purple-50 transition-all">
+          <Mic size={18} /> 跟读例句
+        </button>
+      )}
+      {explanation.comparisons !== undefined && (
+        <div className={`p-4 rounded-2xl ${isAero ? "bg-white/20" : "bg-gray-50"} space-y-2 border-l-4 border-gray-300`}>
+          <p className="font-bold text-sm opacity-50 flex items-center gap-1"><HelpCircle size={14}/> 小贴士</p>
+          <p className="text-sm italic">{explanation.comparisons}{cursor}</p>
+        </div>
+      )}
+      {isStreaming && (
+        <div className="flex items-center gap-2 text-sm font-bold text-blue-500 animate-pulse">
+          <Loader2 size={16} className="animate-spin" /> 讲解生成中，练习题随后就绪...
+        </div>
+      )}
+      <Button onClick={onReset} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="mt-4">
+        {isStreaming ? '取消并返回' : '返回并尝试练习'}
+      </Button>
+    </div>
+  );
+};
+
 const GrammarPracticeSection: React.FC<{
   data: GrammarPracticeData,
   subMode: GrammarSubMode,
   onReset: () => void,
+  onRegenerate: () => void,
+  onReadAloud: (sentences: string[]) => void,
+  onAssign: (draft: AssignmentDraft) => void,
+  onEdit: () => void,
+  level: CefrLevel,
+  onFollowUp?: (kind: GrammarQuestionKind, level: CefrLevel, signal: AbortSignal) => Promise<number>,
   settings: AppSettings
-}> = ({ data, subMode, onReset, settings }) => {
+}> = ({ data, subMode, onReset, onRegenerate, onReadAloud, onAssign, onEdit, level, onFollowUp, settings }) => {
   const [fillIndex, setFillIndex] = useState(0);
   const [choiceIndex, setChoiceIndex] = useState(0);
-  const [userInput, setUserInput] = useState('');
+  const [orderIndex, setOrderIndex] = useState(0);
+  const [orderPicked, setOrderPicked] = useState<number[]>([]);
+  const [orderCheck, setOrderCheck] = useState<OrderCheck | null>(null);
+  const [correctionIndex, setCorrectionIndex] = useState(0);
+  // 点选的单词序号，NO_ERROR 表示认为这句没有错误
+  const [correctionPicked, setCorrectionPicked] = useState<number | null>(null);
+  const [correctionFix, setCorrectionFix] = useState('');
+  const [correctionGrade, setCorrectionGrade] = useState<CorrectionGrade | null>(null);
+  const [userInputs, setUserInputs] = useState<string[]>([]);
   const [feedback, setFeedback] = useState<'idle' | 'correct' | 'incorrect'>('idle');
   const [showToast, setShowToast] = useState(false);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [aiExplanation, setAiExplanation] = useState<string | null>(null);
   const [isExplaining, setIsExplaining] = useState(false);
+  // 错题写入完成前就可能点击“AI 分析”，保存写入的 Promise，分析结果等它完成后再挂上去
+  const pendingMistake = useRef<Promise<MistakeRecord | null> | null>(null);
+  const [evaluations, setEvaluations] = useState<AnswerEvaluation[] | null>(null);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [session, setSession] = useState<SessionRecord | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const explainRequest = useRef<AbortController | null>(null);
+  const [showShare, setShowShare] = useState(false);
+  const exportSource = useMemo<WorksheetSource>(() => ({ kind: 'grammar', data }), [data]);
+  const practiceSet = useMemo(() => createPracticeSet(data.explanation.title, { kind: 'grammar', data }), [data]);
+  const topic = canonicalGrammarPoint(data.explanation.title);
+  const skill = grammarSkill(topic);
+  const fillAdaptive = useAdaptiveDifficulty(skill, topic, level, data.fillQuestions.length, onFollowUp && ((l, signal) => onFollowUp('fill', l, signal)));
+  const choiceAdaptive = useAdaptiveDifficulty(skill, topic, level, data.choiceQuestions.length, onFollowUp && ((l, signal) => onFollowUp('choice', l, signal)));
+  const orderAdaptive = useAdaptiveDifficulty(skill, topic, level, data.orderQuestions.length, onFollowUp && ((l, signal) => onFollowUp('order', l, signal)));
+  const orderQuestion = data.orderQuestions[orderIndex];
+  // 每道题只打乱一次，重新渲染时词块位置不变
+  const orderTokens = useMemo(() => orderQuestion ? scrambleTokens(orderQuestion) : [], [orderQuestion]);
+  const correctionAdaptive = useAdaptiveDifficulty(skill, topic, level, data.correctionQuestions.length, onFollowUp && ((l, signal) => onFollowUp('correction', l, signal)));
+  const correctionQuestion = data.correctionQuestions[correctionIndex];
+  const correctionTokenList = useMemo(() => correctionQuestion ? correctionTokens(correctionQuestion.sentence) : [], [correctionQuestion]);
+  const correctionErrorIndex = correctionQuestion ? errorTokenIndex(correctionQuestion) : NO_ERROR;
+  const canCheckCorrection = correctionPicked === NO_ERROR || (correctionPicked !== null && !!correctionFix.trim());
+  const builtSentence = () => joinTokens(orderPicked.map(id => orderTokens.find(t => t.id === id)?.text || ''), orderQuestion ? endMarkOf(orderQuestion.sentence) : '');
+
+  useEffect(() => () => explainRequest.current?.abort(), []);
 
   const isAero = settings.theme === 'aero';
 
+  const addResult = (prompt: string, answer: string, userAnswer: string, correct: boolean) => {
+    setResults(prev => [...prev, { prompt, answer, userAnswer, correct, hintsUsed: 0 }]);
+  };
+
+  const finishSession = (kind: SessionKind) => {
+    const record = createSession(kind, data.explanation.title, results, startedAt);
+    saveSession(record).catch(() => {});
+    setSession(record);
+  };
+
+  const restart = () => {
+    setFillIndex(0);
+    setChoiceIndex(0);
+    setOrderIndex(0);
+    setOrderPicked([]);
+    setOrderCheck(null);
+    setCorrectionIndex(0);
+    setCorrectionPicked(null);
+    setCorrectionFix('');
+    setCorrectionGrade(null);
+    setUserInputs([]);
+    setFeedback('idle');
+    setResults([]);
+    setStartedAt(Date.now());
+    setSession(null);
+  };
+
+  const saveMistake = (...args: Parameters<typeof recordMistake>) => {
+    pendingMistake.current = recordMistake(...args).catch(() => null);
+  };
+
+  const filledInput = () => data.fillQuestions[fillIndex].blanks.map((_, i) => (userInputs[i] || '').trim()).join(BLANK_SEPARATOR);
+  const canCheckFill = data.fillQuestions[fillIndex]?.blanks.every((_, i) => (userInputs[i] || '').trim());
+
   const handleFillCheck = () => {
-    const isCorrect = userInput.trim().toLowerCase() === data.fillQuestions[fillIndex].answer.toLowerCase();
+    if (feedback !== 'idle' || !canCheckFill) return;
+    const q = data.fillQuestions[fillIndex];
+    const graded = evaluateBlanks(userInputs, q.blanks);
+    const isCorrect = graded.every(r => r.correct);
+    setEvaluations(graded);
+    fillAdaptive.record(fillIndex, isCorrect);
+    addResult(`${q.sentence} (${q.blanks.map(b => b.hint).join(BLANK_SEPARATOR)})`, blankAnswerText(q.blanks), filledInput(), isCorrect);
     if (isCorrect) {
       setFeedback('correct');
     } else {
       setFeedback('incorrect');
+      saveMistake({ kind: 'grammar_fill', question: data.fillQuestions[fillIndex] }, filledInput(), data.explanation.title);
       setShowToast(true);
       setTimeout(() => setShowToast(false), 5000);
     }
   };
 
   const handleNextFill = () => {
+    explainRequest.current?.abort();
     setShowToast(false);
     setAiExplanation(null);
+    pendingMistake.current = null;
+    setEvaluations(null);
     if (fillIndex < data.fillQuestions.length - 1) {
       setFillIndex(fillIndex + 1);
-      setUserInput('');
+      setUserInputs([]);
       setFeedback('idle');
     } else {
-      alert("填空练习完成！");
-      onReset();
+      finishSession('grammar_fill');
     }
   };
 
   const handleChoiceSelect = (opt: string) => {
     if (feedback !== 'idle') return;
     setSelectedOption(opt);
-    const isCorrect = opt === data.choiceQuestions[choiceIndex].answer;
+    const q = data.choiceQuestions[choiceIndex];
+    const isCorrect = opt === q.answer;
+    choiceAdaptive.record(choiceIndex, isCorrect);
+    addResult(q.sentence, q.answer, opt, isCorrect);
     if (isCorrect) {
       setFeedback('correct');
     } else {
       setFeedback('incorrect');
+      saveMistake({ kind: 'grammar_choice', question: data.choiceQuestions[choiceIndex] }, opt, data.explanation.title);
       setShowToast(true);
       setTimeout(() => setShowToast(false), 5000);
     }
   };
 
   const handleNextChoice = () => {
+    explainRequest.current?.abort();
     setShowToast(false);
     setAiExplanation(null);
+    pendingMistake.current = null;
     setSelectedOption(null);
     if (choiceIndex < data.choiceQuestions.length - 1) {
       setChoiceIndex(choiceIndex + 1);
       setFeedback('idle');
     } else {
-      alert("选择练习完成！");
-      onReset();
+      finishSession('grammar_choice');
+    }
+  };
+
+  const handleOrderCheck = () => {
+    if (feedback !== 'idle' || !orderQuestion || orderPicked.length !== orderTokens.length) return;
+    const result = checkOrder(orderPicked.map(id => orderTokens.find(t => t.id === id)!.text), orderQuestion);
+    setOrderCheck(result);
+    orderAdaptive.record(orderIndex, result.correct);
+    addResult(orderQuestion.translation || orderTokens.map(t => t.text).join(' / '), orderQuestion.sentence, builtSentence(), result.correct);
+    if (!result.correct) saveMistake({ kind: 'grammar_order', question: orderQuestion }, builtSentence(), data.explanation.title);
+    setFeedback(result.correct ? 'correct' : 'incorrect');
+  };
+
+  const handleNextOrder = () => {
+    explainRequest.current?.abort();
+    setAiExplanation(null);
+    pendingMistake.current = null;
+    setOrderPicked([]);
+    setOrderCheck(null);
+    if (orderIndex < data.orderQuestions.length - 1) {
+      setOrderIndex(orderIndex + 1);
+      setFeedback('idle');
+    } else {
+      finishSession('grammar_order');
+    }
+  };
+
+  const handleCorrectionCheck = () => {
+    if (feedback !== 'idle' || !correctionQuestion || !canCheckCorrection || correctionPicked === null) return;
+    const grade = gradeCorrection(correctionQuestion, correctionPicked, correctionFix);
+    setCorrectionGrade(grade);
+    correctionAdaptive.record(correctionIndex, grade.correct);
+    addResult(correctionQuestion.sentence, grade.expected, correctionUserText(correctionTokenList, correctionPicked, correctionFix), grade.correct);
+    if (!grade.correct) saveMistake({ kind: 'grammar_correction', question: correctionQuestion }, correctionUserText(correctionTokenList, correctionPicked, correctionFix), data.explanation.title);
+    setFeedback(grade.correct ? 'correct' : 'incorrect');
+  };
+
+  const handleNextCorrection = () => {
+    explainRequest.current?.abort();
+    setAiExplanation(null);
+    pendingMistake.current = null;
+    setCorrectionPicked(null);
+    setCorrectionFix('');
+    setCorrectionGrade(null);
+    if (correctionIndex < data.correctionQuestions.length - 1) {
+      setCorrectionIndex(correctionIndex + 1);
+      setFeedback('idle');
+    } else {
+      finishSession('grammar_correction');
     }
   };
 
   const handleAskAI = async () => {
+    const mistake = pendingMistake.current;
     setIsExplaining(true);
+    setResults(prev => prev.map((r, i) => i === prev.length - 1 ? { ...r, hintsUsed: r.hintsUsed + 1 } : r));
     try {
       let sentence = '', correct = '', wrong = '';
       if (subMode === 'fill') {
         sentence = data.fillQuestions[fillIndex].sentence;
-        correct = data.fillQuestions[fillIndex].answer;
-        wrong = userInput;
+        correct = blankAnswerText(data.fillQuestions[fillIndex].blanks);
+        wrong = filledInput();
+      } else if (subMode === 'order') {
+        sentence = orderQuestion.sentence;
+        correct = orderQuestion.sentence;
+        wrong = builtSentence();
+      } else if (subMode === 'correction') {
+        sentence = correctionQuestion.sentence;
+        correct = correctionAnswerText(correctionQuestion);
+        wrong = correctionUserText(correctionTokenList, correctionPicked ?? NO_ERROR, correctionFix);
       } else {
         sentence = data.choiceQuestions[choiceIndex].sentence;
         correct = data.choiceQuestions[choiceIndex].answer;
         wrong = selectedOption || '未选择';
       }
-      const explanation = await fetchExplanationForError(sentence, correct, wrong, settings);
+      explainRequest.current?.abort();
+      const controller = new AbortController();
+      explainRequest.current = controller;
+      const explanation = await fetchExplanationForError(sentence, correct, wrong, settings, { signal: controller.signal, onText: setAiExplanation });
       setAiExplanation(explanation);
+      mistake?.then(record => record && attachAnalysis(record.id, explanation)).catch(() => {});
     } catch (e) {
+      if (isAbortError(e)) return;
       setAiExplanation('获取分析失败，请检查网络连接。');
     } finally {
       setIsExplaining(false);
     }
   };
 
+  if ((subMode === 'fill' && !data.fillQuestions.length) || (subMode === 'choice' && !data.choiceQuestions.length) || (subMode === 'order' && !data.orderQuestions.length) || (subMode === 'correction' && !data.correctionQuestions.length)) {
+    return (
+      <div className="text-center p-8 space-y-4">
+        <p>未生成有效题目，请重试。</p>
+        <button onClick={onReset} className="font-bold text-gray-400 hover:text-gray-600">返回</button>
+      </div>
+    );
+  }
+
+  if (session) {
+    return <SessionResults record={session} onContinue={restart} continueLabel="再练一次" onExit={onReset} settings={settings} />;
+  }
+
   return (
     <div className={`p-6 flex flex-col gap-6 relative transition-all duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
       {showToast && (
@@ -617,7 +1502,7 @@ const GrammarPracticeSection: React.FC<{
             <div className="text-left">
               <p className="font-black text-sm uppercase opacity-60">答错了</p>
               <p className="text-lg font-bold">正确答案: <span className="underline decoration-red-500">
-                {subMode === 'fill' ? data.fillQuestions[fillIndex].answer : data.choiceQuestions[choiceIndex].answer}
+                {subMode === 'fill' ? blankAnswerText(data.fillQuestions[fillIndex].blanks) : data.choiceQuestions[choiceIndex].answer}
               </span></p>
             </div>
             <XCircle size={16} className="ml-4 opacity-40" />
@@ -627,70 +1512,34 @@ const GrammarPracticeSection: React.FC<{
 
       <div className="min-h-[300px] flex flex-col">
         {subMode === 'explanation' && (
-          <div className="animate-in fade-in slide-in-from-bottom-2 duration-300 space-y-4">
-            <h3 className="text-2xl font-black">{data.explanation.title}</h3>
-            <div className={`p-4 rounded-2xl ${isAero ? "bg-white/40" : "bg-blue-50"} space-y-2`}>
-              <p className="font-bold text-sm text-blue-600 uppercase tracking-widest">核心用法</p>
-              <p className="leading-relaxed whitespace-pre-wrap">{data.explanation.usage}</p>
-            </div>
-            <div className="space-y-2">
-              <p className="font-bold text-sm opacity-50 uppercase tracking-widest">经典例句</p>
-              <ul className="space-y-2">
-                {data.explanation.examples.map((ex, i) => (
-                  <li key={i} className="flex gap-2">
-                    <span className="text-blue-500 font-bold">{i+1}.</span>
-                    <span className="font-bold">{ex}</span>
-                  </li>
-                ))}
-              </ul>
-            </div>
-            <div className={`p-4 rounded-2xl ${isAero ? "bg-white/20" : "bg-gray-50"} space-y-2 border-l-4 border-gray-300`}>
-              <p className="font-bold text-sm opacity-50 flex items-center gap-1"><HelpCircle size={14}/> 小贴士</p>
-              <p className="text-sm italic">{data.explanation.comparisons}</p>
-            </div>
-            <Button onClick={onReset} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="mt-4">
-              返回并尝试练习
-            </Button>
-          </div>
+          <GrammarExplanationView explanation={data.explanation} onReset={onReset} onReadAloud={onReadAloud} settings={settings} />
         )}
 
         {subMode === 'fill' && (
           <div className="animate-in fade-in slide-in-from-right-4 duration-300 space-y-6">
             <div className="flex justify-between items-center text-xs font-black opacity-50">
-               <span>填空实战模式</span>
+               <span>填空实战模式 · 难度 {fillAdaptive.currentLevel}</span>
                <span>{fillIndex + 1} / {data.fillQuestions.length}</span>
             </div>
-            <div className="p-6 rounded-2xl bg-black/5 text-center">
-               <h2 className="text-2xl font-bold leading-relaxed">
-                {data.fillQuestions[fillIndex].sentence.split('_____').map((p, i, arr) => (
-                  <React.Fragment key={i}>
-                    {p}{i < arr.length - 1 && <span className="inline-block border-b-2 border-blue-500 px-4 mx-1 min-w-[3rem] h-2"></span>}
-                  </React.Fragment>
-                ))}
-              </h2>
-              <div className="mt-4 text-blue-600 font-black text-lg">提示词: ({data.fillQuestions[fillIndex].hint})</div>
-            </div>
-            
-            <input 
-              type="text" 
-              className={`w-full p-4 text-xl font-bold rounded-2xl border-2 focus:outline-none transition-all ${
-                isAero ? "bg-white/70 border-white/40 text-black placeholder-black/30" : "bg-white border-gray-200 focus:border-blue-400"
-              }`}
-              placeholder="在这里输入正确形式的单词..."
-              value={userInput}
-              onChange={(e) => setUserInput(e.target.value)}
-              readOnly={feedback !== 'idle'}
-              onKeyDown={(e) => e.key === 'Enter' && (feedback === 'idle' ? userInput.trim() && handleFillCheck() : handleNextFill())}
-              autoFocus
+            {fillAdaptive.message && <div className="text-xs font-bold text-blue-500 text-center">{fillAdaptive.message}</div>}
+            <BlankSentenceInput
+              key={fillIndex}
+              sentence={data.fillQuestions[fillIndex].sentence}
+              blanks={data.fillQuestions[fillIndex].blanks}
+              values={userInputs}
+              onChange={setUserInputs}
+              onSubmit={() => feedback === 'idle' ? handleFillCheck() : handleNextFill()}
+              evaluations={evaluations}
+              settings={settings}
             />
             {feedback === 'idle' ? (
-              <Button onClick={handleFillCheck} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} disabled={!userInput.trim()}>检查答案 (Enter)</Button>
+              <Button onClick={handleFillCheck} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} disabled={!canCheckFill}>检查答案 (Enter)</Button>
             ) : (
               <div className="flex flex-col gap-4">
                 <div className={`p-4 rounded-2xl flex flex-col gap-3 animate-in slide-in-from-top-2 ${feedback === 'correct' ? "bg-green-500/20" : "bg-red-500/20"}`}>
                   <div className="font-black flex items-center gap-2">
                     {feedback === 'correct' ? <CheckCircle2 className="text-green-600"/> : <XCircle className="text-red-600"/>}
-                    {feedback === 'correct' ? '做得好！' : '已经收录答案'}
+                    {feedback === 'correct' ? '做得好！' : '已收录到错题本'}
                   </div>
                   <Button onClick={handleNextFill} variant={feedback === 'correct' ? 'primary' : 'danger'} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
                     {fillIndex < data.fillQuestions.length - 1 ? '下一题 (Enter)' : '结束本次练习'}
@@ -710,6 +1559,7 @@ const GrammarPracticeSection: React.FC<{
                     </div>
                     <p className="text-sm leading-relaxed text-gray-700 font-semibold">
                       <FormattedText text={aiExplanation} />
+                      {isExplaining && <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle" />}
                     </p>
                   </div>
                 )}
@@ -721,9 +1571,10 @@ const GrammarPracticeSection: React.FC<{
         {subMode === 'choice' && (
           <div className="animate-in fade-in slide-in-from-right-4 duration-300 space-y-6">
              <div className="flex justify-between items-center text-xs font-black opacity-50">
-               <span>选择挑战模式</span>
+               <span>选择挑战模式 · 难度 {choiceAdaptive.currentLevel}</span>
                <span>{choiceIndex + 1} / {data.choiceQuestions.length}</span>
             </div>
+            {choiceAdaptive.message && <div className="text-xs font-bold text-blue-500 text-center">{choiceAdaptive.message}</div>}
             <div className="p-6 rounded-2xl bg-black/5 text-center">
               <h2 className="text-2xl font-bold leading-relaxed">
                 {data.choiceQuestions[choiceIndex].sentence.split('_____').map((p, i, arr) => (
@@ -778,6 +1629,126 @@ const GrammarPracticeSection: React.FC<{
                     </div>
                     <p className="text-sm leading-relaxed text-gray-700 font-semibold">
                       <FormattedText text={aiExplanation} />
+                      {isExplaining && <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle" />}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {subMode === 'order' && orderQuestion && (
+          <div className="animate-in fade-in slide-in-from-right-4 duration-300 space-y-6">
+            <div className="flex justify-between items-center text-xs font-black opacity-50">
+              <span>连词成句模式 · 难度 {orderAdaptive.currentLevel}</span>
+              <span>{orderIndex + 1} / {data.orderQuestions.length}</span>
+            </div>
+            {orderAdaptive.message && <div className="text-xs font-bold text-blue-500 text-center">{orderAdaptive.message}</div>}
+            {orderQuestion.translation && (
+              <div className="p-4 rounded-2xl bg-black/5 text-center text-lg font-bold">{orderQuestion.translation}</div>
+            )}
+            <SentenceBuilder
+              key={orderIndex}
+              tokens={orderTokens}
+              picked={orderPicked}
+              onChange={setOrderPicked}
+              endMark={endMarkOf(orderQuestion.sentence)}
+              result={orderCheck && orderCheck.correct}
+              settings={settings}
+            />
+            {feedback === 'idle' ? (
+              <Button onClick={handleOrderCheck} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} disabled={orderPicked.length !== orderTokens.length}>检查答案</Button>
+            ) : (
+              <div className="flex flex-col gap-4">
+                <div className={`p-4 rounded-2xl flex flex-col gap-3 animate-in slide-in-from-top-2 ${feedback === 'correct' ? "bg-green-500/20" : "bg-red-500/20"}`}>
+                  <div className="font-black flex items-center gap-2">
+                    {feedback === 'correct' ? <CheckCircle2 className="text-green-600"/> : <XCircle className="text-red-600"/>}
+                    {feedback === 'correct' ? '做得好！' : '顺序不对'}
+                  </div>
+                  {orderCheck && (
+                    <div className="text-sm font-bold">
+                      {feedback === 'correct' ? orderCheck.expected : `参考答案：${orderCheck.expected}`}
+                      {feedback === 'correct' && orderCheck.expected !== orderQuestion.sentence && <span className="block opacity-60 mt-1">也可以说：{orderQuestion.sentence}</span>}
+                      {feedback !== 'correct' && !!orderQuestion.acceptedOrders?.length && <span className="block opacity-60 mt-1">也可以说：{orderQuestion.acceptedOrders.join('；')}</span>}
+                    </div>
+                  )}
+                  <Button onClick={handleNextOrder} variant={feedback === 'correct' ? 'primary' : 'danger'} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+                    {orderIndex < data.orderQuestions.length - 1 ? '下一题' : '完成本次练习'}
+                  </Button>
+                </div>
+
+                {feedback === 'incorrect' && !aiExplanation && (
+                  <Button variant="secondary" fullWidth onClick={handleAskAI} disabled={isExplaining} theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="text-white">
+                    {isExplaining ? <Loader2 className="animate-spin" /> : <Sparkles size={18} />} 问 AI 为什么错了？
+                  </Button>
+                )}
+
+                {aiExplanation && (
+                  <div className={`p-5 rounded-2xl border-2 animate-in zoom-in duration-300 ${isAero ? "bg-white/40 border-white/50" : "bg-blue-50 border-blue-100"}`}>
+                    <div className="flex items-center gap-2 mb-2 text-blue-600 font-black">
+                      <Sparkles size={16} /> AI 错因分析
+                    </div>
+                    <p className="text-sm leading-relaxed text-gray-700 font-semibold">
+                      <FormattedText text={aiExplanation} />
+                      {isExplaining && <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle" />}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {subMode === 'correction' && correctionQuestion && (
+          <div className="animate-in fade-in slide-in-from-right-4 duration-300 space-y-6">
+            <div className="flex justify-between items-center text-xs font-black opacity-50">
+              <span>改错模式 · 难度 {correctionAdaptive.currentLevel}</span>
+              <span>{correctionIndex + 1} / {data.correctionQuestions.length}</span>
+            </div>
+            {correctionAdaptive.message && <div className="text-xs font-bold text-blue-500 text-center">{correctionAdaptive.message}</div>}
+            <p className="text-sm font-bold opacity-60 text-center">每句最多有一处错误：点击写错的单词并填写改正，或者选择“这句没有错误”。</p>
+            <CorrectionPicker
+              key={correctionIndex}
+              tokens={correctionTokenList}
+              picked={correctionPicked}
+              fix={correctionFix}
+              onPick={setCorrectionPicked}
+              onFixChange={setCorrectionFix}
+              onSubmit={handleCorrectionCheck}
+              errorIndex={correctionGrade ? correctionErrorIndex : null}
+              settings={settings}
+            />
+
+            {feedback === 'idle' ? (
+              <Button onClick={handleCorrectionCheck} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} disabled={!canCheckCorrection}>检查答案 (Enter)</Button>
+            ) : (
+              <div className="flex flex-col gap-4">
+                <div className={`p-4 rounded-2xl flex flex-col gap-3 animate-in slide-in-from-top-2 ${feedback === 'correct' ? "bg-green-500/20" : "bg-red-500/20"}`}>
+                  <div className="font-black flex items-center gap-2">
+                    {feedback === 'correct' ? <CheckCircle2 className="text-green-600"/> : <XCircle className="text-red-600"/>}
+                    {correctionGrade?.message}
+                  </div>
+                  {correctionQuestion.error && <div className="text-sm font-bold">正确的句子：{correctedSentence(correctionQuestion)}</div>}
+                  <Button onClick={handleNextCorrection} variant={feedback === 'correct' ? 'primary' : 'danger'} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+                    {correctionIndex < data.correctionQuestions.length - 1 ? '下一题' : '完成本次练习'}
+                  </Button>
+                </div>
+
+                {feedback === 'incorrect' && !aiExplanation && (
+                  <Button variant="secondary" fullWidth onClick={handleAskAI} disabled={isExplaining} theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="text-white">
+                    {isExplaining ? <Loader2 className="animate-spin" /> : <Sparkles size={18} />} 问 AI 为什么错了？
+                  </Button>
+                )}
+
+                {aiExplanation && (
+                  <div className={`p-5 rounded-2xl border-2 animate-in zoom-in duration-300 ${isAero ? "bg-white/40 border-white/50" : "bg-blue-50 border-blue-100"}`}>
+                    <div className="flex items-center gap-2 mb-2 text-blue-600 font-black">
+                      <Sparkles size={16} /> AI 错因分析
+                    </div>
+                    <p className="text-sm leading-relaxed text-gray-700 font-semibold">
+                      <FormattedText text={aiExplanation} />
+                      {isExplaining && <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle" />}
                     </p>
                   </div>
                 )}
@@ -787,20 +1758,46 @@ const GrammarPracticeSection: React.FC<{
         )}
       </div>
 
-      <button onClick={onReset} className="mt-4 text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
-        <RotateCcw size={12}/> 放弃并重新设置语法点
-      </button>
+      {showExport && <WorksheetExportPanel source={exportSource} onClose={() => setShowExport(false)} settings={settings} />}
+      {showShare && <SharePanel set={practiceSet} onClose={() => setShowShare(false)} settings={settings} />}
+
+      <div className="mt-4 flex flex-wrap justify-center gap-x-6 gap-y-2">
+        <button onClick={onReset} className="text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
+          <RotateCcw size={12}/> 放弃并重新设置语法点
+        </button>
+        <button onClick={onRegenerate} className="text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
+          <RefreshCw size={12}/> 不用缓存，重新生成
+        </button>
+        <button onClick={onEdit} className="text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
+          <Pencil size={12}/> 编辑题目
+        </button>
+        <button onClick={() => setShowExport(!showExport)} className="text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
+          <Printer size={12}/> 导出练习纸
+        </button>
+        <button onClick={() => setShowShare(!showShare)} className="text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
+          <Share2 size={12}/> 分享题目
+        </button>
+        <button onClick={() => onAssign(practiceSet)} className="text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
+          <ClipboardList size={12}/> 布置为作业
+        </button>
+      </div>
     </div>
   );
 };
 
 const ContextSection: React.FC<{ 
   questions: ContextQuestion[], 
+  // 出题用的单词，复习卡片只记在这些单词上
+  userWords: string,
   onRefresh: () => void, 
   onReset: () => void,
   isLoading: boolean,
+  onAssign: (draft: AssignmentDraft) => void,
+  onEdit: () => void,
+  level: CefrLevel,
+  onFollowUp?: (level: CefrLevel, signal: AbortSignal) => Promise<number>,
   settings: AppSettings
-}> = ({ questions, onRefresh, onReset, isLoading, settings }) => {
+}> = ({ questions, userWords, onRefresh, onReset, isLoading, onAssign, onEdit, level, onFollowUp, settings }) => {
   const [index, setIndex] = useState(0);
   const [userInput, setUserInput] = useState('');
   const [status, setStatus] = useState<'idle' | 'correct' | 'incorrect'>('idle');
@@ -809,45 +1806,104 @@ const ContextSection: React.FC<{
   const [showToast, setShowToast] = useState(false);
   const [aiExplanation, setAiExplanation] = useState<string | null>(null);
   const [isExplaining, setIsExplaining] = useState(false);
+  // 错题写入完成前就可能点击“AI 分析”，保存写入的 Promise，分析结果等它完成后再挂上去
+  const pendingMistake = useRef<Promise<MistakeRecord | null> | null>(null);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [session, setSession] = useState<SessionRecord | null>(null);
+  const [showReadAloud, setShowReadAloud] = useState(false);
+  const [evaluation, setEvaluation] = useState<AnswerEvaluation | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const explainRequest = useRef<AbortController | null>(null);
+  const [showShare, setShowShare] = useState(false);
+  const exportSource = useMemo<WorksheetSource>(() => ({ kind: 'context', title: '语境填空练习', questions }), [questions]);
+  const practiceSet = useMemo(() => createPracticeSet('语境填空练习', { kind: 'context', questions }), [questions]);
+  const adaptive = useAdaptiveDifficulty(VOCABULARY_SKILL, '词汇', level, questions.length, onFollowUp);
+  const previousQuestions = useRef(questions);
+
+  useEffect(() => () => explainRequest.current?.abort(), []);
+
+  // 换一批题目后开始新的一轮记录；难度调整追加的题目接在末尾，不打断当前这一轮
+  useEffect(() => {
+    const previous = previousQuestions.current;
+    previousQuestions.current = questions;
+    if (previous !== questions && previous.length < questions.length && previous.every((item, i) => questions[i] === item)) return;
+    explainRequest.current?.abort();
+    adaptive.reset();
+    setIndex(0);
+    setUserInput('');
+    setStatus('idle');
+    setCorrectCount(0);
+    setAttemptedCount(0);
+    setShowToast(false);
+    setAiExplanation(null);
+    setIsExplaining(false);
+    pendingMistake.current = null;
+    setEvaluation(null);
+    setShowReadAloud(false);
+    setResults([]);
+    setStartedAt(Date.now());
+    setSession(null);
+  }, [questions]);
   
   const isAero = settings.theme === 'aero';
   const q = questions[index];
 
   const handleCheck = () => {
-    const isCorrect = userInput.trim().toLowerCase() === q.answer.toLowerCase();
+    const result = evaluateAnswer(userInput, q.answer, q.acceptedAnswers);
+    const isCorrect = result.correct;
+    setEvaluation(result);
     setAttemptedCount(prev => prev + 1);
+    adaptive.record(index, isCorrect);
+    setResults(prev => [...prev, { prompt: q.sentence, answer: q.answer, userAnswer: userInput.trim(), correct: isCorrect, hintsUsed: 0 }]);
+    if (settings.ttsAutoPlay) speak(q.sentence.replace('_____', q.answer), settings).catch(() => {});
+    // 词形不对说明单词本身已经想起来了，复习计划按记住处理
+    const listWord = findListWord(q.answer, splitWordInput(userWords));
+    if (listWord) recordReview({ en: listWord }, isCorrect || result.grade === 'inflection');
     
     if (isCorrect) {
       setCorrectCount(prev => prev + 1);
       setStatus('correct');
     } else {
       setStatus('incorrect');
+      pendingMistake.current = recordMistake({ kind: 'context', question: q }, userInput.trim(), '语境填空').catch(() => null);
       setShowToast(true);
       setTimeout(() => setShowToast(false), 5000);
     }
   };
 
   const handleNext = () => {
+    explainRequest.current?.abort();
     setShowToast(false);
     setAiExplanation(null);
+    pendingMistake.current = null;
+    setShowReadAloud(false);
+    setEvaluation(null);
     if (index < questions.length - 1) {
       setIndex(index + 1);
       setUserInput('');
       setStatus('idle');
     } else {
-      setStatus('idle');
-      onRefresh();
-      setIndex(0);
-      setUserInput('');
+      const topic = Array.from(new Set(questions.map(item => item.answer.toLowerCase()))).join(', ');
+      const record = createSession('context', topic, results, startedAt);
+      saveSession(record).catch(() => {});
+      setSession(record);
     }
   };
 
   const handleAskAI = async () => {
+    const mistake = pendingMistake.current;
     setIsExplaining(true);
+    setResults(prev => prev.map((r, i) => i === prev.length - 1 ? { ...r, hintsUsed: r.hintsUsed + 1 } : r));
     try {
-      const explanation = await fetchExplanationForError(q.sentence, q.answer, userInput, settings);
+      explainRequest.current?.abort();
+      const controller = new AbortController();
+      explainRequest.current = controller;
+      const explanation = await fetchExplanationForError(q.sentence, q.answer, userInput, settings, { signal: controller.signal, onText: setAiExplanation });
       setAiExplanation(explanation);
+      mistake?.then(record => record && attachAnalysis(record.id, explanation)).catch(() => {});
     } catch (e) {
+      if (isAbortError(e)) return;
       setAiExplanation('获取分析失败，请检查网络连接。');
     } finally {
       setIsExplaining(false);
@@ -868,6 +1924,10 @@ const ContextSection: React.FC<{
 
   if (!questions.length) return <div className="text-center p-8">未生成题目，请重试。</div>;
 
+  if (session) {
+    return <SessionResults record={session} onContinue={onRefresh} continueLabel={isLoading ? '正在换一批题目...' : '换一批题目'} onExit={onReset} settings={settings} />;
+  }
+
   return (
     <div className={`p-8 space-y-8 relative transition-all duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
       {/* Loading overlay for refresh */}
@@ -902,8 +1962,9 @@ const ContextSection: React.FC<{
          <div className={`flex items-center gap-2 font-black text-sm uppercase tracking-widest ${isAero ? "text-black/60" : "text-gray-400"}`}>
            <Target size={16} /> 准确率: <span className={isAero ? "text-black" : "text-[#58cc02]"}>{accuracy}%</span>
          </div>
-         <span className={`text-sm font-black uppercase tracking-widest ${isAero ? "text-black/60" : "text-gray-400"}`}>第 {index + 1} / {questions.length} 题</span>
+         <span className={`text-sm font-black uppercase tracking-widest ${isAero ? "text-black/60" : "text-gray-400"}`}>难度 {adaptive.currentLevel} · 第 {index + 1} / {questions.length} 题</span>
       </div>
+      {adaptive.message && <div className="-mt-6 text-xs font-bold text-blue-500 text-right">{adaptive.message}</div>}
 
       <div className={`w-full h-4 rounded-full overflow-hidden transition-all ${isAero ? "bg-white/40" : "bg-gray-100"}`}>
         <div className={`h-full transition-all duration-500 ${isAero ? "bg-blue-600 shadow-[0_0_10px_white]" : "bg-[#58cc02]"}`} style={{ width: `${((index + 1) / questions.length) * 100}%` }} />
@@ -914,9 +1975,12 @@ const ContextSection: React.FC<{
           {q.sentence.split('_____').map((part, i, arr) => (
             <React.Fragment key={i}>
               {part}
-              {i < arr.length - 1 && <span className={`inline-block border-b-2 w-24 mx-2 ${isAero ? "border-black/50" : "border-gray-300"}`}></span>}
+              {i < arr.length - 1 && (status === 'idle'
+                ? <span className={`inline-block border-b-2 w-24 mx-2 ${isAero ? "border-black/50" : "border-gray-300"}`}></span>
+                : <span className={`mx-1 underline decoration-2 ${status === 'correct' ? "decoration-green-500" : "decoration-red-500"}`}>{q.answer}</span>)}
             </React.Fragment>
           ))}
+          {status !== 'idle' && <SpeakButton text={q.sentence.replace('_____', q.answer)} settings={settings} size={22} className="ml-2 align-middle" />}
         </h2>
       </div>
 
@@ -945,12 +2009,21 @@ const ContextSection: React.FC<{
             }`}>
               <div className={`flex items-center gap-2 font-black text-xl`}>
                 {status === 'correct' ? <CheckCircle2 /> : <XCircle />}
-                {status === 'correct' ? '做得好！' : '已经收录答案'}
+                {status === 'correct' ? '做得好！' : '已收录到错题本'}
               </div>
               {status === 'correct' && <div className="text-sm opacity-70">你答对了这一题，按下 Enter 继续。</div>}
+              {evaluation && evaluation.grade !== 'exact' && <div className="text-sm font-bold">{evaluation.message}</div>}
               <Button onClick={handleNext} variant={status === 'correct' ? 'primary' : 'danger'} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>下一题 (Enter)</Button>
             </div>
 
+            {showReadAloud ? (
+              <ReadAloudPanel target={q.sentence.replace('_____', q.answer)} settings={settings} />
+            ) : (
+              <button onClick={() => setShowReadAloud(true)} className="w-full p-3 rounded-xl border-2 border-purple-300 text-purple-600 font-bold flex items-center justify-center gap-2 hover:bg-purple-50 transition-all">
+                <Mic size={18} /> 跟读这句
+              </button>
+            )}
+
             {status === 'incorrect' && !aiExplanation && (
               <Button variant="secondary" fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="text-white" onClick={handleAskAI} disabled={isExplaining}>
                 {isExplaining ? <Loader2 className="animate-spin" /> : <Sparkles size={18} />} 问 AI 为什么错了？
@@ -964,6 +2037,7 @@ const ContextSection: React.FC<{
                 </div>
                 <p className="text-sm leading-relaxed text-gray-700 font-semibold">
                   <FormattedText text={aiExplanation} />
+                  {isExplaining && <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle" />}
                 </p>
               </div>
             )}
@@ -971,10 +2045,25 @@ const ContextSection: React.FC<{
         )}
       </div>
 
+      {showExport && <WorksheetExportPanel source={exportSource} onClose={() => setShowExport(false)} settings={settings} />}
+      {showShare && <SharePanel set={practiceSet} onClose={() => setShowShare(false)} settings={settings} />}
+
       <div className={`flex justify-between items-center pt-4 border-t ${isAero ? "border-black/20" : "border-gray-50"}`}>
         <button onClick={onReset} className={`font-bold transition-colors flex items-center gap-2 ${isAero ? "text-black/70 hover:text-black" : "text-gray-400 hover:text-gray-600"}`}>
           <RotateCcw size={18} /> 重新输入单词
         </button>
+        <button onClick={onEdit} className={`font-bold transition-colors flex items-center gap-2 ${isAero ? "text-black/70 hover:text-black" : "text-gray-400 hover:text-gray-600"}`}>
+          <Pencil size={18} /> 编辑
+        </button>
+        <button onClick={() => setShowExport(!showExport)} className={`font-bold transition-colors flex items-center gap-2 ${isAero ? "text-black/70 hover:text-black" : "text-gray-400 hover:text-gray-600"}`}>
+          <Printer size={18} /> 导出练习纸
+        </button>
+        <button onClick={() => setShowShare(!showShare)} className={`font-bold transition-colors flex items-center gap-2 ${isAero ? "text-black/70 hover:text-black" : "text-gray-400 hover:text-gray-600"}`}>
+          <Share2 size={18} /> 分享
+        </button>
+        <button onClick={() => onAssign(practiceSet)} className={`font-bold transition-colors flex items-center gap-2 ${isAero ? "text-black/70 hover:text-black" : "text-gray-400 hover:text-gray-600"}`}>
+          <ClipboardList size={18} /> 布置作业
+        </button>
         <button onClick={onRefresh} disabled={isLoading} className={`font-bold transition-colors flex items-center gap-2 ${isAero ? "text-black/80 hover:text-black" : "text-[#1cb0f6] hover:text-[#1899d6]"}`}>
           换一批题目
         </button>
@@ -985,6 +2074,35 @@ const ContextSection: React.FC<{
 
 const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Dispatch<React.SetStateAction<AppSettings>>, onClose: () => void, isDev: boolean, onForceSelectKey: () => void }> = ({ settings, setSettings, onClose, isDev, onForceSelectKey }) => {
   const isAero = settings.theme === 'aero';
+  const provider = getProvider(settings.provider);
+
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  const handleClearCache = async () => {
+    await clearCache().catch(() => {});
+    setCacheCleared(true);
+  };
+
+  const handleProviderChange = (id: AiProvider) => {
+    const next = getProvider(id);
+    setSettings(s => ({ ...s, provider: id, baseUrl: next.defaultBaseUrl, modelName: next.defaultModel }));
+  };
+
+  const updateFallback = (index: number, patch: Partial<AiFallback>) => {
+    setSettings(s => ({ ...s, fallbacks: s.fallbacks.map((f, i) => i === index ? { ...f, ...patch } : f) }));
+  };
+
+  const addFallback = () => {
+    setSettings(s => ({ ...s, fallbacks: [...s.fallbacks, { provider: s.provider, baseUrl: '', apiKey: '', modelName: '' }] }));
+  };
+
+  const removeFallback = (index: number) => {
+    setSettings(s => ({ ...s, fallbacks: s.fallbacks.filter((_, i) => i !== index) }));
+  };
+
+  const fieldClass = `w-full p-2 rounded-lg border-2 focus:outline-none text-sm font-bold transition-all ${
+    isAero ? "bg-white/70 border-white/30 text-black placeholder-black/30" : "bg-white border-gray-100 text-gray-800"
+  }`;
   return (
     <div className={`p-8 space-y-6 animate-in fade-in zoom-in duration-200 transition-all ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
       <div className="flex justify-between items-center mb-4">
@@ -994,6 +2112,21 @@ const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Disp
 
       <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
         <div className="space-y-4">
+          <div>
+            <label className={`block text-sm font-bold mb-2 uppercase tracking-wide ${isAero ? "text-black/60" : "text-gray-500"}`}>AI 服务商</label>
+            <select 
+              className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+                isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-800"
+              }`} 
+              value={settings.provider} 
+              onChange={(e) => handleProviderChange(e.target.value as AiProvider)}
+            >
+              {Object.values(AI_PROVIDERS).map(p => (
+                <option key={p.id} value={p.id} className="text-black">{p.label}</option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className={`block text-sm font-bold mb-2 uppercase tracking-wide ${isAero ? "text-black/60" : "text-gray-500"}`}>API Key</label>
             <input 
@@ -1003,7 +2136,7 @@ const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Disp
               }`} 
               value={settings.customApiKey} 
               onChange={(e) => setSettings(s => ({ ...s, customApiKey: e.target.value }))}
-              placeholder="填写您的 Gemini 或 OpenAI (sk-...) Key"
+              placeholder={provider.keyPlaceholder}
             />
           </div>
 
@@ -1016,7 +2149,7 @@ const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Disp
               }`} 
               value={settings.baseUrl} 
               onChange={(e) => setSettings(s => ({ ...s, baseUrl: e.target.value }))}
-              placeholder="OpenAI 兼容模式可选"
+              placeholder={provider.defaultBaseUrl}
             />
           </div>
 
@@ -1091,6 +2224,22 @@ const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Disp
           </div>
         </div>
 
+        <div>
+          <label className={`block text-sm font-bold mb-2 uppercase tracking-wide flex items-center gap-1 ${isAero ? "text-black/60" : "text-gray-500"}`}>
+            <Hash size={16} /> 错题连续答对几次算掌握
+          </label>
+          <input 
+            type="number" 
+            min="1" 
+            max="10" 
+            className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+              isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-800"
+            }`} 
+            value={settings.mistakeRedoStreak} 
+            onChange={(e) => setSettings(s => ({ ...s, mistakeRedoStreak: parseInt(e.target.value) || 3 }))}
+          />
+        </div>
+
         {isAero && (
           <div className="animate-in slide-in-from-top-2 duration-300">
             <label className={`block text-sm font-bold mb-2 uppercase tracking-wide text-black/60 flex items-center gap-2`}>
@@ -1109,7 +2258,7 @@ const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Disp
 
         <div>
           <label className={`block text-sm font-bold mb-2 uppercase tracking-wide ${isAero ? "text-black/60" : "text-gray-500"}`}>模型名称</label>
-          {isDev && !settings.customApiKey ? (
+          {isDev && settings.provider === 'gemini' && !settings.customApiKey ? (
             <select className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
               isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-800"
             }`} value={settings.modelName} onChange={(e) => setSettings(s => ({ ...s, modelName: e.target.value }))}>
@@ -1124,11 +2273,133 @@ const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Disp
               }`} 
               value={settings.modelName} 
               onChange={(e) => setSettings(s => ({ ...s, modelName: e.target.value }))}
-              placeholder="输入模型名称 (如 gpt-4o)..."
+              placeholder={`输入模型名称 (如 ${provider.defaultModel})...`}
             />
           )}
         </div>
 
+        <div>
+          <label className={`block text-sm font-bold mb-2 uppercase tracking-wide ${isAero ? "text-black/60" : "text-gray-500"}`}>备用模型（按顺序尝试）</label>
+          <div className={`text-xs mb-2 ${isAero ? "text-black/60" : "text-gray-500"}`}>主模型重试后仍失败时自动切换；Key 和地址留空则沿用同一服务商的设置或默认值</div>
+          <div className="space-y-2">
+            {settings.fallbacks.map((f, i) => (
+              <div key={i} className={`p-3 rounded-xl border-2 space-y-2 ${isAero ? "bg-white/50 border-white/30" : "bg-gray-50 border-gray-100"}`}>
+                <div className="flex gap-2 items-center">
+                  <span className="text-xs font-black opacity-50 shrink-0">#{i + 1}</span>
+                  <select className={fieldClass} value={f.provider} onChange={(e) => updateFallback(i, { provider: e.target.value as AiProvider })}>
+                    {Object.values(AI_PROVIDERS).map(p => (
+                      <option key={p.id} value={p.id} className="text-black">{p.label}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => removeFallback(i)} className="opacity-40 hover:opacity-100 hover:text-red-500 shrink-0"><Trash2 size={16} /></button>
+                </div>
+                <input type="text" className={fieldClass} value={f.modelName} onChange={(e) => updateFallback(i, { modelName: e.target.value })} placeholder={`模型名称 (默认 ${getProvider(f.provider).defaultModel})`} />
+                <input type="text" className={fieldClass} value={f.baseUrl} onChange={(e) => updateFallback(i, { baseUrl: e.target.value })} placeholder={getProvider(f.provider).defaultBaseUrl} />
+                <input type="password" className={fieldClass} value={f.apiKey} onChange={(e) => updateFallback(i, { apiKey: e.target.value })} placeholder={getProvider(f.provider).keyPlaceholder} />
+              </div>
+            ))}
+            <button onClick={addFallback} className={`w-full p-2 rounded-xl border-2 border-dashed font-bold text-sm flex items-center justify-center gap-1 transition-all ${
+              isAero ? "border-white/50 text-black/60 hover:text-black" : "border-gray-200 text-gray-400 hover:text-gray-600"
+            }`}>
+              <Plus size={16} /> 添加备用模型
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={`block text-sm font-bold mb-2 uppercase tracking-wide ${isAero ? "text-black/60" : "text-gray-500"}`}>超时（秒）</label>
+            <input 
+              type="number" 
+              min="10" 
+              max="300" 
+              className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+                isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-800"
+              }`} 
+              value={settings.requestTimeoutSec} 
+              onChange={(e) => setSettings(s => ({ ...s, requestTimeoutSec: parseInt(e.target.value) || 60 }))}
+            />
+          </div>
+          <div>
+            <label className={`block text-sm font-bold mb-2 uppercase tracking-wide ${isAero ? "text-black/60" : "text-gray-500"}`}>失败重试次数</label>
+            <input 
+              type="number" 
+              min="0" 
+              max="5" 
+              className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+                isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-800"
+              }`} 
+              value={settings.maxRetries} 
+              onChange={(e) => setSettings(s => ({ ...s, maxRetries: Math.max(0, parseInt(e.target.value) || 0) }))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <label className={`block text-sm font-bold uppercase tracking-wide flex items-center gap-1 ${isAero ? "text-black/60" : "text-gray-500"}`}>
+            <Volume2 size={16} /> 发音
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            {([['us', '美式发音'], ['uk', '英式发音']] as const).map(([accent, label]) => (
+              <button 
+                key={accent}
+                onClick={() => setSettings(s => ({ ...s, ttsAccent: accent }))}
+                className={`p-3 rounded-xl border-2 font-bold transition-all ${
+                  settings.ttsAccent === accent 
+                    ? "bg-[#1cb0f6] text-white border-[#1899d6]" 
+                    : (isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-400")
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div>
+            <div className={`text-xs font-bold mb-1 ${isAero ? "text-black/60" : "text-gray-500"}`}>语速 {settings.ttsRate.toFixed(1)}x</div>
+            <input 
+              type="range" 
+              min="0.5" 
+              max="1.5" 
+              step="0.1"
+              value={settings.ttsRate} 
+              onChange={(e) => setSettings(s => ({ ...s, ttsRate: parseFloat(e.target.value) }))}
+              className="w-full h-2 rounded-lg appearance-none cursor-pointer accent-blue-600 bg-gray-200"
+            />
+          </div>
+          <div className={`flex items-center justify-between p-4 rounded-2xl border transition-all ${
+            isAero ? "bg-white/70 border-white/30" : "bg-gray-50 border-gray-100"
+          }`}>
+            <div>
+              <div className="font-bold">自动朗读</div>
+              <div className={`text-xs ${isAero ? "text-black/60" : "text-gray-500"}`}>选中单词或答完填空题后自动播放发音</div>
+            </div>
+            <input type="checkbox" className="w-6 h-6 accent-[#58cc02]" checked={settings.ttsAutoPlay} onChange={(e) => setSettings(s => ({ ...s, ttsAutoPlay: e.target.checked }))} />
+          </div>
+        </div>
+
+        <div className={`flex items-center justify-between p-4 rounded-2xl border transition-all ${
+          isAero ? "bg-white/70 border-white/30" : "bg-gray-50 border-gray-100"
+        }`}>
+          <div>
+            <div className="font-bold flex items-center gap-2"><WifiOff size={16} /> 离线题库模式</div>
+            <div className={`text-xs ${isAero ? "text-black/60" : "text-gray-500"}`}>不调用 AI，使用内置单词和语法题库生成练习（可选语法点：{listLocalGrammarPoints().join('、')}）</div>
+          </div>
+          <input type="checkbox" className="w-6 h-6 accent-[#58cc02]" checked={settings.offlineMode} onChange={(e) => setSettings(s => ({ ...s, offlineMode: e.target.checked }))} />
+        </div>
+
+        <div className={`flex items-center justify-between gap-3 p-4 rounded-2xl border transition-all ${
+          isAero ? "bg-white/70 border-white/30" : "bg-gray-50 border-gray-100"
+        }`}>
+          <div className="flex-grow">
+            <div className="font-bold flex items-center gap-2"><Database size={16} /> 缓存 AI 结果</div>
+            <div className={`text-xs ${isAero ? "text-black/60" : "text-gray-500"}`}>相同的请求 7 天内直接使用本地结果，节省等待时间和调用额度</div>
+          </div>
+          <button onClick={handleClearCache} className={`text-xs font-bold shrink-0 ${isAero ? "text-black/60 hover:text-black" : "text-gray-400 hover:text-gray-600"}`}>
+            {cacheCleared ? '已清空' : '清空缓存'}
+          </button>
+          <input type="checkbox" className="w-6 h-6 accent-[#58cc02]" checked={settings.cacheEnabled} onChange={(e) => setSettings(s => ({ ...s, cacheEnabled: e.target.checked }))} />
+        </div>
+
         <div className={`flex items-center justify-between p-4 rounded-2xl border transition-all ${
           isAero ? "bg-white/70 border-white/30" : "bg-gray-50 border-gray-100"
         }`}>
@@ -1138,6 +2409,16 @@ const SettingsSection: React.FC<{ settings: AppSettings, setSettings: React.Disp
           </div>
           <input type="checkbox" className="w-6 h-6 accent-[#58cc02]" checked={settings.allowInflection} onChange={(e) => setSettings(s => ({ ...s, allowInflection: e.target.checked }))} />
         </div>
+
+        <div className={`flex items-center justify-between p-4 rounded-2xl border transition-all ${
+          isAero ? "bg-white/70 border-white/30" : "bg-gray-50 border-gray-100"
+        }`}>
+          <div>
+            <div className="font-bold">练习前先检查题目</div>
+            <div className={`text-xs ${isAero ? "text-black/60" : "text-gray-500"}`}>AI 生成题目后先进入编辑页，可修正答案、删除或重新生成单道题</div>
+          </div>
+          <input type="checkbox" className="w-6 h-6 accent-[#58cc02]" checked={settings.reviewBeforePractice} onChange={(e) => setSettings(s => ({ ...s, reviewBeforePractice: e.target.checked }))} />
+        </div>
       </div>
 
       <div className="pt-4">
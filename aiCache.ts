@@ -0,0 +1,141 @@
+
+import { STORES, idbGet, idbGetAll, idbPut, idbDelete, idbClear } from './db';
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 200;
+const MAX_TOTAL_CHARS = 5_000_000;
+
+interface CacheEntry {
+  id: string;
+  value: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface Subscriber {
+  onText?: (text: string) => void;
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: Set<Subscriber>;
+  // 已经收到的流式文本，后加入的调用方先补发一次
+  text: string;
+}
+
+const inflight = new Map<string, SharedRequest>();
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// 两轮不同初值的 FNV-1a，拼成 64 位；只用于区分缓存条目，不需要抗碰撞
+export const fallbackHash = (text: string): string =>
+  [0x811c9dc5, 0x01000193].map(seed => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }).join('');
+
+// crypto.subtle 只在安全上下文（https 或 localhost）中可用，局域网 http 访问时退回普通哈希
+export const cacheKey = async (parts: string[]): Promise<string> => {
+  const text = parts.join('\u0000');
+  if (!globalThis.crypto?.subtle) return fallbackHash(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 缓存不可用（如隐私模式禁用 IndexedDB）时静默降级为不缓存
+export const getCached = async (key: string, now: number = Date.now()): Promise<string | null> => {
+  try {
+    const entry = await idbGet<CacheEntry>(STORES.aiCache, key);
+    if (!entry) return null;
+    if (entry.expiresAt <= now) {
+      await idbDelete(STORES.aiCache, key);
+      return null;
+    }
+    return entry.value;
+  } catch {
+    return null;
+  }
+};
+
+// 超出条数或总大小时，优先淘汰已过期和最早写入的条目
+const prune = async (now: number) => {
+  const entries = await idbGetAll<CacheEntry>(STORES.aiCache);
+  entries.sort((a, b) => a.createdAt - b.createdAt);
+  let total = entries.reduce((sum, e) => sum + e.value.length, 0);
+  let count = entries.length;
+  for (const entry of entries) {
+    const expired = entry.expiresAt <= now;
+    if (!expired && count <= MAX_ENTRIES && total <= MAX_TOTAL_CHARS) continue;
+    await idbDelete(STORES.aiCache, entry.id);
+    count--;
+    total -= entry.value.length;
+  }
+};
+
+export const setCached = async (key: string, value: string, ttlMs: number = DEFAULT_TTL_MS, now: number = Date.now()) => {
+  try {
+    await idbPut<CacheEntry>(STORES.aiCache, { id: key, value, createdAt: now, expiresAt: now + ttlMs });
+    await prune(now);
+  } catch {
+    // 忽略缓存写入失败
+  }
+};
+
+export const clearCache = async () => {
+  inflight.clear();
+  await idbClear(STORES.aiCache);
+};
+
+// 相同 key 的请求在完成前只真正发出一次。共享的请求有自己的 AbortController，
+// 所有调用方都取消后才中止；流式文本分发给每个调用方
+export const dedupe = <T>(
+  key: string,
+  task: (signal: AbortSignal, onText: (text: string) => void) => Promise<T>,
+  options: { signal?: AbortSignal, onText?: (text: string) => void } = {}
+): Promise<T> => {
+  if (options.signal?.aborted) return Promise.reject(abortError());
+
+  let shared = inflight.get(key);
+  if (!shared) {
+    const request: SharedRequest = { promise: Promise.resolve(), controller: new AbortController(), subscribers: new Set(), text: '' };
+    request.promise = task(request.controller.signal, text => {
+      request.text = text;
+      request.subscribers.forEach(s => s.onText?.(text));
+    }).finally(() => {
+      if (inflight.get(key) === request) inflight.delete(key);
+    });
+    inflight.set(key, request);
+    shared = request;
+  }
+
+  const request = shared;
+  const subscriber: Subscriber = { onText: options.onText };
+  request.subscribers.add(subscriber);
+  if (request.text) options.onText?.(request.text);
+
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      request.subscribers.delete(subscriber);
+    };
+    const onAbort = () => {
+      leave();
+      // 最后一个调用方离开时才真正中止，之后的相同请求重新发出
+      if (!request.subscribers.size) {
+        if (inflight.get(key) === request) inflight.delete(key);
+        request.controller.abort();
+      }
+      reject(abortError());
+    };
+    options.signal?.addEventListener('abort', onAbort);
+    (request.promise as Promise<T>).then(
+      value => { leave(); resolve(value); },
+      error => { leave(); reject(error); }
+    );
+  });
+};
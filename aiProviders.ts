@@ -0,0 +1,404 @@
+
+import { GoogleGenAI, ApiError } from "@google/genai";
+import { AiProvider } from './types';
+
+export type AiErrorKind = 'auth' | 'rate_limit' | 'bad_request' | 'server' | 'network' | 'timeout' | 'unknown';
+
+export class AiProviderError extends Error {
+  kind: AiErrorKind;
+  status?: number;
+  // 服务端通过 Retry-After 要求等待的毫秒数
+  retryAfterMs?: number;
+
+  constructor(message: string, kind: AiErrorKind, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AiProviderError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface AiRequest {
+  prompt: string;
+  schema?: any;
+  signal?: AbortSignal;
+}
+
+export interface ProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+export interface AiProviderAdapter {
+  id: AiProvider;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  keyPlaceholder: string;
+  generate: (request: AiRequest, config: ProviderConfig) => Promise<string>;
+  // onDelta 收到的是增量文本，返回值为完整文本
+  stream: (request: AiRequest, config: ProviderConfig, onDelta: (delta: string) => void) => Promise<string>;
+}
+
+export const isAbortError = (e: any): boolean => e?.name === 'AbortError';
+
+// 限流、服务端错误、网络抖动和超时值得重试；鉴权和请求参数错误重试也无济于事
+export const isRetryableError = (e: any): boolean =>
+  e instanceof AiProviderError && ['rate_limit', 'server', 'network', 'timeout'].includes(e.kind);
+
+// Retry-After 可以是秒数，也可以是 HTTP 日期
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const JSON_ONLY_HINT = '\n\n重要：请务必返回合法的 JSON 格式数据，不要包含任何解释文字。';
+
+const kindFromStatus = (status: number): AiErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+};
+
+const trimSlash = (url: string) => url.endsWith('/') ? url.slice(0, -1) : url;
+
+// Gemini 的 Type 枚举是大写的，转换成标准 JSON Schema 供其他服务使用
+export const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value)
+  ]));
+};
+
+const post = async (providerLabel: string, url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (e: any) {
+    if (isAbortError(e)) throw e;
+    throw new AiProviderError(`${providerLabel} 网络请求失败: ${e.message || e}`, 'network');
+  }
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => null);
+    const detail = err?.error?.message || (typeof err?.error === 'string' ? err.error : '') || `HTTP ${response.status}`;
+    throw new AiProviderError(
+      `${providerLabel} 请求失败 (${response.status}): ${detail}`,
+      kindFromStatus(response.status),
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return response;
+};
+
+// 代理或网关可能以 200 返回 HTML 错误页，响应体也可能被截断，这些都按服务端错误处理以便重试和切换备用服务
+const postJson = async (providerLabel: string, url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): Promise<any> => {
+  const response = await post(providerLabel, url, headers, body, signal);
+  try {
+    return await response.json();
+  } catch (e: any) {
+    if (isAbortError(e)) throw e;
+    throw new AiProviderError(`${providerLabel} 返回的内容不是合法的 JSON，请检查服务地址或代理设置`, 'server', response.status);
+  }
+};
+
+// 逐行读取 SSE / NDJSON 流；连接中途断开按网络错误处理，onLine 抛出的错误会结束读取
+const readLines = async (providerLabel: string, response: Response, onLine: (line: string) => void) => {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (e: any) {
+        if (isAbortError(e)) throw e;
+        throw new AiProviderError(`${providerLabel} 流式输出中断: ${e.message || e}`, 'network');
+      }
+      if (chunk.done) break;
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(line => line.trim() && onLine(line.trim()));
+    }
+    if (buffer.trim()) onLine(buffer.trim());
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  }
+};
+
+const STREAM_ERROR_KINDS: Record<string, AiErrorKind> = {
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  invalid_request_error: 'bad_request',
+  rate_limit_error: 'rate_limit',
+  rate_limit_exceeded: 'rate_limit',
+  overloaded_error: 'server',
+  api_error: 'server',
+  server_error: 'server'
+};
+
+// 流已经以 200 开始后，服务端把错误放在数据里：Anthropic 是 {"type":"error","error":{...}}，
+// OpenAI 兼容接口是 {"error":{...}}，Ollama 是 {"error":"..."}；未知类型按服务端错误处理，允许重试
+const streamError = (providerLabel: string, data: any): AiProviderError | null => {
+  const error = data?.error;
+  if (!error) return null;
+  const type = typeof error === 'object' ? String(error.type || error.code || '') : '';
+  const message = typeof error === 'string' ? error : error.message || type || '未知错误';
+  return new AiProviderError(`${providerLabel} 流式输出出错: ${message}`, STREAM_ERROR_KINDS[type] || 'server');
+};
+
+const readSseData = (providerLabel: string, response: Response, onData: (data: any) => void) => readLines(providerLabel, response, line => {
+  if (!line.startsWith('data:')) return;
+  const payload = line.slice(5).trim();
+  if (!payload || payload === '[DONE]') return;
+  let data: any;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    // 忽略无法解析的心跳或残缺行
+    return;
+  }
+  const error = streamError(providerLabel, data);
+  if (error) throw error;
+  onData(data);
+});
+
+const geminiConfig = (schema: any, signal?: AbortSignal) => ({
+  abortSignal: signal,
+  ...(schema ? { responseMimeType: "application/json", responseSchema: schema } : {})
+});
+
+// 各浏览器和 Node 的 fetch 在网络失败时都抛出 TypeError，但提示文字各不相同
+const NETWORK_FAILURE = /failed to fetch|fetch failed|networkerror|network error|load failed|terminated/i;
+const isNetworkFailure = (e: any) => e instanceof TypeError && NETWORK_FAILURE.test(e.message);
+
+const toGeminiError = (e: any): Error => {
+  if (isAbortError(e) || e instanceof AiProviderError) return e;
+  if (e instanceof ApiError) {
+    // Gemini 把建议的等待时间放在错误详情的 RetryInfo 里，例如 "retryDelay": "30s"
+    const retryDelay = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(e.message);
+    return new AiProviderError(`Gemini 请求失败 (${e.status}): ${e.message}`, kindFromStatus(e.status), e.status, retryDelay ? Number(retryDelay[1]) * 1000 : undefined);
+  }
+  if (isNetworkFailure(e)) return new AiProviderError(`Gemini 网络请求失败: ${e.message}`, 'network');
+  // 程序错误和 SDK 解析回复出错原样抛出，不当作网络问题去重试或切换备用服务
+  return e;
+};
+
+const geminiAdapter: AiProviderAdapter = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com',
+  defaultModel: 'gemini-3-flash-preview',
+  requiresApiKey: true,
+  keyPlaceholder: '填写您的 Gemini API Key',
+  generate: async ({ prompt, schema, signal }, { apiKey, baseUrl, model }) => {
+    const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: geminiConfig(schema, signal)
+      });
+      return response.text?.trim() || '';
+    } catch (e: any) {
+      throw toGeminiError(e);
+    }
+  },
+  stream: async ({ prompt, schema, signal }, { apiKey, baseUrl, model }, onDelta) => {
+    const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+    let text = '';
+    try {
+      const response = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: geminiConfig(schema, signal)
+      });
+      for await (const chunk of response) {
+        const delta = chunk.text || '';
+        if (!delta) continue;
+        text += delta;
+        onDelta(delta);
+      }
+      return text.trim();
+    } catch (e: any) {
+      throw toGeminiError(e);
+    }
+  }
+};
+
+const AZURE_API_VERSION = '2024-10-21';
+
+// Azure 的部署地址形如 /openai/deployments/<部署名>/chat/completions?api-version=...，只填资源地址时用模型名作为部署名
+const azureUrl = (cleanBaseUrl: string, model: string) => {
+  if (/\/openai\/v\d+$/.test(cleanBaseUrl)) return `${cleanBaseUrl}/chat/completions`;
+  const url = cleanBaseUrl.includes('/chat/completions') ? cleanBaseUrl
+    : cleanBaseUrl.includes('/openai/deployments/') ? `${cleanBaseUrl}/chat/completions`
+    : `${cleanBaseUrl.replace(/\/openai$/, '')}/openai/deployments/${encodeURIComponent(model)}/chat/completions`;
+  return /[?&]api-version=/.test(url) ? url : `${url}${url.includes('?') ? '&' : '?'}api-version=${AZURE_API_VERSION}`;
+};
+
+const openAiRequest = ({ prompt, schema }: AiRequest, { apiKey, baseUrl, model }: ProviderConfig) => {
+  const cleanBaseUrl = trimSlash(baseUrl);
+  const isAzure = cleanBaseUrl.includes('.openai.azure.com');
+  const url = isAzure ? azureUrl(cleanBaseUrl, model)
+    : cleanBaseUrl.includes('/chat/completions') ? cleanBaseUrl
+    : `${cleanBaseUrl}${/\/v\d+$/.test(cleanBaseUrl) ? '' : '/v1'}/chat/completions`;
+
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    if (isAzure) headers['api-key'] = apiKey;
+    else headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const body = {
+    model,
+    messages: [{ role: 'user', content: schema ? `${prompt}${JSON_ONLY_HINT}` : prompt }],
+    temperature: 0.7,
+    response_format: schema ? { type: "json_object" } : undefined
+  };
+  return { url, headers, body };
+};
+
+// 兼容 OpenAI、DeepSeek、Moonshot、llama.cpp 等 chat completions 接口，以及 Azure OpenAI 部署地址
+const openAiAdapter: AiProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI 兼容接口',
+  defaultBaseUrl: 'https://api.openai.com',
+  defaultModel: 'gpt-4o-mini',
+  requiresApiKey: false,
+  keyPlaceholder: '填写 OpenAI / DeepSeek / Moonshot 等服务的 Key',
+  generate: async (request, config) => {
+    const { url, headers, body } = openAiRequest(request, config);
+    const result = await postJson('OpenAI 兼容接口', url, headers, body, request.signal);
+    return result.choices?.[0]?.message?.content || '';
+  },
+  stream: async (request, config, onDelta) => {
+    const { url, headers, body } = openAiRequest(request, config);
+    const response = await post('OpenAI 兼容接口', url, headers, { ...body, stream: true }, request.signal);
+    let text = '';
+    await readSseData('OpenAI 兼容接口', response, data => {
+      const delta = data.choices?.[0]?.delta?.content || '';
+      if (!delta) return;
+      text += delta;
+      onDelta(delta);
+    });
+    return text;
+  }
+};
+
+const anthropicRequest = ({ prompt, schema }: AiRequest, { apiKey, baseUrl, model }: ProviderConfig) => ({
+  url: `${trimSlash(baseUrl)}/v1/messages`,
+  headers: {
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01',
+    'anthropic-dangerous-direct-browser-access': 'true'
+  },
+  body: {
+    model,
+    max_tokens: 4096,
+    messages: [{ role: 'user', content: schema ? `${prompt}${JSON_ONLY_HINT}` : prompt }]
+  }
+});
+
+const anthropicAdapter: AiProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic Claude',
+  defaultBaseUrl: 'https://api.anthropic.com',
+  defaultModel: 'claude-sonnet-4-5',
+  requiresApiKey: true,
+  keyPlaceholder: '填写您的 Anthropic API Key',
+  generate: async (request, config) => {
+    const { url, headers, body } = anthropicRequest(request, config);
+    const result = await postJson('Anthropic', url, headers, body, request.signal);
+    return (result.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  },
+  stream: async (request, config, onDelta) => {
+    const { url, headers, body } = anthropicRequest(request, config);
+    const response = await post('Anthropic', url, headers, { ...body, stream: true }, request.signal);
+    let text = '';
+    await readSseData('Anthropic', response, data => {
+      if (data.type !== 'content_block_delta' || data.delta?.type !== 'text_delta') return;
+      text += data.delta.text;
+      onDelta(data.delta.text);
+    });
+    return text;
+  }
+};
+
+const ollamaRequest = ({ prompt, schema }: AiRequest, { apiKey, baseUrl, model }: ProviderConfig) => ({
+  url: `${trimSlash(baseUrl)}/api/chat`,
+  headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {} as Record<string, string>,
+  body: {
+    model,
+    messages: [{ role: 'user', content: schema ? `${prompt}${JSON_ONLY_HINT}` : prompt }],
+    format: schema ? toJsonSchema(schema) : undefined
+  }
+});
+
+const ollamaAdapter: AiProviderAdapter = {
+  id: 'ollama',
+  label: 'Ollama / 本地模型',
+  defaultBaseUrl: 'http://localhost:11434',
+  defaultModel: 'qwen2.5:7b',
+  requiresApiKey: false,
+  keyPlaceholder: '本地服务通常无需 Key',
+  generate: async (request, config) => {
+    const { url, headers, body } = ollamaRequest(request, config);
+    const result = await postJson('Ollama', url, headers, { ...body, stream: false }, request.signal);
+    return result.message?.content || '';
+  },
+  stream: async (request, config, onDelta) => {
+    const { url, headers, body } = ollamaRequest(request, config);
+    const response = await post('Ollama', url, headers, { ...body, stream: true }, request.signal);
+    let text = '';
+    // Ollama 的流式输出是每行一个 JSON 对象
+    await readLines('Ollama', response, line => {
+      let data: any;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        // 忽略残缺行
+        return;
+      }
+      const error = streamError('Ollama', data);
+      if (error) throw error;
+      const delta = data.message?.content || '';
+      if (!delta) return;
+      text += delta;
+      onDelta(delta);
+    });
+    return text;
+  }
+};
+
+export const AI_PROVIDERS: Record<AiProvider, AiProviderAdapter> = {
+  gemini: geminiAdapter,
+  openai: openAiAdapter,
+  anthropic: anthropicAdapter,
+  ollama: ollamaAdapter
+};
+
+export const getProvider = (id: AiProvider | undefined): AiProviderAdapter => AI_PROVIDERS[id || 'gemini'] || geminiAdapter;
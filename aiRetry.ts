@@ -0,0 +1,97 @@
+
+import { AiProviderError, isAbortError, isRetryableError } from './aiProviders';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  timeoutMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  timeoutMs: 60_000,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000
+};
+
+export interface RetryNotice {
+  attempt: number;
+  delayMs: number;
+  error: AiProviderError;
+}
+
+// 指数退避 + 随机抖动：等待时间落在 [一半, 全部] 之间，避免多个请求同时重试
+export const backoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 超时后中止请求；流式请求每收到一段内容调用 keepAlive 重新计时，只有长时间没有输出才算超时
+export const withTimeout = async <T>(
+  task: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> => {
+  if (parent?.aborted) throw abortError();
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const keepAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onParentAbort = () => controller.abort();
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+  // 个别 SDK 不会响应中止信号，这里同时等待中止事件，保证超时一定生效
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(abortError()), { once: true });
+  });
+  keepAlive();
+  try {
+    return await Promise.race([task(controller.signal, keepAlive), aborted]);
+  } catch (e: any) {
+    if (timedOut && isAbortError(e)) throw new AiProviderError(`请求超时（${Math.round(timeoutMs / 1000)} 秒内没有响应）`, 'timeout');
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onParentAbort);
+  }
+};
+
+export const withRetry = async <T>(
+  task: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+  onRetry?: (notice: RetryNotice) => void
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(task, policy.timeoutMs, signal);
+    } catch (e: any) {
+      if (attempt >= policy.maxRetries || !isRetryableError(e)) throw e;
+      // 服务端明确给出等待时间时以它为准，但不超过上限
+      const delayMs = Math.min(policy.maxDelayMs, e.retryAfterMs ?? backoffDelay(attempt, policy));
+      onRetry?.({ attempt: attempt + 1, delayMs, error: e });
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,186 @@
+
+import { editDistance } from './textDiff';
+import { FillBlank } from './types';
+
+export type AnswerGrade = 'exact' | 'alternative' | 'inflection' | 'spelling' | 'wrong';
+
+export interface AnswerEvaluation {
+  grade: AnswerGrade;
+  correct: boolean;
+  message: string;
+  // 与学生答案最接近的标准答案或备选答案
+  expected: string;
+}
+
+// 不规则变化：原形 -> 其他形式
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+  have: ['has', 'had', 'having'],
+  do: ['does', 'did', 'done', 'doing'],
+  go: ['goes', 'went', 'gone'],
+  begin: ['began', 'begun'],
+  break: ['broke', 'broken'],
+  bring: ['brought'],
+  build: ['built'],
+  buy: ['bought'],
+  catch: ['caught'],
+  choose: ['chose', 'chosen'],
+  come: ['came'],
+  cut: [],
+  draw: ['drew', 'drawn'],
+  drink: ['drank', 'drunk'],
+  drive: ['drove', 'driven'],
+  eat: ['ate', 'eaten'],
+  fall: ['fell', 'fallen'],
+  feel: ['felt'],
+  find: ['found'],
+  fly: ['flew', 'flown', 'flies'],
+  forget: ['forgot', 'forgotten'],
+  get: ['got', 'gotten'],
+  give: ['gave', 'given'],
+  grow: ['grew', 'grown'],
+  hear: ['heard'],
+  hold: ['held'],
+  keep: ['kept'],
+  know: ['knew', 'known'],
+  learn: ['learnt'],
+  leave: ['left'],
+  lie: ['lay', 'lain', 'lying'],
+  lose: ['lost'],
+  make: ['made'],
+  meet: ['met'],
+  pay: ['paid'],
+  read: [],
+  ride: ['rode', 'ridden'],
+  ring: ['rang', 'rung'],
+  rise: ['rose', 'risen'],
+  run: ['ran'],
+  say: ['said'],
+  see: ['saw', 'seen'],
+  sell: ['sold'],
+  send: ['sent'],
+  sing: ['sang', 'sung'],
+  sit: ['sat'],
+  sleep: ['slept'],
+  speak: ['spoke', 'spoken'],
+  spend: ['spent'],
+  stand: ['stood'],
+  swim: ['swam', 'swum'],
+  take: ['took', 'taken'],
+  teach: ['taught'],
+  tell: ['told'],
+  think: ['thought'],
+  throw: ['threw', 'thrown'],
+  understand: ['understood'],
+  wake: ['woke', 'woken'],
+  wear: ['wore', 'worn'],
+  win: ['won'],
+  write: ['wrote', 'written'],
+  child: ['children'],
+  man: ['men'],
+  woman: ['women'],
+  foot: ['feet'],
+  tooth: ['teeth'],
+  mouse: ['mice'],
+  person: ['people'],
+  good: ['better', 'best', 'well'],
+  bad: ['worse', 'worst'],
+  many: ['more', 'most', 'much']
+};
+
+const IRREGULAR_LEMMAS = new Map<string, string>(
+  Object.entries(IRREGULAR_FORMS).flatMap(([base, forms]) => [[base, base], ...forms.map(f => [f, base] as [string, string])])
+);
+
+const VOWELS = /[aeiou]/;
+
+// 按常见的规则变化还原可能的原形，宁可多猜几个，比较时只要有交集即可
+const lemmaCandidates = (word: string): Set<string> => {
+  const candidates = new Set<string>([word]);
+  const irregular = IRREGULAR_LEMMAS.get(word);
+  if (irregular) candidates.add(irregular);
+
+  const addStem = (stem: string) => {
+    if (stem.length < 2 || !VOWELS.test(stem) && !stem.endsWith('y')) return;
+    candidates.add(stem);
+    // 双写辅音：stopped -> stop, bigger -> big
+    if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2]) candidates.add(stem.slice(0, -1));
+  };
+
+  for (const suffix of ['ing', 'ed', 'er', 'est', 'es', 's']) {
+    if (!word.endsWith(suffix) || word.length <= suffix.length + 1) continue;
+    const stem = word.slice(0, -suffix.length);
+    addStem(stem);
+    // liked -> like, nicer -> nice, making -> make
+    if (suffix !== 's' && suffix !== 'es') addStem(`${stem}e`);
+    // studied -> study, happier -> happy, cities -> city
+    if (stem.endsWith('i')) addStem(`${stem.slice(0, -1)}y`);
+  }
+  return candidates;
+};
+
+const isWordInflectionOf = (a: string, b: string): boolean => {
+  if (a === b) return false;
+  const lemmas = lemmaCandidates(a);
+  return Array.from(lemmaCandidates(b)).some(l => lemmas.has(l));
+};
+
+// 短语逐词比较：词数相同，每个词要么相同要么是同一单词的变形（如 has done / have did）
+export const isInflectionOf = (a: string, b: string): boolean => {
+  const wordsA = a.split(' ');
+  const wordsB = b.split(' ');
+  if (wordsA.length !== wordsB.length) return false;
+  return wordsA.some((w, i) => w !== wordsB[i])
+    && wordsA.every((w, i) => w === wordsB[i] || isWordInflectionOf(w, wordsB[i]));
+};
+
+export const normalizeAnswer = (answer: string): string => answer
+  .trim()
+  .toLowerCase()
+  .replace(/[‘’`]/g, "'")
+  .replace(/\s+/g, ' ')
+  .replace(/^[^\w']+|[^\w']+$/g, '');
+
+const suffixOf = (word: string): string => ['ing', 'ed', 'est', 'er', 'es', 's'].find(s => word.endsWith(s)) || '';
+
+// 短词只容忍 1 个字母的差异，长词最多 2 个
+const maxSlips = (word: string) => word.length <= 4 ? 1 : Math.min(2, Math.floor(word.length / 3));
+
+export const evaluateAnswer = (userAnswer: string, answer: string, acceptedAnswers: string[] = []): AnswerEvaluation => {
+  const given = normalizeAnswer(userAnswer);
+  const expected = normalizeAnswer(answer);
+  const alternatives = acceptedAnswers.map(normalizeAnswer).filter(a => a && a !== expected);
+
+  if (!given) return { grade: 'wrong', correct: false, message: `没有作答，正确答案是 ${answer}`, expected: answer };
+  if (given === expected) return { grade: 'exact', correct: true, message: '回答正确！', expected: answer };
+
+  const alternative = alternatives.find(a => a === given);
+  if (alternative) {
+    return { grade: 'alternative', correct: true, message: `回答正确！参考答案是 ${answer}，你的写法同样可以。`, expected: alternative };
+  }
+
+  const targets = [expected, ...alternatives];
+  // 词尾相同（如 stoped / stopped）说明词形选对了，只是拼写有误
+  const inflected = targets.find(t => isInflectionOf(given, t) && !(suffixOf(given) === suffixOf(t) && editDistance(given, t) <= maxSlips(t)));
+  if (inflected) {
+    return { grade: 'inflection', correct: false, message: `单词选对了，但词形不对：这里应该用 ${inflected}，而不是 ${given}。`, expected: inflected };
+  }
+
+  const slips = targets
+    .map(t => ({ target: t, distance: editDistance(given, t) }))
+    .filter(s => s.distance <= maxSlips(s.target))
+    .sort((a, b) => a.distance - b.distance);
+  if (slips.length) {
+    return { grade: 'spelling', correct: false, message: `差一点！有 ${slips[0].distance} 处拼写错误，正确拼写是 ${slips[0].target}。`, expected: slips[0].target };
+  }
+
+  return { grade: 'wrong', correct: false, message: `正确答案是 ${answer}`, expected: answer };
+};
+
+// 多空题逐空评分，全部答对才算整题正确
+export const evaluateBlanks = (inputs: string[], blanks: FillBlank[]): AnswerEvaluation[] =>
+  blanks.map((b, i) => evaluateAnswer(inputs[i] || '', b.answer, b.acceptedAnswers));
+
+export const BLANK_SEPARATOR = ' / ';
+
+export const blankAnswerText = (blanks: FillBlank[]): string => blanks.map(b => b.answer).join(BLANK_SEPARATOR);
@@ -0,0 +1,333 @@
+
+import { Assignment, AssignmentAnswer, AssignmentQuestion, AssignmentResult, PracticeSetContent } from './types';
+import { STORES, idbGetAll, idbGet, idbPut, idbDelete } from './db';
+import { validateContextQuestions, validateFillQuestions, validateChoiceQuestions, validateOrderQuestions, validateCorrectionQuestions } from './responseValidator';
+import { orderTokens, checkOrder } from './sentenceBuilder';
+import { correctionAnswerText, gradeCorrectionText } from './errorCorrection';
+import { blankAnswerText, evaluateAnswer, evaluateBlanks, BLANK_SEPARATOR } from './answerEvaluator';
+
+export const ASSIGNMENT_FORMAT = 'tonglanguage-assignment';
+export const RESULT_FORMAT = 'tonglanguage-assignment-result';
+export const ASSIGNMENT_VERSION = 1;
+
+export class AssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssignmentError';
+  }
+}
+
+// valid：签名与教师本机的验证公钥相符；invalid：结果文件签名后被改动过；missing：没有签名或作业没有密钥
+export type SignatureStatus = 'valid' | 'invalid' | 'missing';
+
+// 结果记录在本机的来源：学生自己提交的，或教师导入的
+export type StoredResult = AssignmentResult & {
+  id: string;
+  origin: 'local' | 'imported';
+  // 导入时按原题重新批改，学生端判定与之不一致的题数（结果文件被改动或版本不同）
+  regraded: number;
+  signatureStatus: SignatureStatus;
+  // 作答次数超过作业限制（文件中的次数超限，或同一学生导入的结果多于限制）
+  overAttempts: boolean;
+};
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+export const questionsFromContent = (content: PracticeSetContent): AssignmentQuestion[] => {
+  if (content.kind === 'context') return content.questions.map(question => ({ kind: 'context', question }));
+  if (content.kind === 'grammar') {
+    return [
+      ...content.data.fillQuestions.map(question => ({ kind: 'grammar_fill' as const, question })),
+      ...content.data.choiceQuestions.map(question => ({ kind: 'grammar_choice' as const, question })),
+      // 旧版练习包没有连词成句题和改错题
+      ...(content.data.orderQuestions || []).map(question => ({ kind: 'grammar_order' as const, question })),
+      ...(content.data.correctionQuestions || []).map(question => ({ kind: 'grammar_correction' as const, question }))
+    ];
+  }
+  return [];
+};
+
+export const questionAnswer = (q: AssignmentQuestion): string => {
+  if (q.kind === 'grammar_fill') return blankAnswerText(q.question.blanks);
+  if (q.kind === 'grammar_order') return q.question.sentence;
+  if (q.kind === 'grammar_correction') return correctionAnswerText(q.question);
+  return q.question.answer;
+};
+
+// 按作业原题批改一个答案；多空题的答案用 " / " 连接，连词成句的答案是拼出的整句，改错题的答案形如 "goed → went"
+export const gradeAssignmentAnswer = (q: AssignmentQuestion, userAnswer: string): boolean => {
+  if (q.kind === 'grammar_choice') return userAnswer === q.question.answer;
+  if (q.kind === 'grammar_order') return checkOrder(orderTokens(userAnswer), q.question).correct;
+  if (q.kind === 'grammar_correction') return gradeCorrectionText(q.question, userAnswer);
+  if (q.kind === 'context') return evaluateAnswer(userAnswer, q.question.answer, q.question.acceptedAnswers).correct;
+  const inputs = userAnswer.split(BLANK_SEPARATOR);
+  return inputs.length === q.question.blanks.length && evaluateBlanks(inputs, q.question.blanks).every(e => e.correct);
+};
+
+// 非安全上下文（如局域网 http 地址）没有 crypto.subtle，这时布置的作业不带签名密钥
+const generateKeys = async (): Promise<Pick<Assignment, 'signingKey' | 'verifyKey'>> => {
+  if (!globalThis.crypto?.subtle) return {};
+  const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+  return {
+    signingKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+    verifyKey: await crypto.subtle.exportKey('jwk', pair.publicKey)
+  };
+};
+
+export const createAssignment = async (fields: Pick<Assignment, 'title' | 'questions' | 'dueAt' | 'attemptsAllowed' | 'allowAiExplanations'>, now: number = Date.now()): Promise<Assignment> => ({
+  format: ASSIGNMENT_FORMAT,
+  version: ASSIGNMENT_VERSION,
+  id: `as-${now}-${randomHex(4)}`,
+  createdAt: now,
+  ...fields,
+  title: fields.title.trim(),
+  ...await generateKeys()
+});
+
+export const isOverdue = (assignment: Assignment, at: number = Date.now()) => assignment.dueAt !== null && at > assignment.dueAt;
+
+export const formatDueDate = (dueAt: number | null) => dueAt === null ? '不限' : new Date(dueAt).toLocaleString('zh-CN', { hour12: false });
+
+export const listAssignments = async (): Promise<Assignment[]> => {
+  const assignments = await idbGetAll<Assignment>(STORES.assignments);
+  return assignments.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveAssignment = (assignment: Assignment) => idbPut(STORES.assignments, assignment);
+
+export const getAssignment = (id: string) => idbGet<Assignment>(STORES.assignments, id);
+
+export const deleteAssignment = async (id: string) => {
+  const results = await listResults(id);
+  for (const r of results) await idbDelete(STORES.assignmentResults, r.id);
+  await idbDelete(STORES.assignments, id);
+};
+
+const readQuestions = (raw: unknown): AssignmentQuestion[] => {
+  if (!Array.isArray(raw)) return [];
+  // 逐题校验，保持原有顺序，格式不对的题目直接丢弃
+  return raw.flatMap((q: any): AssignmentQuestion[] => {
+    if (q?.kind === 'context') return validateContextQuestions([q.question]).items.map(question => ({ kind: 'context', question }));
+    if (q?.kind === 'grammar_fill') return validateFillQuestions([q.question]).items.map(question => ({ kind: 'grammar_fill', question }));
+    if (q?.kind === 'grammar_choice') return validateChoiceQuestions([q.question]).items.map(question => ({ kind: 'grammar_choice', question }));
+    if (q?.kind === 'grammar_order') return validateOrderQuestions([q.question]).items.map(question => ({ kind: 'grammar_order', question }));
+    if (q?.kind === 'grammar_correction') return validateCorrectionQuestions([q.question]).items.map(question => ({ kind: 'grammar_correction', question }));
+    return [];
+  });
+};
+
+const parseJson = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AssignmentError('文件不是合法的 JSON。');
+  }
+};
+
+export const parseAssignment = (text: string): Assignment => {
+  const raw = parseJson(text);
+  if (raw?.format !== ASSIGNMENT_FORMAT) throw new AssignmentError('文件内容不是作业。');
+  if (typeof raw.version !== 'number' || raw.version > ASSIGNMENT_VERSION) throw new AssignmentError('这份作业由更新版本的应用生成，请先升级后再打开。');
+  const questions = readQuestions(raw.questions);
+  if (typeof raw.id !== 'string' || !questions.length) throw new AssignmentError('作业文件不完整或已损坏。');
+  return {
+    format: ASSIGNMENT_FORMAT,
+    version: ASSIGNMENT_VERSION,
+    id: raw.id,
+    title: typeof raw.title === 'string' ? raw.title : '作业',
+    questions,
+    dueAt: typeof raw.dueAt === 'number' ? raw.dueAt : null,
+    attemptsAllowed: typeof raw.attemptsAllowed === 'number' ? Math.max(0, Math.floor(raw.attemptsAllowed)) : 0,
+    allowAiExplanations: raw.allowAiExplanations !== false,
+    // 学生拿到的文件里不应有验证公钥，即使有也不读取
+    ...(raw.signingKey && typeof raw.signingKey === 'object' ? { signingKey: raw.signingKey } : {}),
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now()
+  };
+};
+
+// 发给学生的作业文件不含验证公钥
+export const serializeAssignment = ({ verifyKey, ...assignment }: Assignment) => JSON.stringify(assignment, null, 2);
+
+// 签名覆盖除 signature 以外的全部字段，字段顺序固定
+const signedPayload = (r: AssignmentResult) => new TextEncoder().encode(JSON.stringify([
+  r.format, r.version, r.assignmentId, r.assignmentTitle, r.student, r.attempt,
+  r.answers.map(a => [a.userAnswer, a.correct, a.usedAi]), r.startedAt, r.submittedAt
+]));
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/[0-9a-f]{2}/gi) || []).map(h => parseInt(h, 16)));
+
+const signResult = async (key: JsonWebKey, result: AssignmentResult): Promise<string> => {
+  const privateKey = await crypto.subtle.importKey('jwk', key, SIGNING_ALGORITHM, false, ['sign']);
+  return toHex(await crypto.subtle.sign(SIGNATURE_PARAMS, privateKey, signedPayload(result)));
+};
+
+// 只用教师本机保存的公钥验证，结果文件里的任何内容都不参与选择密钥
+const checkSignature = async (assignment: Assignment, result: AssignmentResult): Promise<SignatureStatus> => {
+  if (!assignment.verifyKey || !result.signature || !globalThis.crypto?.subtle) return 'missing';
+  try {
+    const publicKey = await crypto.subtle.importKey('jwk', assignment.verifyKey, SIGNING_ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(SIGNATURE_PARAMS, publicKey, fromHex(result.signature), signedPayload(result)) ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+};
+
+export const buildResult = async (assignment: Assignment, student: string, attempt: number, answers: AssignmentAnswer[], startedAt: number, submittedAt: number = Date.now()): Promise<AssignmentResult> => {
+  const result: AssignmentResult = {
+    format: RESULT_FORMAT,
+    version: ASSIGNMENT_VERSION,
+    assignmentId: assignment.id,
+    assignmentTitle: assignment.title,
+    student: student.trim(),
+    attempt,
+    answers,
+    startedAt,
+    submittedAt
+  };
+  if (!assignment.signingKey || !globalThis.crypto?.subtle) return result;
+  return { ...result, signature: await signResult(assignment.signingKey, result) };
+};
+
+export const parseResult = (text: string): AssignmentResult => {
+  const raw = parseJson(text);
+  if (raw?.format !== RESULT_FORMAT) throw new AssignmentError('文件内容不是作业结果。');
+  if (typeof raw.assignmentId !== 'string' || typeof raw.student !== 'string' || !Array.isArray(raw.answers)) {
+    throw new AssignmentError('作业结果文件不完整或已损坏。');
+  }
+  return {
+    format: RESULT_FORMAT,
+    version: typeof raw.version === 'number' ? raw.version : ASSIGNMENT_VERSION,
+    assignmentId: raw.assignmentId,
+    assignmentTitle: typeof raw.assignmentTitle === 'string' ? raw.assignmentTitle : '',
+    student: raw.student,
+    attempt: typeof raw.attempt === 'number' ? raw.attempt : 1,
+    answers: raw.answers.map((a: any) => ({ userAnswer: String(a?.userAnswer ?? ''), correct: a?.correct === true, usedAi: a?.usedAi === true })),
+    startedAt: typeof raw.startedAt === 'number' ? raw.startedAt : 0,
+    submittedAt: typeof raw.submittedAt === 'number' ? raw.submittedAt : 0,
+    ...(typeof raw.signature === 'string' ? { signature: raw.signature } : {})
+  };
+};
+
+export const serializeResult = (result: AssignmentResult) => JSON.stringify(result, null, 2);
+
+const resultId = (r: AssignmentResult) => `${r.assignmentId}:${r.student.toLowerCase()}:${r.attempt}`;
+
+export const listResults = async (assignmentId: string): Promise<StoredResult[]> => {
+  const results = await idbGetAll<StoredResult>(STORES.assignmentResults);
+  return results.filter(r => r.assignmentId === assignmentId).sort((a, b) => a.submittedAt - b.submittedAt);
+};
+
+export const saveLocalResult = async (result: AssignmentResult): Promise<StoredResult> => {
+  const stored: StoredResult = { ...result, id: resultId(result), origin: 'local', regraded: 0, signatureStatus: 'valid', overAttempts: false };
+  await idbPut(STORES.assignmentResults, stored);
+  return stored;
+};
+
+const sameStudent = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// 结果文件在学生手里，不能相信其中的对错判定：教师导入时按本机保存的原题重新批改；同一学生同一次提交重复导入会覆盖
+export const importResult = async (result: AssignmentResult): Promise<StoredResult> => {
+  const assignment = await getAssignment(result.assignmentId);
+  if (!assignment) throw new AssignmentError(`找不到作业「${result.assignmentTitle || result.assignmentId}」，请确认是在布置作业的设备上导入。`);
+  if (result.answers.length !== assignment.questions.length) throw new AssignmentError(`「${result.student}」的结果与作业题目数量不一致。`);
+  const answers = assignment.questions.map((q, i) => ({ ...result.answers[i], correct: gradeAssignmentAnswer(q, result.answers[i].userAnswer) }));
+  const regraded = answers.filter((a, i) => a.correct !== result.answers[i].correct).length;
+  const id = resultId(result);
+  // 学生端的次数限制只记在学生自己的设备上，导入时按文件中的次数和已导入的份数再查一遍
+  const others = (await listResults(assignment.id)).filter(r => r.id !== id && sameStudent(r.student, result.student));
+  const limit = assignment.attemptsAllowed;
+  const overAttempts = limit > 0 && (result.attempt > limit || others.length + 1 > limit);
+  const stored: StoredResult = { ...result, answers, id, origin: 'imported', regraded, signatureStatus: await checkSignature(assignment, result), overAttempts };
+  await idbPut(STORES.assignmentResults, stored);
+  return stored;
+};
+
+export const countAttempts = async (assignmentId: string, student: string): Promise<number> => {
+  const results = await listResults(assignmentId);
+  return results.filter(r => r.origin === 'local' && sameStudent(r.student, student)).length;
+};
+
+export const scoreOf = (r: AssignmentResult) =>
+  r.answers.length ? Math.round(r.answers.filter(a => a.correct).length / r.answers.length * 100) : 0;
+
+export interface StudentSummary {
+  student: string;
+  attempts: number;
+  bestScore: number;
+  lastScore: number;
+  lastSubmittedAt: number;
+  late: boolean;
+  aiUsed: number;
+  // 最近一次提交中学生端判定与原题批改不一致的题数
+  regraded: number;
+  signatureStatus: SignatureStatus;
+  overAttempts: boolean;
+}
+
+export interface QuestionSummary {
+  index: number;
+  prompt: string;
+  answer: string;
+  correctRate: number;
+  attempts: number;
+  // 出现次数最多的错误答案
+  commonWrong: { answer: string, count: number }[];
+}
+
+export interface AssignmentStats {
+  students: StudentSummary[];
+  questions: QuestionSummary[];
+  averageScore: number;
+}
+
+// 每个学生只统计最近一次提交，避免多次作答重复计入题目正确率
+export const summarizeResults = (assignment: Assignment, results: StoredResult[]): AssignmentStats => {
+  const byStudent = new Map<string, StoredResult[]>();
+  results.forEach(r => {
+    const key = r.student.trim().toLowerCase();
+    byStudent.set(key, [...(byStudent.get(key) || []), r]);
+  });
+
+  const latest = Array.from(byStudent.values()).map(list => list.reduce((a, b) => b.submittedAt > a.submittedAt ? b : a));
+  const students: StudentSummary[] = Array.from(byStudent.values()).map(list => {
+    const last = list.reduce((a, b) => b.submittedAt > a.submittedAt ? b : a);
+    return {
+      student: last.student,
+      attempts: list.length,
+      bestScore: Math.max(...list.map(scoreOf)),
+      lastScore: scoreOf(last),
+      lastSubmittedAt: last.submittedAt,
+      late: isOverdue(assignment, last.submittedAt),
+      aiUsed: last.answers.filter(a => a.usedAi).length,
+      // 旧版本保存的结果没有这几个字段
+      regraded: last.regraded ?? 0,
+      signatureStatus: last.signatureStatus ?? 'missing',
+      overAttempts: assignment.attemptsAllowed > 0 && (list.length > assignment.attemptsAllowed || list.some(r => r.overAttempts))
+    };
+  }).sort((a, b) => a.student.localeCompare(b.student));
+
+  const questions: QuestionSummary[] = assignment.questions.map((q, index) => {
+    const answers = latest.map(r => r.answers[index]).filter((a): a is AssignmentAnswer => !!a);
+    const wrong = new Map<string, number>();
+    answers.filter(a => !a.correct).forEach(a => {
+      const key = a.userAnswer.trim().toLowerCase() || '（未作答）';
+      wrong.set(key, (wrong.get(key) || 0) + 1);
+    });
+    return {
+      index,
+      prompt: q.question.sentence,
+      answer: questionAnswer(q),
+      correctRate: answers.length ? Math.round(answers.filter(a => a.correct).length / answers.length * 100) : 0,
+      attempts: answers.length,
+      commonWrong: Array.from(wrong.entries()).map(([answer, count]) => ({ answer, count })).sort((a, b) => b.count - a.count).slice(0, 3)
+    };
+  });
+
+  const averageScore = latest.length ? Math.round(latest.reduce((sum, r) => sum + scoreOf(r), 0) / latest.length) : 0;
+  return { students, questions, averageScore };
+};
@@ -0,0 +1,357 @@
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AppSettings, Assignment, AssignmentAnswer, AssignmentQuestion, AssignmentResult, FillBlank } from '../types';
+import { buildResult, saveLocalResult, countAttempts, isOverdue, questionAnswer, scoreOf, serializeResult, formatDueDate } from '../assignmentService';
+import { evaluateBlanks, BLANK_SEPARATOR, AnswerEvaluation } from '../answerEvaluator';
+import { scrambleTokens, checkOrder, joinTokens, endMarkOf } from '../sentenceBuilder';
+import { correctionTokens, errorTokenIndex, gradeCorrection, correctionUserText, NO_ERROR } from '../errorCorrection';
+import { fetchExplanationForError } from '../geminiService';
+import { isAbortError } from '../aiProviders';
+import { downloadFile } from '../worksheetExport';
+import Button from './Button';
+import FormattedText from './FormattedText';
+import BlankSentenceInput from './BlankSentenceInput';
+import SentenceBuilder from './SentenceBuilder';
+import CorrectionPicker from './CorrectionPicker';
+import { ClipboardList, CheckCircle2, XCircle, Sparkles, Loader2, Download, AlertTriangle, RotateCcw } from 'lucide-react';
+
+const KIND_LABELS: Record<AssignmentQuestion['kind'], string> = {
+  context: '语境填空',
+  grammar_fill: '语法填空',
+  grammar_choice: '语法选择',
+  grammar_order: '连词成句',
+  grammar_correction: '语法改错'
+};
+
+// 语境填空按只有一个空、没有提示词的填空题处理
+const blanksOf = (q: AssignmentQuestion): FillBlank[] => {
+  if (q.kind === 'grammar_fill') return q.question.blanks;
+  if (q.kind === 'context') return [{ hint: '', answer: q.question.answer, acceptedAnswers: q.question.acceptedAnswers }];
+  return [];
+};
+
+const AssignmentRunner: React.FC<{
+  assignment: Assignment,
+  onExit: () => void,
+  settings: AppSettings
+}> = ({ assignment, onExit, settings }) => {
+  const [stage, setStage] = useState<'intro' | 'answering' | 'done'>('intro');
+  const [student, setStudent] = useState(() => localStorage.getItem('lingo_student_name') || '');
+  const [attemptsUsed, setAttemptsUsed] = useState(0);
+  const [index, setIndex] = useState(0);
+  const [inputs, setInputs] = useState<string[]>([]);
+  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [orderPicked, setOrderPicked] = useState<number[]>([]);
+  const [correctionPicked, setCorrectionPicked] = useState<number | null>(null);
+  const [correctionFix, setCorrectionFix] = useState('');
+  const [evaluations, setEvaluations] = useState<AnswerEvaluation[] | null>(null);
+  const [answers, setAnswers] = useState<AssignmentAnswer[]>([]);
+  const [startedAt, setStartedAt] = useState(0);
+  const [result, setResult] = useState<AssignmentResult | null>(null);
+  const [aiExplanation, setAiExplanation] = useState<string | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const explainRequest = useRef<AbortController | null>(null);
+
+  const isAero = settings.theme === 'aero';
+  const overdue = isOverdue(assignment);
+  const attemptsLeft = assignment.attemptsAllowed === 0 ? Infinity : assignment.attemptsAllowed - attemptsUsed;
+  const q = assignment.questions[index];
+  const answered = answers.length > index;
+  const orderTokens = useMemo(() => q?.kind === 'grammar_order' ? scrambleTokens(q.question) : [], [q]);
+  const correctionTokenList = useMemo(() => q?.kind === 'grammar_correction' ? correctionTokens(q.question.sentence) : [], [q]);
+  const canCheckCorrection = correctionPicked === NO_ERROR || (correctionPicked !== null && !!correctionFix.trim());
+
+  useEffect(() => () => explainRequest.current?.abort(), []);
+
+  useEffect(() => {
+    if (!student.trim()) return setAttemptsUsed(0);
+    countAttempts(assignment.id, student).then(setAttemptsUsed).catch(() => {});
+  }, [assignment.id, student]);
+
+  const start = () => {
+    if (!student.trim() || attemptsLeft <= 0) return;
+    localStorage.setItem('lingo_student_name', student.trim());
+    setIndex(0);
+    setAnswers([]);
+    setInputs([]);
+    setSelectedOption(null);
+    setOrderPicked([]);
+    setCorrectionPicked(null);
+    setCorrectionFix('');
+    setEvaluations(null);
+    setStartedAt(Date.now());
+    setStage('answering');
+  };
+
+  const record = (userAnswer: string, correct: boolean) => {
+    setAnswers(prev => [...prev, { userAnswer, correct, usedAi: false }]);
+  };
+
+  const checkBlanks = () => {
+    if (answered) return;
+    const blanks = blanksOf(q);
+    if (!blanks.every((_, i) => (inputs[i] || '').trim())) return;
+    const graded = evaluateBlanks(inputs, blanks);
+    setEvaluations(graded);
+    record(blanks.map((_, i) => (inputs[i] || '').trim()).join(BLANK_SEPARATOR), graded.every(e => e.correct));
+  };
+
+  const checkOrderAnswer = () => {
+    if (answered || q.kind !== 'grammar_order' || orderPicked.length !== orderTokens.length) return;
+    const built = orderPicked.map(id => orderTokens.find(t => t.id === id)?.text || '');
+    record(joinTokens(built, endMarkOf(q.question.sentence)), checkOrder(built, q.question).correct);
+  };
+
+  const checkCorrectionAnswer = () => {
+    if (answered || q.kind !== 'grammar_correction' || !canCheckCorrection || correctionPicked === null) return;
+    record(correctionUserText(correctionTokenList, correctionPicked, correctionFix), gradeCorrection(q.question, correctionPicked, correctionFix).correct);
+  };
+
+  const choose = (option: string) => {
+    if (answered || q.kind !== 'grammar_choice') return;
+    setSelectedOption(option);
+    record(option, option === q.question.answer);
+  };
+
+  // 提交失败时留在最后一题，可以再次点击提交
+  const finish = async (final: AssignmentAnswer[]) => {
+    setSubmitError(null);
+    try {
+      const built = await buildResult(assignment, student, attemptsUsed + 1, final, startedAt);
+      await saveLocalResult(built);
+      setResult(built);
+      setStage('done');
+    } catch (e: any) {
+      setSubmitError(`提交失败：${e?.message || '未知错误'}，请重试。`);
+    }
+  };
+
+  const next = () => {
+    explainRequest.current?.abort();
+    setIsExplaining(false);
+    // 最后一题保留作答内容，提交失败时仍能看到
+    if (index >= assignment.questions.length - 1) return finish(answers);
+    setAiExplanation(null);
+    setInputs([]);
+    setSelectedOption(null);
+    setOrderPicked([]);
+    setCorrectionPicked(null);
+    setCorrectionFix('');
+    setEvaluations(null);
+    setIndex(index + 1);
+  };
+
+  const askAi = async () => {
+    if (!assignment.allowAiExplanations) return;
+    setIsExplaining(true);
+    setAnswers(prev => prev.map((a, i) => i === index ? { ...a, usedAi: true } : a));
+    try {
+      explainRequest.current?.abort();
+      const controller = new AbortController();
+      explainRequest.current = controller;
+      const text = await fetchExplanationForError(q.question.sentence, questionAnswer(q), answers[index]?.userAnswer || '', settings, { signal: controller.signal, onText: setAiExplanation });
+      setAiExplanation(text);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setAiExplanation('获取分析失败，请检查网络连接。');
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  const exportResult = () => {
+    if (!result) return;
+    downloadFile(`${assignment.title}-${result.student}-第${result.attempt}次.result.json`, serializeResult(result), 'application/json');
+  };
+
+  const panelClass = `p-8 space-y-6 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`;
+
+  if (stage === 'intro') {
+    const info = [
+      { label: '题目数量', value: `${assignment.questions.length} 题` },
+      { label: '截止时间', value: formatDueDate(assignment.dueAt) },
+      { label: '作答次数', value: assignment.attemptsAllowed === 0 ? `已作答 ${attemptsUsed} 次（不限）` : `已作答 ${attemptsUsed} / ${assignment.attemptsAllowed} 次` },
+      { label: 'AI 错因分析', value: assignment.allowAiExplanations ? '允许' : '不允许' }
+    ];
+    return (
+      <div className={panelClass}>
+        <h2 className="text-xl font-black flex items-center gap-2"><ClipboardList className="text-blue-500" /> {assignment.title}</h2>
+        <div className="grid grid-cols-2 gap-3">
+          {info.map(i => (
+            <div key={i.label} className={`p-4 rounded-2xl border-2 ${isAero ? "bg-white/50 border-white/30" : "bg-gray-50 border-gray-100"}`}>
+              <div className="text-xs font-black opacity-50">{i.label}</div>
+              <div className="font-black mt-1">{i.value}</div>
+            </div>
+          ))}
+        </div>
+        {overdue && (
+          <div className="p-3 rounded-xl bg-orange-500/10 text-orange-600 text-sm font-bold flex items-center gap-2">
+            <AlertTriangle size={16} /> 已过截止时间，提交的结果会被标记为迟交。
+          </div>
+        )}
+        <input
+          className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${isAero ? "bg-white/70 border-white/30 text-black placeholder-black/30" : "bg-white border-gray-100 text-gray-800"}`}
+          placeholder="输入你的姓名或学号"
+          value={student}
+          onChange={(e) => setStudent(e.target.value)}
+        />
+        {attemptsLeft <= 0 && <p className="text-sm font-bold text-red-500">作答次数已用完。</p>}
+        <Button onClick={start} disabled={!student.trim() || attemptsLeft <= 0} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>开始作答</Button>
+        <button onClick={onExit} className="w-full font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2 justify-center">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    );
+  }
+
+  if (stage === 'done' && result) {
+    const wrong = assignment.questions.map((question, i) => ({ question, answer: result.answers[i] })).filter(x => !x.answer.correct);
+    return (
+      <div className={panelClass}>
+        <div className="text-center space-y-1">
+          <CheckCircle2 size={48} className="mx-auto text-[#58cc02]" />
+          <h2 className="text-2xl font-black">作业完成！得分 {scoreOf(result)}</h2>
+          <p className="text-sm font-bold opacity-50">{assignment.title} · {result.student} · 第 {result.attempt} 次作答</p>
+        </div>
+        {wrong.length > 0 && (
+          <div className="space-y-2 max-h-[40vh] overflow-y-auto pr-1">
+            {wrong.map(({ question, answer }, i) => (
+              <div key={i} className={`p-3 rounded-2xl border-2 text-sm font-bold ${isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-100"}`}>
+                <p>{question.question.sentence}</p>
+                <span className="text-green-600 mr-4">正确: {questionAnswer(question)}</span>
+                <span className="text-red-500 line-through">{answer.userAnswer || '未作答'}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <Button onClick={exportResult} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+          <Download size={18} /> 导出结果文件交给老师
+        </Button>
+        <button onClick={onExit} className="w-full font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2 justify-center">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    );
+  }
+
+  const current = answers[index];
+  return (
+    <div className={panelClass}>
+      <div className="flex justify-between items-center text-xs font-black opacity-50">
+        <span>{assignment.title} · {KIND_LABELS[q.kind]}</span>
+        <span>{index + 1} / {assignment.questions.length}</span>
+      </div>
+
+      {q.kind === 'grammar_choice' ? (
+        <>
+          <div className="p-6 rounded-2xl bg-black/5 text-center">
+            <h2 className="text-2xl font-bold leading-relaxed">
+              {q.question.sentence.split('_____').map((p, i, arr) => (
+                <React.Fragment key={i}>
+                  {p}{i < arr.length - 1 && <span className="inline-block border-b-2 border-blue-500 px-4 mx-1 min-w-[3rem] h-2"></span>}
+                </React.Fragment>
+              ))}
+            </h2>
+          </div>
+          <div className="flex flex-col gap-3">
+            {q.question.options.map((opt, i) => {
+              let btnStyle = isAero ? "bg-white/50 border-white/30 text-black" : "bg-white border-gray-200 text-gray-700";
+              if (answered) {
+                if (opt === q.question.answer) btnStyle = "bg-green-500/30 border-green-500 text-green-900";
+                else if (opt === selectedOption) btnStyle = "bg-red-500/30 border-red-500 text-red-900";
+                else btnStyle = "opacity-30";
+              }
+              return (
+                <button key={i} onClick={() => choose(opt)} className={`w-full p-4 rounded-2xl border-2 font-bold text-lg text-left transition-all ${btnStyle}`}>
+                  {opt}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      ) : q.kind === 'grammar_order' ? (
+        <>
+          {q.question.translation && (
+            <div className="p-4 rounded-2xl bg-black/5 text-center text-lg font-bold">{q.question.translation}</div>
+          )}
+          <SentenceBuilder
+            key={index}
+            tokens={orderTokens}
+            picked={orderPicked}
+            onChange={setOrderPicked}
+            endMark={endMarkOf(q.question.sentence)}
+            result={answered ? current.correct : null}
+            settings={settings}
+          />
+        </>
+      ) : q.kind === 'grammar_correction' ? (
+        <CorrectionPicker
+          key={index}
+          tokens={correctionTokenList}
+          picked={correctionPicked}
+          fix={correctionFix}
+          onPick={setCorrectionPicked}
+          onFixChange={setCorrectionFix}
+          onSubmit={checkCorrectionAnswer}
+          errorIndex={answered ? errorTokenIndex(q.question) : null}
+          settings={settings}
+        />
+      ) : (
+        <BlankSentenceInput
+          key={index}
+          sentence={q.question.sentence}
+          blanks={blanksOf(q)}
+          values={inputs}
+          onChange={setInputs}
+          onSubmit={() => answered ? next() : checkBlanks()}
+          evaluations={evaluations}
+          settings={settings}
+        />
+      )}
+
+      {!answered ? (
+        q.kind === 'grammar_order' ? (
+          <Button onClick={checkOrderAnswer} disabled={orderPicked.length !== orderTokens.length} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>提交答案</Button>
+        ) : q.kind === 'grammar_correction' ? (
+          <Button onClick={checkCorrectionAnswer} disabled={!canCheckCorrection} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>提交答案 (Enter)</Button>
+        ) : q.kind !== 'grammar_choice' && (
+          <Button onClick={checkBlanks} disabled={!blanksOf(q).every((_, i) => (inputs[i] || '').trim())} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>提交答案 (Enter)</Button>
+        )
+      ) : (
+        <div className="flex flex-col gap-4">
+          <div className={`p-4 rounded-2xl flex flex-col gap-3 animate-in slide-in-from-top-2 ${current.correct ? "bg-green-500/20" : "bg-red-500/20"}`}>
+            <div className="font-black flex items-center gap-2">
+              {current.correct ? <CheckCircle2 className="text-green-600"/> : <XCircle className="text-red-600"/>}
+              {current.correct ? '回答正确！' : <>正确答案: <span className="underline">{questionAnswer(q)}</span></>}
+            </div>
+            <Button onClick={next} variant={current.correct ? 'primary' : 'danger'} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+              {index < assignment.questions.length - 1 ? '下一题 (Enter)' : '提交作业'}
+            </Button>
+            {submitError && (
+              <div className="text-sm font-bold text-red-600 flex items-center gap-2"><AlertTriangle size={16} /> {submitError}</div>
+            )}
+          </div>
+          {!current.correct && assignment.allowAiExplanations && !aiExplanation && (
+            <Button variant="secondary" fullWidth onClick={askAi} disabled={isExplaining} theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="text-white">
+              {isExplaining ? <Loader2 className="animate-spin" /> : <Sparkles size={18} />} 问 AI 为什么错了？
+            </Button>
+          )}
+          {aiExplanation && (
+            <div className={`p-5 rounded-2xl border-2 animate-in zoom-in duration-300 ${isAero ? "bg-white/40 border-white/50" : "bg-blue-50 border-blue-100"}`}>
+              <div className="flex items-center gap-2 mb-2 text-blue-600 font-black">
+                <Sparkles size={16} /> AI 错因分析
+              </div>
+              <p className="text-sm leading-relaxed text-gray-700 font-semibold">
+                <FormattedText text={aiExplanation} />
+                {isExplaining && <span className="inline-block w-2 h-4 ml-1 bg-blue-500 animate-pulse align-middle" />}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentRunner;
@@ -0,0 +1,366 @@
+
+import React, { useState, useEffect } from 'react';
+import { AppSettings, Assignment, AssignmentQuestion, PracticeSetContent } from '../types';
+import {
+  listAssignments, saveAssignment, deleteAssignment, createAssignment, serializeAssignment, parseAssignment, parseResult,
+  importResult, listResults, summarizeResults, questionsFromContent, questionAnswer, formatDueDate, StoredResult, StudentSummary
+} from '../assignmentService';
+import { parsePracticeSetText } from '../practiceSet';
+import { downloadFile } from '../worksheetExport';
+import Button from './Button';
+import AssignmentRunner from './AssignmentRunner';
+import { ClipboardList, Download, Upload, BarChart3, Trash2, RotateCcw, Loader2, ShieldCheck, ShieldAlert, FolderOpen, GraduationCap, School } from 'lucide-react';
+
+export interface AssignmentDraft {
+  title: string;
+  content: PracticeSetContent;
+}
+
+// datetime-local 输入框使用本地时间
+const toLocalInput = (time: number) => {
+  const d = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return d.toISOString().slice(0, 16);
+};
+
+const readFileText = (e: React.ChangeEvent<HTMLInputElement>): Promise<string[]> => {
+  const files: File[] = Array.from(e.target.files || []);
+  e.target.value = '';
+  return Promise.all(files.map(f => f.text()));
+};
+
+const SIGNATURE_LIMIT_NOTE = '结果签名可以发现学生直接改动结果文件（姓名、提交时间、AI 使用次数等），但签名密钥在作业文件中，懂技术的学生仍可能伪造，签名有效不代表绝对可信。';
+
+const SIGNATURE_NOTES: Record<StudentSummary['signatureStatus'], string> = {
+  valid: '签名有效，结果文件没有被直接改动过',
+  invalid: '签名不符，结果文件被改动过，姓名、提交时间、AI 使用次数等都不可信',
+  missing: '结果没有签名，无法确认是否被改动过'
+};
+
+const integrityWarnings = (s: StudentSummary, attemptsAllowed: number): string[] => [
+  ...(s.signatureStatus === 'valid' ? [] : [SIGNATURE_NOTES[s.signatureStatus]]),
+  ...(s.regraded ? [`有 ${s.regraded} 题的对错判定与原题不符，已按原题重新批改`] : []),
+  ...(s.overAttempts ? [`作答次数超过限制（限 ${attemptsAllowed} 次）`] : [])
+];
+
+const AssignmentSection: React.FC<{
+  draft: AssignmentDraft | null,
+  onBack: () => void,
+  settings: AppSettings
+}> = ({ draft, onBack, settings }) => {
+  const [role, setRole] = useState<'teacher' | 'student'>(draft ? 'teacher' : 'student');
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [composing, setComposing] = useState<AssignmentDraft | null>(draft);
+  const [title, setTitle] = useState(draft?.title || '');
+  const [dueAt, setDueAt] = useState('');
+  const [attemptsAllowed, setAttemptsAllowed] = useState(1);
+  const [allowAi, setAllowAi] = useState(true);
+  const [excluded, setExcluded] = useState<number[]>([]);
+  const [viewing, setViewing] = useState<Assignment | null>(null);
+  const [results, setResults] = useState<StoredResult[]>([]);
+  const [taking, setTaking] = useState<Assignment | null>(null);
+  const [message, setMessage] = useState<{ tone: 'info' | 'error', text: string } | null>(null);
+
+  const isAero = settings.theme === 'aero';
+  const inputClass = `w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+    isAero ? "bg-white/70 border-white/30 text-black placeholder-black/30" : "bg-white border-gray-100 text-gray-800"
+  }`;
+  const cardClass = `p-4 rounded-2xl border-2 ${isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-100"}`;
+
+  const reload = async () => {
+    setAssignments(await listAssignments());
+    setIsLoaded(true);
+  };
+
+  useEffect(() => {
+    reload().catch(() => setIsLoaded(true));
+  }, []);
+
+  const startCompose = (next: AssignmentDraft) => {
+    setComposing(next);
+    setTitle(next.title);
+    setExcluded([]);
+  };
+
+  const composeFromFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [text] = await readFileText(e);
+    if (!text) return;
+    try {
+      const set = parsePracticeSetText(text);
+      if (!questionsFromContent(set.content).length) throw new Error('单词连线练习不能布置为作业，请选择填空或语法练习包。');
+      startCompose({ title: set.title, content: set.content });
+    } catch (err: any) {
+      setMessage({ tone: 'error', text: err.message });
+    }
+  };
+
+  const draftQuestions: AssignmentQuestion[] = composing ? questionsFromContent(composing.content) : [];
+  const selectedQuestions = draftQuestions.filter((_, i) => !excluded.includes(i));
+
+  const publish = async () => {
+    if (!title.trim() || !selectedQuestions.length) return;
+    const assignment = await createAssignment({
+      title,
+      questions: selectedQuestions,
+      dueAt: dueAt ? new Date(dueAt).getTime() : null,
+      attemptsAllowed: Math.max(0, attemptsAllowed),
+      allowAiExplanations: allowAi
+    });
+    await saveAssignment(assignment);
+    exportAssignment(assignment);
+    setComposing(null);
+    setMessage({ tone: 'info', text: `已布置作业「${assignment.title}」，请把下载的作业文件发给学生。` });
+    await reload();
+  };
+
+  const exportAssignment = (assignment: Assignment) => {
+    downloadFile(`${assignment.title}.assignment.json`, serializeAssignment(assignment), 'application/json');
+  };
+
+  const openStats = async (assignment: Assignment) => {
+    setViewing(assignment);
+    setResults(await listResults(assignment.id));
+  };
+
+  // 可一次选择多个学生的结果文件，逐个导入，单个文件出错不影响其他文件
+  const importResults = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const texts = await readFileText(e);
+    let imported = 0, regraded = 0, unsigned = 0, overAttempts = 0;
+    const errors: string[] = [];
+    for (const text of texts) {
+      try {
+        const stored = await importResult(parseResult(text));
+        imported++;
+        if (stored.regraded) regraded++;
+        if (stored.signatureStatus !== 'valid') unsigned++;
+        if (stored.overAttempts) overAttempts++;
+      } catch (err: any) {
+        errors.push(err.message);
+      }
+    }
+    setMessage({
+      tone: errors.length ? 'error' : 'info',
+      text: [
+        `成功导入 ${imported} 份结果`,
+        regraded ? `其中 ${regraded} 份的对错判定与原题不符，已按原题重新批改` : '',
+        unsigned ? `${unsigned} 份签名无效或缺少签名，可能被改动过` : '',
+        overAttempts ? `${overAttempts} 份超过了作答次数限制` : '',
+        ...errors
+      ].filter(Boolean).join('；')
+    });
+    if (viewing) setResults(await listResults(viewing.id));
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    if (!confirm(`确定要删除作业「${assignment.title}」及已导入的全部结果吗？`)) return;
+    await deleteAssignment(assignment.id);
+    await reload();
+  };
+
+  const loadForStudent = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [text] = await readFileText(e);
+    if (!text) return;
+    try {
+      setTaking(parseAssignment(text));
+      setMessage(null);
+    } catch (err: any) {
+      setMessage({ tone: 'error', text: err.message });
+    }
+  };
+
+  if (taking) {
+    return <AssignmentRunner assignment={taking} onExit={() => setTaking(null)} settings={settings} />;
+  }
+
+  const banner = message && (
+    <div className={`p-3 rounded-xl text-sm font-bold ${message.tone === 'error' ? "bg-red-500/10 text-red-600" : "bg-blue-500/10 text-blue-600"}`}>
+      {message.text}
+    </div>
+  );
+
+  if (viewing) {
+    const stats = summarizeResults(viewing, results);
+    return (
+      <div className={`p-8 space-y-6 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-black flex items-center gap-2"><BarChart3 className="text-blue-500" /> {viewing.title}</h2>
+          <label className="font-bold text-sm flex items-center gap-1 text-blue-500 hover:text-blue-700 cursor-pointer">
+            <Upload size={16} /> 导入学生结果
+            <input type="file" accept=".json,application/json" multiple className="hidden" onChange={importResults} />
+          </label>
+        </div>
+        {banner}
+        <div className="grid grid-cols-3 gap-3">
+          {[
+            { label: '提交人数', value: stats.students.length },
+            { label: '平均分', value: stats.averageScore },
+            { label: '截止时间', value: formatDueDate(viewing.dueAt) }
+          ].map(s => (
+            <div key={s.label} className={cardClass}>
+              <div className="text-xs font-black opacity-50">{s.label}</div>
+              <div className="font-black mt-1">{s.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-black opacity-60">学生成绩（按最近一次提交）</h3>
+          {stats.students.length === 0 && <p className="text-sm font-bold opacity-50 text-center p-4">还没有导入学生结果。</p>}
+          {stats.students.map(s => {
+            const warnings = integrityWarnings(s, viewing.attemptsAllowed);
+            return (
+              <div key={s.student} className={`${cardClass} flex items-center gap-3 text-sm font-bold`}>
+                {warnings.length === 0
+                  ? <span title={SIGNATURE_NOTES.valid}><ShieldCheck size={18} className="text-green-500 shrink-0" /></span>
+                  : <span title={warnings.join('；')}><ShieldAlert size={18} className={`shrink-0 ${s.signatureStatus === 'invalid' || s.regraded ? "text-red-500" : "text-orange-400"}`} /></span>}
+                <div className="flex-grow min-w-0">
+                  <div className="truncate">{s.student}</div>
+                  <div className="text-xs opacity-50">
+                    作答 {s.attempts} 次 · 最高 {s.bestScore} 分 · AI 分析 {s.aiUsed} 次{s.late && ' · 迟交'}
+                  </div>
+                  {warnings.length > 0 && <div className="text-xs text-red-500">{warnings.join('；')}</div>}
+                </div>
+                <div className={`text-xl font-black ${s.lastScore >= 60 ? "text-[#58cc02]" : "text-red-500"}`}>{s.lastScore}</div>
+              </div>
+            );
+          })}
+          {stats.students.length > 0 && <p className="text-xs font-bold opacity-50">{SIGNATURE_LIMIT_NOTE}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-black opacity-60">逐题统计</h3>
+          {stats.questions.map(q => (
+            <div key={q.index} className={`${cardClass} space-y-1 text-sm`}>
+              <div className="flex justify-between gap-3 font-bold">
+                <span>{q.index + 1}. {q.prompt}</span>
+                <span className={`shrink-0 ${q.correctRate >= 60 ? "text-[#58cc02]" : "text-red-500"}`}>{q.attempts ? `${q.correctRate}%` : '—'}</span>
+              </div>
+              <div className="text-xs font-bold opacity-60">
+                正确答案: {q.answer}
+                {q.commonWrong.length > 0 && ` · 常见错误: ${q.commonWrong.map(w => `${w.answer} (${w.count})`).join('、')}`}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button onClick={() => { setViewing(null); setMessage(null); }} className="w-full font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2 justify-center">
+          <RotateCcw size={18} /> 返回作业列表
+        </button>
+      </div>
+    );
+  }
+
+  if (composing) {
+    return (
+      <div className={`p-8 space-y-5 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+        <h2 className="text-xl font-black flex items-center gap-2"><ClipboardList className="text-blue-500" /> 布置作业</h2>
+        <input className={inputClass} placeholder="作业名称" value={title} onChange={(e) => setTitle(e.target.value)} />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="space-y-1">
+            <span className="text-xs font-black opacity-50">截止时间（留空为不限）</span>
+            <input type="datetime-local" className={inputClass} min={toLocalInput(Date.now())} value={dueAt} onChange={(e) => setDueAt(e.target.value)} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs font-black opacity-50">允许作答次数（0 为不限）</span>
+            <input type="number" min={0} max={10} className={inputClass} value={attemptsAllowed} onChange={(e) => setAttemptsAllowed(parseInt(e.target.value) || 0)} />
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-bold cursor-pointer">
+          <input type="checkbox" className="w-4 h-4 accent-[#1cb0f6]" checked={allowAi} onChange={(e) => setAllowAi(e.target.checked)} />
+          允许学生答错后查看 AI 错因分析
+        </label>
+
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto pr-1">
+          {draftQuestions.map((q, i) => (
+            <label key={i} className={`${cardClass} flex items-start gap-3 text-sm font-bold cursor-pointer ${excluded.includes(i) ? "opacity-40" : ""}`}>
+              <input
+                type="checkbox"
+                className="mt-0.5 w-4 h-4 accent-[#1cb0f6]"
+                checked={!excluded.includes(i)}
+                onChange={() => setExcluded(prev => prev.includes(i) ? prev.filter(x => x !== i) : [...prev, i])}
+              />
+              <div>
+                <div>{q.question.sentence}</div>
+                <div className="text-xs text-green-600">答案: {questionAnswer(q)}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Button onClick={() => setComposing(null)} variant="ghost" fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>取消</Button>
+          <Button onClick={publish} disabled={!title.trim() || !selectedQuestions.length} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+            <Download size={18} /> 布置并导出 ({selectedQuestions.length} 题)
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-500 ${isAero ? "text-black" : "bg-white rounded-3xl shadow-sm border-2 border-gray-100"}`}>
+      <h2 className={`text-xl font-extrabold flex items-center gap-2 ${isAero ? "text-black" : "text-gray-700"}`}>
+        <ClipboardList className="text-blue-500" /> 作业
+      </h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        {([['student', '我是学生', <GraduationCap size={18} key="s" />], ['teacher', '我是老师', <School size={18} key="t" />]] as const).map(([r, label, icon]) => (
+          <button
+            key={r}
+            onClick={() => { setRole(r); setMessage(null); }}
+            className={`p-3 rounded-xl border-2 font-bold flex items-center justify-center gap-2 transition-all ${
+              role === r ? "bg-[#1cb0f6] text-white border-[#1899d6]" : (isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-400")
+            }`}
+          >
+            {icon} {label}
+          </button>
+        ))}
+      </div>
+
+      {banner}
+
+      {role === 'student' ? (
+        <label className={`flex flex-col items-center justify-center gap-2 p-8 rounded-2xl border-2 border-dashed font-bold cursor-pointer transition-all ${
+          isAero ? "bg-white/40 border-black/20 hover:bg-white/60" : "border-gray-300 text-gray-500 hover:border-blue-400 hover:text-blue-500"
+        }`}>
+          <FolderOpen size={28} /> 打开老师发来的作业文件
+          <span className="text-xs opacity-60">完成后可导出结果文件交给老师</span>
+          <input type="file" accept=".json,application/json" className="hidden" onChange={loadForStudent} />
+        </label>
+      ) : (
+        <div className="space-y-3">
+          <p className={`text-sm ${isAero ? "text-black/70" : "text-gray-500"}`}>
+            在语境填空或语法练习页面点击「布置为作业」，或者从练习包文件选择题目。
+          </p>
+          <label className="font-bold text-sm flex items-center gap-1 text-blue-500 hover:text-blue-700 cursor-pointer">
+            <FolderOpen size={16} /> 从练习包文件布置作业
+            <input type="file" accept=".json,application/json" className="hidden" onChange={composeFromFile} />
+          </label>
+          {!isLoaded && <div className="flex justify-center p-6"><Loader2 className="animate-spin opacity-50" /></div>}
+          {isLoaded && assignments.length === 0 && <div className="text-center p-6 text-sm font-bold opacity-50">还没有布置过作业。</div>}
+          {assignments.map(a => (
+            <div key={a.id} className={`${cardClass} flex items-center gap-3`}>
+              <div className="flex-grow min-w-0">
+                <div className="font-bold truncate">{a.title}</div>
+                <div className="text-xs font-bold opacity-50">
+                  {a.questions.length} 题 · 截止 {formatDueDate(a.dueAt)} · {a.attemptsAllowed === 0 ? '不限次数' : `限 ${a.attemptsAllowed} 次`}{!a.allowAiExplanations && ' · 禁用 AI'}
+                </div>
+              </div>
+              <button onClick={() => openStats(a)} title="查看统计 / 导入结果" className="p-2 text-blue-500 hover:text-blue-700"><BarChart3 size={16} /></button>
+              <button onClick={() => exportAssignment(a)} title="重新导出作业文件" className="p-2 opacity-50 hover:opacity-100"><Download size={16} /></button>
+              <button onClick={() => handleDelete(a)} title="删除" className="p-2 opacity-40 hover:opacity-100 hover:text-red-500"><Trash2 size={16} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <button onClick={onBack} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentSection;
@@ -0,0 +1,86 @@
+
+import React, { useRef } from 'react';
+import { AppSettings, FillBlank } from '../types';
+import { AnswerEvaluation } from '../answerEvaluator';
+
+// 句子中的每个 _____ 都替换成一个输入框，提示词按顺序编号显示在句子下方
+const BlankSentenceInput: React.FC<{
+  sentence: string,
+  blanks: FillBlank[],
+  values: string[],
+  onChange: (values: string[]) => void,
+  onSubmit: () => void,
+  evaluations: AnswerEvaluation[] | null,
+  settings: AppSettings
+}> = ({ sentence, blanks, values, onChange, onSubmit, evaluations, settings }) => {
+  const inputs = useRef<(HTMLInputElement | null)[]>([]);
+  const isAero = settings.theme === 'aero';
+  const parts = sentence.split('_____');
+  const numbered = blanks.length > 1;
+
+  const update = (index: number, value: string) => {
+    onChange(blanks.map((_, i) => i === index ? value : (values[i] || '')));
+  };
+
+  // Enter 先跳到下一个未填的空，全部填完再提交
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (evaluations) return onSubmit();
+    const next = blanks.findIndex((_, i) => i !== index && !(values[i] || '').trim());
+    if (next !== -1) inputs.current[next]?.focus();
+    else onSubmit();
+  };
+
+  const inputStyle = (index: number) => {
+    const result = evaluations?.[index];
+    if (result) return result.correct ? "border-green-500 text-green-700 bg-green-500/10" : "border-red-500 text-red-700 bg-red-500/10";
+    return isAero ? "border-blue-500 bg-white/60 text-black" : "border-blue-500 bg-white focus:bg-blue-50";
+  };
+
+  return (
+    <div className="p-6 rounded-2xl bg-black/5 text-center">
+      <h2 className="text-2xl font-bold leading-loose">
+        {parts.map((p, i) => (
+          <React.Fragment key={i}>
+            {p}
+            {i < parts.length - 1 && i < blanks.length && (
+              <span className="inline-flex items-baseline mx-1">
+                {numbered && <sup className="text-xs font-black text-blue-600 mr-0.5">{i + 1}</sup>}
+                <input
+                  ref={el => { inputs.current[i] = el; }}
+                  type="text"
+                  value={values[i] || ''}
+                  onChange={(e) => update(i, e.target.value)}
+                  onKeyDown={(e) => handleKeyDown(e, i)}
+                  readOnly={!!evaluations}
+                  autoFocus={i === 0}
+                  size={Math.max(4, (values[i] || '').length + 1, blanks[i].hint.length)}
+                  className={`border-b-2 rounded-lg px-2 text-center font-bold focus:outline-none transition-all ${inputStyle(i)}`}
+                />
+              </span>
+            )}
+          </React.Fragment>
+        ))}
+      </h2>
+      {blanks.some(b => b.hint) && (
+        <div className="mt-4 text-blue-600 font-black text-lg flex flex-wrap justify-center gap-x-4">
+          {blanks.map((b, i) => b.hint && (
+            <span key={i}>{numbered ? `${i + 1}. ` : '提示词: '}({b.hint})</span>
+          ))}
+        </div>
+      )}
+      {evaluations && evaluations.some(e => !e.correct || e.grade !== 'exact') && (
+        <div className="mt-4 space-y-1 text-sm font-bold text-left">
+          {evaluations.map((e, i) => e.grade !== 'exact' && (
+            <div key={i} className={e.correct ? "text-green-700" : "text-red-600"}>
+              {numbered && `第 ${i + 1} 空：`}{e.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlankSentenceInput;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { AppSettings } from '../types';
+import { CorrectionToken, NO_ERROR } from '../errorCorrection';
+
+// 点击句中写错的单词并填写改正，或者选择“这句没有错误”；换一个单词时清空已填写的改正
+const CorrectionPicker: React.FC<{
+  tokens: CorrectionToken[],
+  picked: number | null,
+  fix: string,
+  onPick: (picked: number) => void,
+  onFixChange: (fix: string) => void,
+  onSubmit: () => void,
+  // 答题后锁定，并标出真正的错误位置（没有错误时为 NO_ERROR）
+  errorIndex: number | null,
+  settings: AppSettings
+}> = ({ tokens, picked, fix, onPick, onFixChange, onSubmit, errorIndex, settings }) => {
+  const isAero = settings.theme === 'aero';
+  const locked = errorIndex !== null;
+
+  const pick = (index: number) => {
+    if (locked) return;
+    if (index !== picked) onFixChange('');
+    onPick(index);
+  };
+
+  return (
+    <>
+      <div className="p-6 rounded-2xl bg-black/5 text-center">
+        <h2 className="text-2xl font-bold leading-loose">
+          {tokens.map((token, i) => {
+            if (!token.isWord) return <React.Fragment key={i}>{token.text}</React.Fragment>;
+            const isPicked = picked === i;
+            const isError = locked && i === errorIndex;
+            return (
+              <button
+                key={i}
+                onClick={() => pick(i)}
+                disabled={locked}
+                className={`rounded-lg px-1 transition-all ${
+                  isError ? "bg-green-500/30 text-green-900 underline decoration-wavy decoration-red-500"
+                    : isPicked ? (locked ? "bg-red-500/30 text-red-900" : "bg-blue-500/20 text-blue-700 underline decoration-wavy decoration-blue-500")
+                    : "hover:bg-blue-500/10"
+                }`}
+              >
+                {token.text}
+              </button>
+            );
+          })}
+        </h2>
+      </div>
+
+      {!locked && (
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            className={`flex-grow p-4 rounded-2xl border-2 focus:outline-none font-bold text-lg transition-all disabled:opacity-40 ${
+              isAero ? "bg-white/70 border-white/40 text-black placeholder-black/30" : "bg-white border-gray-200 focus:border-blue-400"
+            }`}
+            placeholder={picked !== null && picked !== NO_ERROR ? `把 ${tokens[picked].text} 改为...` : '先点击句中写错的单词'}
+            value={fix}
+            disabled={picked === null || picked === NO_ERROR}
+            onChange={(e) => onFixChange(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && onSubmit()}
+          />
+          <button
+            onClick={() => pick(NO_ERROR)}
+            className={`p-4 rounded-2xl border-2 font-bold transition-all ${
+              picked === NO_ERROR ? "bg-blue-100 border-blue-400 text-blue-700" : isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-200 text-gray-600"
+            }`}
+          >
+            这句没有错误
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CorrectionPicker;
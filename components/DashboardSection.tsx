@@ -0,0 +1,146 @@
+
+import React, { useState, useEffect } from 'react';
+import { AppSettings, SessionRecord } from '../types';
+import { listSessions, buildDashboard, summarizeSession, formatDuration, SESSION_LABELS, WeakItem } from '../sessionService';
+import { listSkillRatings, levelOfRating } from '../learnerModel';
+import { BarChart3, Flame, Clock, Target, ListChecks, RotateCcw, Loader2 } from 'lucide-react';
+
+const DashboardSection: React.FC<{
+  onBack: () => void,
+  settings: AppSettings
+}> = ({ onBack, settings }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const isAero = settings.theme === 'aero';
+  const cardClass = `p-4 rounded-2xl border-2 ${isAero ? "bg-white/50 border-white/30" : "bg-gray-50 border-gray-100"}`;
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(() => setSessions([]))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  const dashboard = buildDashboard(sessions);
+  const recent = sessions.slice(-8).reverse();
+  const ratings = listSkillRatings();
+
+  const stats = [
+    { icon: <Flame size={18} className="text-orange-500" />, label: '连续学习', value: `${dashboard.streakDays} 天` },
+    { icon: <Clock size={18} />, label: '累计时长', value: formatDuration(dashboard.totalDurationMs) },
+    { icon: <Target size={18} />, label: '总准确率', value: `${dashboard.accuracy}%` },
+    { icon: <ListChecks size={18} />, label: '累计答题', value: `${dashboard.totalQuestions} 道` }
+  ];
+
+  const renderWeakList = (title: string, items: WeakItem[], empty: string) => (
+    <div className={cardClass}>
+      <div className="text-sm font-black opacity-60 mb-2">{title}</div>
+      {items.length === 0 ? (
+        <div className="text-xs font-bold opacity-50">{empty}</div>
+      ) : (
+        <ul className="space-y-1">
+          {items.map(item => (
+            <li key={item.label} className="flex justify-between gap-2 text-sm font-bold">
+              <span className="truncate">{item.label}</span>
+              <span className="shrink-0 text-red-500">{item.accuracy}% · 错 {item.wrong} / {item.attempts}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-500 ${isAero ? "text-black" : "bg-white rounded-3xl shadow-sm border-2 border-gray-100"}`}>
+      <h2 className={`text-xl font-extrabold flex items-center gap-2 ${isAero ? "text-black" : "text-gray-700"}`}>
+        <BarChart3 className="text-[#1cb0f6]" /> 学习记录
+      </h2>
+
+      {!isLoaded ? (
+        <div className="flex justify-center p-6"><Loader2 className="animate-spin opacity-50" /></div>
+      ) : sessions.length === 0 ? (
+        <div className="text-center p-6 text-sm font-bold opacity-50">还没有练习记录，完成一次练习后这里会显示你的学习情况。</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(s => (
+              <div key={s.label} className={cardClass}>
+                <div className="text-xs font-black opacity-50 flex items-center gap-1">{s.icon} {s.label}</div>
+                <div className="text-lg font-black mt-1">{s.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className={cardClass}>
+            <div className="text-sm font-black opacity-60 mb-3">近 {dashboard.daily.length} 天准确率</div>
+            <div className="flex items-end gap-1 h-32">
+              {dashboard.daily.map(day => {
+                const accuracy = day.total ? Math.round(day.correct / day.total * 100) : 0;
+                return (
+                  <div
+                    key={day.date}
+                    className="flex-1 h-full flex flex-col justify-end items-center"
+                    title={day.total ? `${day.date}：${accuracy}%，${day.total} 道题，${formatDuration(day.durationMs)}` : `${day.date}：未练习`}
+                  >
+                    <div
+                      className={`w-full rounded-t-md transition-all ${day.total ? (isAero ? "bg-blue-500/70" : "bg-[#58cc02]") : (isAero ? "bg-black/10" : "bg-gray-200")}`}
+                      style={{ height: day.total ? `${Math.max(accuracy, 4)}%` : '4%' }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between text-[10px] font-bold opacity-40 mt-1">
+              <span>{dashboard.daily[0].date.slice(5)}</span>
+              <span>今天</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {renderWeakList('最薄弱的单词', dashboard.weakestWords, '单词练习中还没有答错的记录')}
+            {renderWeakList('最薄弱的语法点', dashboard.weakestGrammar, '语法练习中还没有答错的记录')}
+          </div>
+
+          {ratings.length > 0 && (
+            <div className={cardClass}>
+              <div className="text-sm font-black opacity-60 mb-2">能力评估（按答题情况估算，出题难度会随之调整）</div>
+              <ul className="space-y-1">
+                {ratings.map(r => (
+                  <li key={r.skill} className="flex justify-between gap-2 text-sm font-bold">
+                    <span className="truncate">{r.label}</span>
+                    <span className="shrink-0">
+                      <span className="text-blue-500">{levelOfRating(r.rating)}</span>
+                      <span className="opacity-50"> · {r.rating} 分 · {r.attempts} 题</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm font-black opacity-60">最近的练习</div>
+            {recent.map(s => {
+              const summary = summarizeSession(s);
+              return (
+                <div key={s.id} className={`p-3 rounded-xl border-2 text-sm font-bold flex justify-between gap-2 ${isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-100"}`}>
+                  <span className="truncate">{SESSION_LABELS[s.kind]} · {s.topic}</span>
+                  <span className="shrink-0 opacity-60">{summary.accuracy}% · {formatDuration(summary.durationMs)} · {new Date(s.startedAt).toLocaleDateString()}</span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-center">
+        <button onClick={onBack} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DashboardSection;
@@ -0,0 +1,196 @@
+
+import React, { useState, useEffect } from 'react';
+import { AppSettings, WordPair, QuestionResult, SessionRecord } from '../types';
+import { speak, stopSpeaking, isSpeechAvailable } from '../speechService';
+import { recordReview } from '../srsService';
+import { createSession, saveSession } from '../sessionService';
+import { diffLetters } from '../textDiff';
+import Button from './Button';
+import SessionResults from './SessionResults';
+import { Headphones, Volume2, Snail, Eye, EyeOff, CheckCircle2, XCircle, RotateCcw, VolumeX } from 'lucide-react';
+
+const SLOW_RATE_FACTOR = 0.6;
+
+const SpellingDiff: React.FC<{ expected: string, actual: string }> = ({ expected, actual }) => {
+  const ops = diffLetters(expected, actual);
+  return (
+    <div className="font-mono text-2xl font-black tracking-widest space-y-1">
+      <div className="flex flex-wrap justify-center">
+        {ops.map((op, i) => {
+          if (op.type === 'match') return <span key={i} className="text-green-600">{op.actual}</span>;
+          if (op.type === 'substitute') return <span key={i} className="text-red-500 underline">{op.actual}</span>;
+          if (op.type === 'extra') return <span key={i} className="text-red-500 line-through">{op.actual}</span>;
+          return <span key={i} className="text-gray-300">_</span>;
+        })}
+      </div>
+      <div className="flex flex-wrap justify-center">
+        {ops.map((op, i) => {
+          if (op.type === 'extra') return <span key={i} className="opacity-0">{op.actual}</span>;
+          if (op.type === 'match') return <span key={i} className="opacity-50">{op.expected}</span>;
+          return <span key={i} className="text-blue-600 bg-blue-500/10 rounded">{op.expected}</span>;
+        })}
+      </div>
+    </div>
+  );
+};
+
+const DictationSection: React.FC<{
+  pairs: WordPair[],
+  onReset: () => void,
+  settings: AppSettings
+}> = ({ pairs, onReset, settings }) => {
+  const [index, setIndex] = useState(0);
+  const [userInput, setUserInput] = useState('');
+  const [feedback, setFeedback] = useState<'idle' | 'correct' | 'incorrect'>('idle');
+  const [showMeaning, setShowMeaning] = useState(false);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [session, setSession] = useState<SessionRecord | null>(null);
+  // 无法发音时直接显示单词，听写退化为看词拼写，不至于对着静音干等
+  const [speechError, setSpeechError] = useState<string | null>(null);
+
+  const isAero = settings.theme === 'aero';
+  const current = pairs[index];
+
+  const play = (slow: boolean = false) => {
+    if (!current) return;
+    if (!isSpeechAvailable()) {
+      setSpeechError('当前浏览器不支持语音朗读');
+      return;
+    }
+    speak(current.en, slow ? { ...settings, ttsRate: settings.ttsRate * SLOW_RATE_FACTOR } : settings)
+      .then(() => setSpeechError(null))
+      .catch((e: any) => setSpeechError(e?.message || '语音朗读失败'));
+  };
+
+  // 每道题出现时自动播放一次
+  useEffect(() => {
+    if (!session) play();
+  }, [index, session]);
+
+  useEffect(() => () => stopSpeaking(), []);
+
+  const playSlow = () => {
+    if (feedback === 'idle') setHintsUsed(n => n + 1);
+    play(true);
+  };
+
+  const toggleMeaning = () => {
+    if (!showMeaning && feedback === 'idle') setHintsUsed(n => n + 1);
+    setShowMeaning(!showMeaning);
+  };
+
+  const handleCheck = () => {
+    if (!current || !userInput.trim()) return;
+    const isCorrect = userInput.trim().toLowerCase() === current.en.toLowerCase();
+    recordReview(current, isCorrect);
+    setResults(prev => [...prev, { prompt: current.cn, answer: current.en, userAnswer: userInput.trim(), correct: isCorrect, hintsUsed }]);
+    setFeedback(isCorrect ? 'correct' : 'incorrect');
+  };
+
+  const handleNext = () => {
+    if (index < pairs.length - 1) {
+      setIndex(index + 1);
+      setUserInput('');
+      setFeedback('idle');
+      setShowMeaning(false);
+      setHintsUsed(0);
+      return;
+    }
+    const record = createSession('dictation', pairs.map(p => p.en).join(', '), results, startedAt);
+    saveSession(record).catch(() => {});
+    setSession(record);
+  };
+
+  const restart = () => {
+    setIndex(0);
+    setUserInput('');
+    setFeedback('idle');
+    setShowMeaning(false);
+    setHintsUsed(0);
+    setResults([]);
+    setStartedAt(Date.now());
+    setSession(null);
+  };
+
+  if (session) {
+    return <SessionResults record={session} onContinue={restart} continueLabel="再听写一次" onExit={onReset} settings={settings} />;
+  }
+
+  if (!current) return <div className="text-center p-8">没有可以听写的单词，请重试。</div>;
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-black opacity-70 flex items-center gap-2"><Headphones size={20} /> 听写练习</h2>
+        <div className="text-sm font-bold">{index + 1} / {pairs.length}</div>
+      </div>
+
+      <div className="p-6 rounded-2xl bg-black/5 flex flex-col items-center gap-4">
+        <div className="flex gap-3">
+          <Button onClick={() => play()} theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+            <Volume2 size={20} /> 播放
+          </Button>
+          <Button onClick={playSlow} variant="secondary" theme={settings.theme} aeroOpacity={settings.aeroOpacity} className="text-white">
+            <Snail size={20} /> 慢速
+          </Button>
+        </div>
+        {speechError && (
+          <div className="text-center space-y-1 animate-in fade-in">
+            <div className="text-sm font-bold text-red-500 flex items-center justify-center gap-1"><VolumeX size={14} /> {speechError}，请看单词拼写：</div>
+            <div className="text-2xl font-black tracking-wide">{current.en}</div>
+          </div>
+        )}
+        <button onClick={toggleMeaning} className="text-sm font-bold opacity-60 hover:opacity-100 flex items-center gap-1">
+          {showMeaning ? <EyeOff size={14} /> : <Eye size={14} />} {showMeaning ? '隐藏中文提示' : '显示中文提示'}
+        </button>
+        {showMeaning && (
+          <div className="text-lg font-black text-blue-600 animate-in fade-in">
+            {current.partOfSpeech && <span className="mr-1 opacity-60">{current.partOfSpeech}</span>}{current.cn}
+          </div>
+        )}
+      </div>
+
+      <input
+        type="text"
+        className={`w-full p-4 text-xl font-bold text-center rounded-2xl border-2 focus:outline-none transition-all ${
+          isAero ? "bg-white/70 border-white/40 text-black placeholder-black/30" : "bg-white border-gray-200 focus:border-blue-400"
+        }`}
+        placeholder="听到的单词是..."
+        value={userInput}
+        onChange={(e) => setUserInput(e.target.value)}
+        readOnly={feedback !== 'idle'}
+        onKeyDown={(e) => e.key === 'Enter' && (feedback === 'idle' ? handleCheck() : handleNext())}
+        autoComplete="off"
+        autoCapitalize="off"
+        spellCheck={false}
+        autoFocus
+      />
+
+      {feedback === 'idle' ? (
+        <Button onClick={handleCheck} disabled={!userInput.trim()} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>检查拼写 (Enter)</Button>
+      ) : (
+        <div className={`p-4 rounded-2xl flex flex-col gap-4 animate-in slide-in-from-top-2 ${feedback === 'correct' ? "bg-green-500/20" : "bg-red-500/20"}`}>
+          <div className="font-black flex items-center gap-2">
+            {feedback === 'correct' ? <CheckCircle2 className="text-green-600" /> : <XCircle className="text-red-600" />}
+            {feedback === 'correct' ? '拼写正确！' : '拼写有误，对照一下：'}
+            <span className="ml-auto text-sm opacity-60">{current.cn}</span>
+          </div>
+          {feedback === 'incorrect' && <SpellingDiff expected={current.en} actual={userInput.trim()} />}
+          <Button onClick={handleNext} variant={feedback === 'correct' ? 'primary' : 'danger'} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+            {index < pairs.length - 1 ? '下一个 (Enter)' : '完成听写'}
+          </Button>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <button onClick={onReset} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DictationSection;
@@ -0,0 +1,120 @@
+
+import React, { useState, useMemo } from 'react';
+import { AppSettings, CurriculumNode, CurriculumStage, GrammarSubMode } from '../types';
+import { CURRICULUM, STAGE_LABELS, recommendNext, missingPrerequisites, NodeMastery } from '../grammarCurriculum';
+import { curriculumMastery } from '../learnerModel';
+import { BookOpen, PenTool, ListChecks, Blocks, SpellCheck, CheckCircle2, Lock, Sparkles, ChevronDown, ChevronRight } from 'lucide-react';
+
+const STATUS_LABELS: Record<NodeMastery['status'], string> = {
+  new: '未学习',
+  learning: '学习中',
+  mastered: '已掌握'
+};
+
+const GrammarSyllabus: React.FC<{
+  onStart: (node: CurriculumNode, mode: GrammarSubMode) => void,
+  isLoading: boolean,
+  settings: AppSettings
+}> = ({ onStart, isLoading, settings }) => {
+  const mastery = useMemo(curriculumMastery, []);
+  const recommended = recommendNext(mastery);
+  const [openStage, setOpenStage] = useState<CurriculumStage | null>(recommended?.stage || 'grade7');
+  const [selected, setSelected] = useState<string | null>(recommended?.id || null);
+
+  const isAero = settings.theme === 'aero';
+  const stages = Object.keys(STAGE_LABELS) as CurriculumStage[];
+
+  const startButtons = (node: CurriculumNode) => (
+    <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+      {([
+        ['explanation', '讲解', <BookOpen size={14} key="e" />],
+        ['fill', '填空', <PenTool size={14} key="f" />],
+        ['choice', '选择', <ListChecks size={14} key="c" />],
+        ['order', '连词成句', <Blocks size={14} key="o" />],
+        ['correction', '改错', <SpellCheck size={14} key="r" />]
+      ] as const).map(([mode, label, icon]) => (
+        <button
+          key={mode}
+          onClick={() => onStart(node, mode)}
+          disabled={isLoading}
+          className={`p-2 rounded-xl border-2 font-bold text-xs flex items-center justify-center gap-1 transition-all disabled:opacity-40 ${
+            isAero ? "bg-white/60 border-white/40 hover:bg-white/80" : "bg-white border-gray-200 hover:border-blue-400 text-gray-700"
+          }`}
+        >
+          {icon} {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const progressBar = (m: NodeMastery) => (
+    <div className={`h-1.5 w-16 rounded-full overflow-hidden shrink-0 ${isAero ? "bg-black/10" : "bg-gray-200"}`}>
+      <div className={`h-full ${m.status === 'mastered' ? "bg-[#58cc02]" : "bg-blue-500"}`} style={{ width: `${m.progress}%` }} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {recommended && (
+        <div className={`p-4 rounded-2xl border-2 space-y-3 ${isAero ? "bg-white/50 border-white/50" : "bg-blue-50 border-blue-100"}`}>
+          <div>
+            <div className="text-xs font-black text-blue-600 flex items-center gap-1"><Sparkles size={14} /> 推荐下一个</div>
+            <div className="font-black mt-1">{recommended.name} <span className="text-xs opacity-50">{STAGE_LABELS[recommended.stage]} · {recommended.level}</span></div>
+            <div className="text-xs font-semibold opacity-70 mt-1">{recommended.description}</div>
+          </div>
+          {startButtons(recommended)}
+        </div>
+      )}
+
+      {stages.map(stage => {
+        const nodes = CURRICULUM.filter(n => n.stage === stage);
+        const mastered = nodes.filter(n => mastery[n.id].status === 'mastered').length;
+        const isOpen = openStage === stage;
+        return (
+          <div key={stage} className={`rounded-2xl border-2 ${isAero ? "bg-white/40 border-white/30" : "bg-gray-50 border-gray-100"}`}>
+            <button onClick={() => setOpenStage(isOpen ? null : stage)} className="w-full p-3 flex items-center gap-2 font-black text-sm">
+              {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+              <span className="flex-grow text-left">{STAGE_LABELS[stage]}</span>
+              <span className="text-xs opacity-50">已掌握 {mastered} / {nodes.length}</span>
+            </button>
+            {isOpen && (
+              <ul className="px-3 pb-3 space-y-1">
+                {nodes.map(node => {
+                  const m = mastery[node.id];
+                  const missing = missingPrerequisites(node, mastery);
+                  const isSelected = selected === node.id;
+                  return (
+                    <li key={node.id} className={`rounded-xl transition-all ${isSelected ? (isAero ? "bg-white/70" : "bg-white shadow-sm") : ""}`}>
+                      <button onClick={() => setSelected(isSelected ? null : node.id)} className="w-full p-2 flex items-center gap-2 text-sm font-bold text-left">
+                        {m.status === 'mastered'
+                          ? <CheckCircle2 size={16} className="text-[#58cc02] shrink-0" />
+                          : missing.length ? <Lock size={16} className="opacity-30 shrink-0" /> : <span className="w-4 h-4 rounded-full border-2 border-blue-400 shrink-0" />}
+                        <span className="flex-grow truncate">{node.name}</span>
+                        <span className="text-[10px] font-black px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-600 shrink-0">{node.level}</span>
+                        {progressBar(m)}
+                      </button>
+                      {isSelected && (
+                        <div className="px-2 pb-3 space-y-2 animate-in fade-in duration-200">
+                          <div className="text-xs font-semibold opacity-70">{node.english} · {node.description}</div>
+                          <div className="text-xs font-bold opacity-60">
+                            {STATUS_LABELS[m.status]}{m.attempts > 0 && ` · 已答 ${m.attempts} 题 · 掌握度 ${m.progress}%`}
+                          </div>
+                          {missing.length > 0 && (
+                            <div className="text-xs font-bold text-orange-500">建议先学：{missing.map(n => n.name).join('、')}</div>
+                          )}
+                          {startButtons(node)}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GrammarSyllabus;
@@ -0,0 +1,347 @@
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppSettings, MistakeRecord } from '../types';
+import { listMistakes, recordRedoResult, deleteMistake, isMastered } from '../mistakeService';
+import { evaluateAnswer, evaluateBlanks, BLANK_SEPARATOR, AnswerEvaluation } from '../answerEvaluator';
+import { questionAnswer } from '../assignmentService';
+import { scrambleTokens, checkOrder, joinTokens, endMarkOf } from '../sentenceBuilder';
+import { correctionTokens, errorTokenIndex, gradeCorrection, correctionUserText, correctedSentence, NO_ERROR } from '../errorCorrection';
+import Button from './Button';
+import SentenceBuilder from './SentenceBuilder';
+import CorrectionPicker from './CorrectionPicker';
+import FormattedText from './FormattedText';
+import BlankSentenceInput from './BlankSentenceInput';
+import { BookX, CheckCircle2, XCircle, Trash2, RotateCcw, Repeat, Sparkles, Loader2 } from 'lucide-react';
+
+const KIND_LABELS: Record<MistakeRecord['kind'], string> = {
+  context: '语境填空',
+  grammar_fill: '语法填空',
+  grammar_choice: '语法选择',
+  grammar_order: '连词成句',
+  grammar_correction: '语法改错'
+};
+
+const MistakeSection: React.FC<{
+  onBack: () => void,
+  onError: (error: any) => void,
+  settings: AppSettings
+}> = ({ onBack, onError, settings }) => {
+  const [records, setRecords] = useState<MistakeRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [tab, setTab] = useState<'active' | 'mastered'>('active');
+  const [queue, setQueue] = useState<MistakeRecord[] | null>(null);
+  const [userInput, setUserInput] = useState('');
+  const [blankInputs, setBlankInputs] = useState<string[]>([]);
+  const [orderPicked, setOrderPicked] = useState<number[]>([]);
+  const [correctionPicked, setCorrectionPicked] = useState<number | null>(null);
+  const [correctionFix, setCorrectionFix] = useState('');
+  const [feedback, setFeedback] = useState<'idle' | 'correct' | 'incorrect'>('idle');
+  const [evaluation, setEvaluation] = useState<AnswerEvaluation | null>(null);
+  const [blankEvaluations, setBlankEvaluations] = useState<AnswerEvaluation[] | null>(null);
+  // 连续点击时第二次检查会在 feedback 更新前进入，重复记录一次重做结果
+  const checking = useRef(false);
+
+  const isAero = settings.theme === 'aero';
+  const required = settings.mistakeRedoStreak;
+
+  const reload = async () => {
+    try {
+      setRecords(await listMistakes());
+    } catch (error) {
+      onError(error);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const active = records.filter(r => !isMastered(r, required));
+  const mastered = records.filter(r => isMastered(r, required));
+  const visible = tab === 'active' ? active : mastered;
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMistake(id);
+    } catch (error) {
+      onError(error);
+    }
+    await reload();
+  };
+
+  const startRedo = () => {
+    setQueue([...active].sort(() => Math.random() - 0.5));
+    setUserInput('');
+    setBlankInputs([]);
+    setOrderPicked([]);
+    setCorrectionPicked(null);
+    setCorrectionFix('');
+    setFeedback('idle');
+  };
+
+  const current = queue?.[0];
+  // 按题目 id 打乱，答题后记录更新时词块位置不变
+  const orderTokens = useMemo(() => current?.kind === 'grammar_order' ? scrambleTokens(current.question) : [], [current?.id]);
+  const orderTexts = () => orderPicked.map(id => orderTokens.find(t => t.id === id)?.text || '');
+  const correctionTokenList = useMemo(() => current?.kind === 'grammar_correction' ? correctionTokens(current.question.sentence) : [], [current?.id]);
+
+  const handleCheck = async (answer: string) => {
+    if (!current || feedback !== 'idle' || checking.current) return;
+    checking.current = true;
+    setUserInput(answer);
+    let isCorrect: boolean;
+    if (current.kind === 'grammar_fill') {
+      const graded = evaluateBlanks(blankInputs, current.question.blanks);
+      isCorrect = graded.every(r => r.correct);
+      setBlankEvaluations(graded);
+    } else if (current.kind === 'grammar_order') {
+      isCorrect = checkOrder(orderTexts(), current.question).correct;
+    } else if (current.kind === 'grammar_correction') {
+      isCorrect = gradeCorrection(current.question, correctionPicked ?? NO_ERROR, correctionFix).correct;
+    } else {
+      const result = current.kind === 'grammar_choice' ? null : evaluateAnswer(answer, current.question.answer, current.question.acceptedAnswers);
+      isCorrect = result ? result.correct : answer === current.question.answer;
+      setEvaluation(result);
+    }
+    try {
+      const updated = await recordRedoResult(current, isCorrect, answer);
+      setQueue(prev => prev && [updated, ...prev.slice(1)]);
+    } catch (error) {
+      onError(error);
+    } finally {
+      checking.current = false;
+    }
+    setFeedback(isCorrect ? 'correct' : 'incorrect');
+  };
+
+  // 未达到连续答对次数的题目放回队尾，稍后再次出现
+  const handleNext = () => {
+    if (!queue || !current) return;
+    const rest = queue.slice(1);
+    setQueue(isMastered(current, required) ? rest : [...rest, current]);
+    setUserInput('');
+    setBlankInputs([]);
+    setOrderPicked([]);
+    setCorrectionPicked(null);
+    setCorrectionFix('');
+    setFeedback('idle');
+    setEvaluation(null);
+    setBlankEvaluations(null);
+  };
+
+  const exitRedo = async () => {
+    setQueue(null);
+    await reload();
+  };
+
+  if (queue) {
+    if (!current) {
+      return (
+        <div className={`p-8 flex flex-col items-center gap-6 text-center animate-in zoom-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+          <CheckCircle2 size={56} className="text-green-500" />
+          <h2 className="text-2xl font-black">错题全部攻克！</h2>
+          <p className="font-bold opacity-60">每道题都已连续答对 {required} 次。</p>
+          <Button onClick={exitRedo} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>返回错题本</Button>
+        </div>
+      );
+    }
+
+    const q = current.question;
+    const blankAnswer = current.kind === 'grammar_fill' ? current.question.blanks.map((_, i) => (blankInputs[i] || '').trim()).join(BLANK_SEPARATOR) : '';
+    const orderAnswer = current.kind === 'grammar_order' ? joinTokens(orderTexts(), endMarkOf(current.question.sentence)) : '';
+    const correctionAnswer = current.kind === 'grammar_correction' ? correctionUserText(correctionTokenList, correctionPicked ?? NO_ERROR, correctionFix) : '';
+    const answerInput = current.kind === 'grammar_fill' ? blankAnswer : current.kind === 'grammar_order' ? orderAnswer
+      : current.kind === 'grammar_correction' ? correctionAnswer : userInput;
+    const canCheck = current.kind === 'grammar_fill' ? current.question.blanks.every((_, i) => (blankInputs[i] || '').trim())
+      : current.kind === 'grammar_order' ? orderPicked.length === orderTokens.length
+      : current.kind === 'grammar_correction' ? correctionPicked === NO_ERROR || (correctionPicked !== null && !!correctionFix.trim())
+      : !!userInput.trim();
+    return (
+      <div className={`p-8 space-y-6 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+        <div className="flex justify-between items-center text-xs font-black opacity-50">
+          <span>{KIND_LABELS[current.kind]} · {current.source}</span>
+          <span>剩余 {queue.length} 题 · 连对 {current.correctStreak} / {required}</span>
+        </div>
+        {current.kind === 'grammar_fill' ? (
+          <BlankSentenceInput
+            key={current.id}
+            sentence={q.sentence}
+            blanks={current.question.blanks}
+            values={blankInputs}
+            onChange={setBlankInputs}
+            onSubmit={() => feedback === 'idle' ? canCheck && handleCheck(blankAnswer) : handleNext()}
+            evaluations={blankEvaluations}
+            settings={settings}
+          />
+        ) : current.kind === 'grammar_order' ? (
+          <>
+            {current.question.translation && (
+              <div className="p-4 rounded-2xl bg-black/5 text-center text-lg font-bold">{current.question.translation}</div>
+            )}
+            <SentenceBuilder
+              key={current.id}
+              tokens={orderTokens}
+              picked={orderPicked}
+              onChange={setOrderPicked}
+              endMark={endMarkOf(current.question.sentence)}
+              result={feedback === 'idle' ? null : feedback === 'correct'}
+              settings={settings}
+            />
+          </>
+        ) : current.kind === 'grammar_correction' ? (
+          <CorrectionPicker
+            key={current.id}
+            tokens={correctionTokenList}
+            picked={correctionPicked}
+            fix={correctionFix}
+            onPick={setCorrectionPicked}
+            onFixChange={setCorrectionFix}
+            onSubmit={() => canCheck && handleCheck(correctionAnswer)}
+            errorIndex={feedback === 'idle' ? null : errorTokenIndex(current.question)}
+            settings={settings}
+          />
+        ) : (
+          <div className="p-6 rounded-2xl bg-black/5 text-center">
+            <h2 className="text-2xl font-bold leading-relaxed">
+              {q.sentence.split('_____').map((p, i, arr) => (
+                <React.Fragment key={i}>
+                  {p}{i < arr.length - 1 && <span className="inline-block border-b-2 border-blue-500 px-4 mx-1 min-w-[3rem] h-2"></span>}
+                </React.Fragment>
+              ))}
+            </h2>
+          </div>
+        )}
+
+        {current.kind === 'grammar_fill' || current.kind === 'grammar_order' || current.kind === 'grammar_correction' ? null : current.kind === 'grammar_choice' ? (
+          <div className="flex flex-col gap-3">
+            {current.question.options.map((opt, i) => {
+              let btnStyle = isAero ? "bg-white/50 border-white/30 text-black" : "bg-white border-gray-200 text-gray-700";
+              if (feedback !== 'idle') {
+                if (opt === q.answer) btnStyle = "bg-green-500/30 border-green-500 text-green-900";
+                else if (opt === userInput) btnStyle = "bg-red-500/30 border-red-500 text-red-900";
+                else btnStyle = "opacity-30";
+              }
+              return (
+                <button key={i} onClick={() => handleCheck(opt)} className={`w-full p-4 rounded-2xl border-2 font-bold text-lg text-left transition-all ${btnStyle}`}>
+                  {opt}
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <input
+            type="text"
+            className={`w-full p-4 text-xl font-bold rounded-2xl border-2 focus:outline-none transition-all ${
+              isAero ? "bg-white/70 border-white/40 text-black placeholder-black/30" : "bg-white border-gray-200 focus:border-blue-400"
+            }`}
+            placeholder="输入答案..."
+            value={userInput}
+            onChange={(e) => setUserInput(e.target.value)}
+            readOnly={feedback !== 'idle'}
+            onKeyDown={(e) => e.key === 'Enter' && (feedback === 'idle' ? userInput.trim() && handleCheck(userInput) : handleNext())}
+            autoFocus
+          />
+        )}
+
+        {feedback === 'idle' ? (
+          current.kind !== 'grammar_choice' && (
+            <Button onClick={() => handleCheck(answerInput)} disabled={!canCheck} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>检查答案 (Enter)</Button>
+          )
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className={`p-4 rounded-2xl flex flex-col gap-3 animate-in slide-in-from-top-2 ${feedback === 'correct' ? "bg-green-500/20" : "bg-red-500/20"}`}>
+              <div className="font-black flex items-center gap-2">
+                {feedback === 'correct' ? <CheckCircle2 className="text-green-600"/> : <XCircle className="text-red-600"/>}
+                {feedback === 'correct'
+                  ? (isMastered(current, required) ? '已攻克这道题！' : `答对了！还需连续答对 ${required - current.correctStreak} 次`)
+                  : <>正确答案: <span className="underline">{questionAnswer(current)}</span></>}
+              </div>
+              {current.kind === 'grammar_correction' && current.question.error && <div className="text-sm font-bold">正确的句子：{correctedSentence(current.question)}</div>}
+              {evaluation && evaluation.grade !== 'exact' && evaluation.grade !== 'wrong' && <div className="text-sm font-bold">{evaluation.message}</div>}
+              <Button onClick={handleNext} variant={feedback === 'correct' ? 'primary' : 'danger'} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>下一题 (Enter)</Button>
+            </div>
+            {feedback === 'incorrect' && current.analysis && (
+              <div className={`p-5 rounded-2xl border-2 ${isAero ? "bg-white/40 border-white/50" : "bg-blue-50 border-blue-100"}`}>
+                <div className="flex items-center gap-2 mb-2 text-blue-600 font-black">
+                  <Sparkles size={16} /> AI 错因分析
+                </div>
+                <p className="text-sm leading-relaxed text-gray-700 font-semibold">
+                  <FormattedText text={current.analysis} />
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <button onClick={exitRedo} className="w-full text-xs font-bold opacity-30 hover:opacity-100 flex items-center gap-1 justify-center transition-opacity">
+          <RotateCcw size={12}/> 结束重做
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-500 ${isAero ? "text-black" : "bg-white rounded-3xl shadow-sm border-2 border-gray-100"}`}>
+      <h2 className={`text-xl font-extrabold flex items-center gap-2 ${isAero ? "text-black" : "text-gray-700"}`}>
+        <BookX className="text-red-500" /> 错题本
+      </h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        {(['active', 'mastered'] as const).map(t => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`p-3 rounded-xl border-2 font-bold transition-all ${
+              tab === t ? "bg-[#1cb0f6] text-white border-[#1899d6]" : (isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-100 text-gray-400")
+            }`}
+          >
+            {t === 'active' ? `待攻克 (${active.length})` : `已掌握 (${mastered.length})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-1">
+        {!isLoaded && <div className="flex justify-center p-6"><Loader2 className="animate-spin opacity-50" /></div>}
+        {isLoaded && visible.length === 0 && (
+          <div className="text-center p-6 text-sm font-bold opacity-50">
+            {tab === 'active' ? "没有待攻克的错题，继续保持！" : "还没有已掌握的错题。"}
+          </div>
+        )}
+        {visible.map(r => (
+          <div key={r.id} className={`p-4 rounded-2xl border-2 space-y-2 ${isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-100"}`}>
+            <div className="flex justify-between items-center text-xs font-black opacity-50">
+              <span>{KIND_LABELS[r.kind]} · {r.source}</span>
+              <button onClick={() => handleDelete(r.id)} className="hover:text-red-500"><Trash2 size={14} /></button>
+            </div>
+            <p className="font-bold">{r.kind === 'grammar_order' && r.question.translation ? r.question.translation : r.question.sentence}</p>
+            <div className="text-sm font-bold flex flex-wrap gap-x-4">
+              <span className="text-green-600">正确: {questionAnswer(r)}</span>
+              <span className="text-red-500 line-through">{r.userAnswer || '未作答'}</span>
+              <span className="opacity-50">错 {r.wrongCount} 次 · 连对 {Math.min(r.correctStreak, required)} / {required}</span>
+            </div>
+            {r.analysis && (
+              <details className="text-sm">
+                <summary className="cursor-pointer font-bold text-blue-600">AI 错因分析</summary>
+                <p className="mt-2 leading-relaxed text-gray-700 font-semibold"><FormattedText text={r.analysis} /></p>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={startRedo} disabled={active.length === 0} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+        <Repeat size={18} /> 重做错题 ({active.length})
+      </Button>
+
+      <div className="flex justify-center">
+        <button onClick={onBack} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MistakeSection;
@@ -0,0 +1,175 @@
+
+import React, { useState, useEffect } from 'react';
+import { AppSettings, NotebookEntry } from '../types';
+import { listEntries, saveEntry, deleteEntry, createEntry, collectTags, filterEntries } from '../notebookService';
+import Button from './Button';
+import { BookMarked, Search, Pencil, Trash2, Plus, Tag, RotateCcw, Loader2 } from 'lucide-react';
+
+const NotebookSection: React.FC<{
+  onStartMatching: (entries: NotebookEntry[]) => void,
+  onStartContext: (entries: NotebookEntry[]) => void,
+  onBack: () => void,
+  isLoading: boolean,
+  settings: AppSettings
+}> = ({ onStartMatching, onStartContext, onBack, isLoading, settings }) => {
+  const [entries, setEntries] = useState<NotebookEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<NotebookEntry | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+
+  const isAero = settings.theme === 'aero';
+  const inputClass = `w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+    isAero ? "bg-white/70 border-white/30 text-black placeholder-black/30" : "bg-white border-gray-100 text-gray-800"
+  }`;
+
+  const reload = async () => {
+    setEntries(await listEntries());
+    setIsLoaded(true);
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const visible = filterEntries(entries, query, activeTag);
+  const tags = collectTags(entries);
+  const selectedEntries = entries.filter(e => selected.includes(e.id));
+
+  const toggleSelect = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const startEdit = (entry: NotebookEntry) => {
+    setEditing(entry);
+    setTagsInput(entry.tags.join(', '));
+  };
+
+  const handleSave = async () => {
+    if (!editing || !editing.en.trim() || !editing.cn.trim()) return;
+    const tagList = tagsInput.split(/[,，]/).map(t => t.trim()).filter(Boolean);
+    await saveEntry({ ...editing, en: editing.en.trim(), cn: editing.cn.trim(), tags: tagList });
+    setEditing(null);
+    await reload();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("确定要从生词本中删除这个单词吗？")) return;
+    await deleteEntry(id);
+    setSelected(prev => prev.filter(s => s !== id));
+    await reload();
+  };
+
+  if (editing) {
+    return (
+      <div className={`p-8 space-y-4 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+        <h2 className="text-xl font-black flex items-center gap-2"><Pencil size={20} /> 编辑单词</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input className={inputClass} placeholder="英文" value={editing.en} onChange={(e) => setEditing({ ...editing, en: e.target.value })} />
+          <input className={inputClass} placeholder="中文释义" value={editing.cn} onChange={(e) => setEditing({ ...editing, cn: e.target.value })} />
+          <input className={inputClass} placeholder="音标" value={editing.phonetic} onChange={(e) => setEditing({ ...editing, phonetic: e.target.value })} />
+          <input className={inputClass} placeholder="词性 (如 n. / v.)" value={editing.partOfSpeech} onChange={(e) => setEditing({ ...editing, partOfSpeech: e.target.value })} />
+        </div>
+        <input className={inputClass} placeholder="例句" value={editing.example} onChange={(e) => setEditing({ ...editing, example: e.target.value })} />
+        <input className={inputClass} placeholder="标签，用逗号分隔 (如 Unit 1, 易错)" value={tagsInput} onChange={(e) => setTagsInput(e.target.value)} />
+        <div className="grid grid-cols-2 gap-3 pt-2">
+          <Button onClick={() => setEditing(null)} variant="ghost" fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>取消</Button>
+          <Button onClick={handleSave} disabled={!editing.en.trim() || !editing.cn.trim()} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>保存</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-500 ${isAero ? "text-black" : "bg-white rounded-3xl shadow-sm border-2 border-gray-100"}`}>
+      <div className="flex justify-between items-center">
+        <h2 className={`text-xl font-extrabold flex items-center gap-2 ${isAero ? "text-black" : "text-gray-700"}`}>
+          <BookMarked className="text-blue-500" /> 生词本
+        </h2>
+        <button onClick={() => startEdit(createEntry({ en: '', cn: '' }))} className="font-bold text-sm flex items-center gap-1 text-blue-500 hover:text-blue-700">
+          <Plus size={16} /> 添加单词
+        </button>
+      </div>
+
+      <div className="relative">
+        <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 opacity-40" />
+        <input className={`${inputClass} pl-10`} placeholder="搜索英文、中文或例句..." value={query} onChange={(e) => setQuery(e.target.value)} />
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(t => (
+            <button
+              key={t}
+              onClick={() => setActiveTag(activeTag === t ? null : t)}
+              className={`px-3 py-1 rounded-full text-xs font-bold border-2 flex items-center gap-1 transition-all ${
+                activeTag === t ? "bg-blue-500 text-white border-blue-600" : (isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-200 text-gray-500")
+              }`}
+            >
+              <Tag size={12} /> {t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+        {!isLoaded && <div className="flex justify-center p-6"><Loader2 className="animate-spin opacity-50" /></div>}
+        {isLoaded && visible.length === 0 && (
+          <div className="text-center p-6 text-sm font-bold opacity-50">
+            {entries.length === 0 ? "生词本还是空的，练习过的单词会自动收录到这里。" : "没有符合条件的单词。"}
+          </div>
+        )}
+        {visible.map(e => (
+          <div key={e.id} className={`p-3 rounded-2xl border-2 flex items-start gap-3 transition-all ${
+            selected.includes(e.id) ? "border-blue-400 bg-blue-500/10" : (isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-100")
+          }`}>
+            <input type="checkbox" className="mt-1.5 w-5 h-5 accent-[#1cb0f6]" checked={selected.includes(e.id)} onChange={() => toggleSelect(e.id)} />
+            <div className="flex-grow min-w-0">
+              <div className="flex items-baseline gap-2 flex-wrap">
+                <span className="font-black text-lg">{e.en}</span>
+                {e.phonetic && <span className="text-sm opacity-50">{e.phonetic}</span>}
+                {e.partOfSpeech && <span className="text-xs font-bold text-blue-500">{e.partOfSpeech}</span>}
+                <span className="font-bold opacity-80">{e.cn}</span>
+              </div>
+              {e.example && <p className="text-sm italic opacity-60 truncate">{e.example}</p>}
+              <div className="text-xs opacity-40 font-bold mt-1">
+                {e.source} · 收录于 {new Date(e.createdAt).toLocaleDateString()}
+                {e.lastPracticedAt && ` · 上次练习 ${new Date(e.lastPracticedAt).toLocaleDateString()}`}
+                {e.tags.length > 0 && ` · ${e.tags.join(' / ')}`}
+              </div>
+            </div>
+            <button onClick={() => startEdit(e)} className="p-1 opacity-40 hover:opacity-100"><Pencil size={16} /></button>
+            <button onClick={() => handleDelete(e.id)} className="p-1 opacity-40 hover:opacity-100 hover:text-red-500"><Trash2 size={16} /></button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center text-xs font-bold opacity-60">
+        <span>已选 {selected.length} 个单词</span>
+        <div className="flex gap-3">
+          <button onClick={() => setSelected(visible.map(e => e.id))}>全选当前</button>
+          <button onClick={() => setSelected([])}>清空选择</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Button onClick={() => onStartMatching(selectedEntries)} disabled={isLoading || selectedEntries.length === 0} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+          用选中单词连线
+        </Button>
+        <Button onClick={() => onStartContext(selectedEntries)} variant="secondary" disabled={isLoading || selectedEntries.length === 0} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+          {isLoading ? <Loader2 className="animate-spin" size={18} /> : null} 用选中单词语境填空
+        </Button>
+      </div>
+
+      <div className="flex justify-center">
+        <button onClick={onBack} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NotebookSection;
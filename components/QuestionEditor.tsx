@@ -0,0 +1,239 @@
+
+import React, { useState } from 'react';
+import { AppSettings, MistakeQuestion, FillBlank } from '../types';
+import { EditableContent, contentFromItems, moveItem, checkItems } from '../questionEditor';
+import { questionsFromContent } from '../assignmentService';
+import { createPracticeSet, serializePracticeSet, practiceSetFileName } from '../practiceSet';
+import { downloadFile } from '../worksheetExport';
+import { countBlanks } from '../responseValidator';
+import Button from './Button';
+import { Pencil, ArrowUp, ArrowDown, RefreshCw, Trash2, Plus, X, Loader2, FileJson, Play } from 'lucide-react';
+
+const SECTION_LABELS: Record<MistakeQuestion['kind'], string> = {
+  context: '语境填空',
+  grammar_fill: '语法填空',
+  grammar_choice: '语法选择',
+  grammar_order: '连词成句',
+  grammar_correction: '语法改错'
+};
+
+// 备选答案用英文逗号分隔，输入过程中保留原样，保存时再统一清理
+const splitAccepted = (text: string) => text.split(',');
+const joinAccepted = (answers?: string[]) => (answers || []).join(',');
+// 句子本身可能含逗号，其他语序按行填写
+const splitLines = (text: string) => text.split('\n');
+const joinLines = (lines?: string[]) => (lines || []).join('\n');
+
+const QuestionEditor: React.FC<{
+  title: string,
+  content: EditableContent,
+  onRegenerate: (item: MistakeQuestion) => Promise<MistakeQuestion>,
+  onSave: (content: EditableContent) => void,
+  onCancel: () => void,
+  onError: (error: any) => void,
+  settings: AppSettings
+}> = ({ title, content, onRegenerate, onSave, onCancel, onError, settings }) => {
+  const [items, setItems] = useState<MistakeQuestion[]>(() => questionsFromContent(content));
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+
+  const isAero = settings.theme === 'aero';
+  const inputClass = `w-full p-2 rounded-lg border-2 focus:outline-none font-bold text-sm transition-all ${
+    isAero ? "bg-white/70 border-white/30 text-black placeholder-black/30" : "bg-white border-gray-100 focus:border-blue-400 text-gray-800"
+  }`;
+  const iconButton = "p-1.5 rounded-lg opacity-50 hover:opacity-100 disabled:opacity-20 transition-opacity";
+
+  const update = (index: number, item: MistakeQuestion) => {
+    setItems(prev => prev.map((old, i) => i === index ? item : old));
+    setErrors(prev => {
+      const { [index]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // 删除和换位后题号会变化，旧的错误提示不再对应，直接清空
+  const remove = (index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index));
+    setErrors({});
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    setItems(prev => moveItem(prev, index, direction));
+    setErrors({});
+  };
+
+  const regenerate = async (index: number) => {
+    setRegenerating(index);
+    try {
+      update(index, await onRegenerate(items[index]));
+    } catch (error: any) {
+      onError(error);
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const checked = (): EditableContent | null => {
+    const result = checkItems(items);
+    setErrors(result.errors);
+    if (Object.keys(result.errors).length) return null;
+    setItems(result.items);
+    return contentFromItems(content, result.items);
+  };
+
+  const handleSave = () => {
+    const next = checked();
+    if (next) onSave(next);
+  };
+
+  const handleDownload = () => {
+    const next = checked();
+    if (!next) return;
+    const set = createPracticeSet(title, next);
+    downloadFile(practiceSetFileName(set), serializePracticeSet(set), 'application/json');
+  };
+
+  const renderFields = (item: MistakeQuestion, index: number) => {
+    if (item.kind === 'context') {
+      const q = item.question;
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <input className={`${inputClass} col-span-2`} value={q.sentence} placeholder="句子，用 _____ 表示空格" onChange={(e) => update(index, { kind: 'context', question: { ...q, sentence: e.target.value } })} />
+          <input className={inputClass} value={q.answer} placeholder="答案" onChange={(e) => update(index, { kind: 'context', question: { ...q, answer: e.target.value } })} />
+          <input className={inputClass} value={joinAccepted(q.acceptedAnswers)} placeholder="其他正确答案，用英文逗号分隔" onChange={(e) => update(index, { kind: 'context', question: { ...q, acceptedAnswers: splitAccepted(e.target.value) } })} />
+        </div>
+      );
+    }
+
+    if (item.kind === 'grammar_fill') {
+      const q = item.question;
+      const setBlanks = (blanks: FillBlank[]) => update(index, { kind: 'grammar_fill', question: { ...q, blanks } });
+      const setBlank = (i: number, blank: FillBlank) => setBlanks(q.blanks.map((b, j) => j === i ? blank : b));
+      const blankCount = countBlanks(q.sentence);
+      return (
+        <div className="space-y-2">
+          <input className={inputClass} value={q.sentence} placeholder="句子，每个空格用 _____ 表示" onChange={(e) => update(index, { kind: 'grammar_fill', question: { ...q, sentence: e.target.value } })} />
+          {q.blanks.map((b, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="text-xs font-black text-blue-600 w-5 shrink-0">{i + 1}</span>
+              <input className={inputClass} value={b.hint} placeholder="提示词" onChange={(e) => setBlank(i, { ...b, hint: e.target.value })} />
+              <input className={inputClass} value={b.answer} placeholder="答案" onChange={(e) => setBlank(i, { ...b, answer: e.target.value })} />
+              <input className={inputClass} value={joinAccepted(b.acceptedAnswers)} placeholder="其他正确答案" onChange={(e) => setBlank(i, { ...b, acceptedAnswers: splitAccepted(e.target.value) })} />
+              <button onClick={() => setBlanks(q.blanks.filter((_, j) => j !== i))} disabled={q.blanks.length <= 1} title="删除这个空" className={iconButton}><X size={14} /></button>
+            </div>
+          ))}
+          <div className="flex justify-between items-center text-xs font-bold">
+            <button onClick={() => setBlanks([...q.blanks, { hint: '', answer: '' }])} className="flex items-center gap-1 text-blue-500 hover:text-blue-700">
+              <Plus size={12} /> 添加一个空
+            </button>
+            {blankCount !== q.blanks.length && (
+              <span className="text-orange-500">句中有 {blankCount} 个 _____，但填写了 {q.blanks.length} 个答案</span>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    if (item.kind === 'grammar_order') {
+      const q = item.question;
+      const set = (question: typeof q) => update(index, { kind: 'grammar_order', question });
+      return (
+        <div className="space-y-2">
+          <input className={inputClass} value={q.sentence} placeholder="正确的句子，会按空格拆成词块" onChange={(e) => set({ ...q, sentence: e.target.value })} />
+          <input className={inputClass} value={q.translation || ''} placeholder="中文意思（可不填）" onChange={(e) => set({ ...q, translation: e.target.value })} />
+          <textarea className={`${inputClass} h-16 resize-none`} value={joinLines(q.acceptedOrders)} placeholder="同样正确的其他语序，每行一句（可不填）" onChange={(e) => set({ ...q, acceptedOrders: splitLines(e.target.value) })} />
+        </div>
+      );
+    }
+
+    if (item.kind === 'grammar_correction') {
+      const q = item.question;
+      const set = (question: typeof q) => update(index, { kind: 'grammar_correction', question });
+      return (
+        <div className="grid grid-cols-3 gap-2">
+          <input className={`${inputClass} col-span-3`} value={q.sentence} placeholder="含有错误的句子（也可以是没有错误的句子）" onChange={(e) => set({ ...q, sentence: e.target.value })} />
+          <input className={inputClass} value={q.error} placeholder="写错的单词，没有错误则留空" onChange={(e) => set({ ...q, error: e.target.value })} />
+          <input className={`${inputClass} disabled:opacity-40`} value={q.correction} placeholder="改正后的写法" disabled={!q.error.trim()} onChange={(e) => set({ ...q, correction: e.target.value })} />
+          <input className={`${inputClass} disabled:opacity-40`} value={joinAccepted(q.acceptedCorrections)} placeholder="其他正确改法，用英文逗号分隔" disabled={!q.error.trim()} onChange={(e) => set({ ...q, acceptedCorrections: splitAccepted(e.target.value) })} />
+        </div>
+      );
+    }
+
+    const q = item.question;
+    const setOptions = (options: string[], answer: string = q.answer) => update(index, { kind: 'grammar_choice', question: { ...q, options, answer } });
+    return (
+      <div className="space-y-2">
+        <input className={inputClass} value={q.sentence} placeholder="句子，用 _____ 表示空格" onChange={(e) => update(index, { kind: 'grammar_choice', question: { ...q, sentence: e.target.value } })} />
+        {q.options.map((o, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              type="radio"
+              title="设为正确答案"
+              className="w-4 h-4 accent-[#58cc02] shrink-0"
+              checked={o === q.answer}
+              onChange={() => setOptions(q.options, o)}
+            />
+            {/* 修改正确选项的文字时答案跟着变 */}
+            <input className={inputClass} value={o} placeholder={`选项 ${i + 1}`} onChange={(e) => setOptions(q.options.map((x, j) => j === i ? e.target.value : x), o === q.answer ? e.target.value : q.answer)} />
+            <button onClick={() => setOptions(q.options.filter((_, j) => j !== i))} disabled={q.options.length <= 2} title="删除这个选项" className={iconButton}><X size={14} /></button>
+          </div>
+        ))}
+        <button onClick={() => setOptions([...q.options, ''])} className="flex items-center gap-1 text-xs font-bold text-blue-500 hover:text-blue-700">
+          <Plus size={12} /> 添加选项
+        </button>
+      </div>
+    );
+  };
+
+  const sections = (Object.keys(SECTION_LABELS) as MistakeQuestion['kind'][]).filter(kind => items.some(item => item.kind === kind));
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl shadow-sm border-2 border-gray-100"}`}>
+      <div>
+        <h2 className={`text-xl font-extrabold flex items-center gap-2 ${isAero ? "text-black" : "text-gray-700"}`}>
+          <Pencil className="text-blue-500" /> 检查题目 · {title}
+        </h2>
+        <p className={`text-sm mt-1 ${isAero ? "text-black/70" : "text-gray-500"}`}>
+          AI 生成的题目可能有错，开始练习前可以修改、删除、调整顺序，或者单独重新生成某一道题。
+        </p>
+      </div>
+
+      {items.length === 0 && <div className="text-center p-6 text-sm font-bold opacity-50">题目已全部删除。</div>}
+
+      {sections.map(kind => (
+        <div key={kind} className="space-y-3">
+          {sections.length > 1 && <h3 className="text-sm font-black opacity-60">{SECTION_LABELS[kind]}</h3>}
+          {items.map((item, index) => item.kind === kind && (
+            <div key={index} className={`p-4 rounded-2xl border-2 space-y-3 ${
+              errors[index] ? "border-red-300" : isAero ? "bg-white/50 border-white/30" : "bg-gray-50 border-gray-100"
+            }`}>
+              <div className="flex items-center gap-1">
+                <span className="font-black text-sm flex-grow">第 {items.slice(0, index + 1).filter(i => i.kind === kind).length} 题</span>
+                <button onClick={() => move(index, -1)} title="上移" className={iconButton}><ArrowUp size={16} /></button>
+                <button onClick={() => move(index, 1)} title="下移" className={iconButton}><ArrowDown size={16} /></button>
+                <button onClick={() => regenerate(index)} disabled={regenerating !== null} title="让 AI 重新生成这道题" className={`${iconButton} text-blue-500`}>
+                  {regenerating === index ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                </button>
+                <button onClick={() => remove(index)} title="删除" className={`${iconButton} hover:text-red-500`}><Trash2 size={16} /></button>
+              </div>
+              {renderFields(item, index)}
+              {errors[index] && <div className="text-xs font-bold text-red-600">{errors[index]}</div>}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <Button onClick={onCancel} variant="ghost" fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>放弃修改</Button>
+        <Button onClick={handleDownload} variant="secondary" disabled={!items.length} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+          <FileJson size={18} /> 保存为练习包
+        </Button>
+        <Button onClick={handleSave} disabled={!items.length} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+          <Play size={18} /> 保存并开始练习
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,111 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings } from '../types';
+import { getRecognizer, recognitionLang, scoreReading, ReadingScore, ListenSession } from '../speakingService';
+import { isAbortError } from '../aiProviders';
+import SpeakButton from './SpeakButton';
+import { Mic, Square, Loader2, Gauge } from 'lucide-react';
+
+const ReadAloudPanel: React.FC<{
+  target: string,
+  settings: AppSettings
+}> = ({ target, settings }) => {
+  const [status, setStatus] = useState<'idle' | 'listening' | 'scoring'>('idle');
+  const [interim, setInterim] = useState('');
+  const [score, setScore] = useState<ReadingScore | null>(null);
+  const [transcript, setTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const session = useRef<ListenSession | null>(null);
+
+  const isAero = settings.theme === 'aero';
+  const recognizer = getRecognizer();
+
+  useEffect(() => () => session.current?.abort(), []);
+
+  useEffect(() => {
+    session.current?.abort();
+    setStatus('idle');
+    setScore(null);
+    setInterim('');
+    setError(null);
+  }, [target]);
+
+  const start = async () => {
+    if (!recognizer) return;
+    setError(null);
+    setScore(null);
+    setInterim('');
+    setStatus('listening');
+    const current = recognizer.listen({ lang: recognitionLang(settings.ttsAccent), onInterim: setInterim });
+    session.current = current;
+    try {
+      const result = await current.result;
+      setTranscript(result.transcript);
+      setScore(scoreReading(target, result));
+    } catch (e: any) {
+      if (!isAbortError(e)) setError(e.message || '语音识别失败');
+    } finally {
+      if (session.current === current) session.current = null;
+      setStatus('idle');
+    }
+  };
+
+  const stop = () => {
+    setStatus('scoring');
+    session.current?.stop();
+  };
+
+  if (!recognizer) {
+    return <div className="text-xs font-bold opacity-50 text-center">当前浏览器不支持语音识别，建议使用 Chrome 或 Edge。</div>;
+  }
+
+  const wordClass = (status: string) => {
+    if (status === 'correct') return "text-green-600";
+    if (status === 'mispronounced') return "text-red-500 underline decoration-wavy";
+    return "text-gray-400 line-through";
+  };
+
+  return (
+    <div className={`p-4 rounded-2xl border-2 space-y-3 ${isAero ? "bg-white/40 border-white/50" : "bg-purple-50 border-purple-100"}`}>
+      <div className="text-lg font-bold leading-relaxed flex flex-wrap gap-x-1.5 items-center">
+        {score
+          ? score.words.map((w, i) => (
+              <span key={i} className={wordClass(w.status)} title={w.heard ? `听到的是：${w.heard}` : w.status === 'skipped' ? '漏读' : undefined}>{w.target}</span>
+            ))
+          : target}
+        <SpeakButton text={target} settings={settings} />
+      </div>
+
+      {status === 'listening' && (
+        <div className="text-sm font-bold text-purple-600 animate-pulse">{interim || '正在聆听，请朗读上面的句子…'}</div>
+      )}
+
+      {score && (
+        <div className="space-y-1 text-sm font-bold">
+          <div className="flex flex-wrap gap-x-4">
+            <span className="flex items-center gap-1 text-purple-700"><Gauge size={16} /> 流利度 {score.fluency} 分</span>
+            <span>准确度 {score.accuracy}%</span>
+            <span className="opacity-60">语速 {score.wordsPerMinute} 词/分钟</span>
+          </div>
+          <div className="opacity-60">识别结果：{transcript || '（没有听到声音）'}</div>
+          {score.extraWords.length > 0 && <div className="opacity-60">多读了：{score.extraWords.join(' ')}</div>}
+          <div className="text-xs opacity-50">绿色为读对，红色波浪线为发音不准，灰色删除线为漏读</div>
+        </div>
+      )}
+
+      {error && <div className="text-sm font-bold text-red-500">{error}</div>}
+
+      {status === 'idle' ? (
+        <button onClick={start} className="w-full p-3 rounded-xl bg-purple-500 text-white font-black flex items-center justify-center gap-2 hover:bg-purple-600 transition-all">
+          <Mic size={18} /> {score ? '再读一遍' : '开始朗读'}
+        </button>
+      ) : (
+        <button onClick={stop} disabled={status === 'scoring'} className="w-full p-3 rounded-xl bg-red-500 text-white font-black flex items-center justify-center gap-2 hover:bg-red-600 transition-all disabled:opacity-60">
+          {status === 'scoring' ? <Loader2 size={18} className="animate-spin" /> : <Square size={18} />} {status === 'scoring' ? '正在评分…' : '读完了'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReadAloudPanel;
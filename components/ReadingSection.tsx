@@ -0,0 +1,225 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AppSettings, WordPair, ReadingPassage, ReadingQuestion, TfngAnswer, SessionRecord, CefrLevel } from '../types';
+import { tokenizePassage, gradeReadingAnswer, TFNG_LABELS, READING_KIND_LABELS, ReadingGrade } from '../readingService';
+import { createSession, saveSession } from '../sessionService';
+import { recordSkillAnswer, READING_SKILL } from '../learnerModel';
+import { speak, stopSpeaking } from '../speechService';
+import Button from './Button';
+import SessionResults from './SessionResults';
+import { BookOpenText, Volume2, X, CheckCircle2, XCircle, Quote, RefreshCw } from 'lucide-react';
+
+const TFNG_OPTIONS = Object.keys(TFNG_LABELS) as TfngAnswer[];
+
+const questionPrompt = (q: ReadingQuestion) => q.kind === 'tfng' ? `判断：${q.question}` : q.question;
+
+const ReadingSection: React.FC<{
+  reading: ReadingPassage,
+  pairs: WordPair[],
+  level: CefrLevel,
+  onNewPassage: () => void,
+  onReset: () => void,
+  isLoading: boolean,
+  settings: AppSettings
+}> = ({ reading, pairs, level, onNewPassage, onReset, isLoading, settings }) => {
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [grades, setGrades] = useState<ReadingGrade[] | null>(null);
+  const [activeToken, setActiveToken] = useState<number | null>(null);
+  // 交卷前查看单词释义算作使用提示
+  const [lookups, setLookups] = useState(0);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [session, setSession] = useState<SessionRecord | null>(null);
+
+  const isAero = settings.theme === 'aero';
+  const paragraphs = useMemo(
+    () => reading.passage.split(/\n+/).filter(p => p.trim()).map(p => tokenizePassage(p, pairs)),
+    [reading.passage, pairs]
+  );
+
+  useEffect(() => () => stopSpeaking(), []);
+
+  const setAnswer = (index: number, value: string) => {
+    if (grades) return;
+    setAnswers(prev => {
+      const next = [...prev];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const lookUp = (key: number) => {
+    if (activeToken !== key && !grades) setLookups(n => n + 1);
+    setActiveToken(activeToken === key ? null : key);
+  };
+
+  const handleSubmit = () => {
+    const next = reading.questions.map((q, i) => gradeReadingAnswer(q, answers[i] || ''));
+    next.forEach(g => recordSkillAnswer(READING_SKILL, '阅读理解', g.correct, level));
+    setGrades(next);
+  };
+
+  const finish = () => {
+    if (!grades) return;
+    const results = reading.questions.map((q, i) => ({
+      prompt: questionPrompt(q),
+      answer: grades[i].expected,
+      userAnswer: q.kind === 'tfng' && answers[i] ? TFNG_LABELS[answers[i] as TfngAnswer] : (answers[i] || ''),
+      correct: grades[i].correct,
+      // 释义查询不对应具体题目，记在第一题上
+      hintsUsed: i === 0 ? lookups : 0
+    }));
+    const record = createSession('reading', reading.title, results, startedAt);
+    saveSession(record).catch(() => {});
+    setSession(record);
+  };
+
+  const restart = () => {
+    setAnswers([]);
+    setGrades(null);
+    setActiveToken(null);
+    setLookups(0);
+    setStartedAt(Date.now());
+    setSession(null);
+  };
+
+  if (session) {
+    return <SessionResults record={session} onContinue={restart} continueLabel="重做这篇" onExit={onReset} settings={settings} />;
+  }
+
+  const optionClass = (selected: boolean, grade?: ReadingGrade, isAnswer?: boolean) => {
+    if (grade && isAnswer) return "bg-green-100 border-[#58cc02] text-green-700";
+    if (grade && selected) return "bg-red-100 border-red-400 text-red-600";
+    if (selected) return "bg-blue-100 border-blue-400 text-blue-700";
+    return isAero ? "bg-white/60 border-white/40 hover:bg-white/80" : "bg-white border-gray-200 hover:border-blue-300";
+  };
+
+  const renderAnswerInput = (q: ReadingQuestion, index: number) => {
+    const grade = grades?.[index];
+    const given = answers[index] || '';
+    if (q.kind === 'short') {
+      return (
+        <input
+          type="text"
+          className={`w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+            grade ? (grade.correct ? "border-[#58cc02] bg-green-50" : "border-red-400 bg-red-50") : isAero ? "bg-white/70 border-white/30 text-black" : "bg-white border-gray-200 focus:border-blue-400"
+          }`}
+          placeholder="用原文中的几个单词回答"
+          value={given}
+          readOnly={!!grade}
+          onChange={(e) => setAnswer(index, e.target.value)}
+        />
+      );
+    }
+    const options = q.kind === 'tfng' ? TFNG_OPTIONS : q.options;
+    return (
+      <div className={`grid gap-2 ${q.kind === 'tfng' ? "grid-cols-3" : "grid-cols-1 md:grid-cols-2"}`}>
+        {options.map(option => (
+          <button
+            key={option}
+            onClick={() => setAnswer(index, option)}
+            disabled={!!grade}
+            className={`p-3 rounded-xl border-2 font-bold text-sm text-left transition-all ${optionClass(given === option, grade, option === q.answer)}`}
+          >
+            {q.kind === 'tfng' ? TFNG_LABELS[option as TfngAnswer] : option}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const answeredCount = reading.questions.filter((_, i) => answers[i]?.trim()).length;
+  const correctCount = grades?.filter(g => g.correct).length || 0;
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-black opacity-70 flex items-center gap-2"><BookOpenText size={20} /> 阅读理解</h2>
+        <div className="text-xs font-black px-2 py-1 rounded bg-blue-500/10 text-blue-600">难度 {level}</div>
+      </div>
+
+      <div className={`p-6 rounded-2xl space-y-3 ${isAero ? "bg-white/50" : "bg-gray-50"}`}>
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-black flex-grow">{reading.title}</h3>
+          <button onClick={() => speak(reading.passage, settings).catch(() => {})} title="朗读全文" className="p-1.5 rounded-lg opacity-50 hover:opacity-100">
+            <Volume2 size={18} />
+          </button>
+        </div>
+        {paragraphs.map((tokens, p) => (
+          <p key={p} className="text-lg leading-relaxed">
+            {tokens.map((token, t) => {
+              if (!token.pair) return <React.Fragment key={t}>{token.text}</React.Fragment>;
+              const key = p * 10000 + t;
+              const isActive = activeToken === key;
+              return (
+                <span key={t} className="relative inline-block">
+                  <button onClick={() => lookUp(key)} className="font-bold text-blue-600 bg-blue-500/10 rounded px-0.5 hover:bg-blue-500/20">
+                    {token.text}
+                  </button>
+                  {isActive && (
+                    <span className={`absolute left-0 top-full mt-1 z-10 w-56 p-3 rounded-xl shadow-lg border-2 text-sm space-y-1 animate-in fade-in duration-150 ${
+                      isAero ? "bg-white/90 border-white/60 backdrop-blur-md" : "bg-white border-gray-100"
+                    }`}>
+                      <span className="flex items-center gap-2">
+                        <span className="font-black flex-grow">{token.pair.en}</span>
+                        <button onClick={() => speak(token.pair!.en, settings).catch(() => {})} title="朗读" className="opacity-50 hover:opacity-100"><Volume2 size={14} /></button>
+                        <button onClick={() => setActiveToken(null)} title="关闭" className="opacity-50 hover:opacity-100"><X size={14} /></button>
+                      </span>
+                      {token.pair.phonetic && <span className="block text-xs opacity-60">{token.pair.phonetic}</span>}
+                      <span className="block font-bold">
+                        {token.pair.partOfSpeech && <span className="mr-1 opacity-60">{token.pair.partOfSpeech}</span>}{token.pair.cn}
+                      </span>
+                    </span>
+                  )}
+                </span>
+              );
+            })}
+          </p>
+        ))}
+        <p className="text-xs font-bold opacity-50">点击蓝色单词查看释义</p>
+      </div>
+
+      <div className="space-y-4">
+        {reading.questions.map((q, index) => {
+          const grade = grades?.[index];
+          return (
+            <div key={index} className={`p-4 rounded-2xl border-2 space-y-3 ${isAero ? "bg-white/40 border-white/30" : "border-gray-100"}`}>
+              <div className="flex gap-2 font-bold">
+                <span className="text-blue-600 shrink-0">{index + 1}.</span>
+                <span className="flex-grow">{q.question}</span>
+                <span className="text-[10px] font-black px-1.5 py-0.5 h-fit rounded bg-black/5 opacity-60 shrink-0">{READING_KIND_LABELS[q.kind]}</span>
+              </div>
+              {renderAnswerInput(q, index)}
+              {grade && (
+                <div className="space-y-1 text-sm font-bold animate-in fade-in">
+                  <div className={`flex items-center gap-1 ${grade.correct ? "text-[#58cc02]" : "text-red-500"}`}>
+                    {grade.correct ? <CheckCircle2 size={16} /> : <XCircle size={16} />} {grade.message}
+                  </div>
+                  {q.evidence && (
+                    <div className="flex gap-1 opacity-60 italic"><Quote size={14} className="shrink-0 mt-0.5" /> {q.evidence}</div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {grades ? (
+        <div className="space-y-3">
+          <div className="text-center font-black">答对 {correctCount} / {reading.questions.length}</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Button onClick={onNewPassage} variant="secondary" disabled={isLoading} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+              <RefreshCw size={18} className={isLoading ? "animate-spin" : ""} /> 换一篇
+            </Button>
+            <Button onClick={finish} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>查看成绩</Button>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={handleSubmit} disabled={answeredCount === 0} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+          提交答案（已答 {answeredCount} / {reading.questions.length}）
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ReadingSection;
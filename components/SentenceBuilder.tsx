@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { AppSettings } from '../types';
+import { OrderToken } from '../sentenceBuilder';
+
+// 点击词块放入或移出句子；也可以拖动词块，放到句中某个词块上时插在它前面
+const SentenceBuilder: React.FC<{
+  tokens: OrderToken[],
+  picked: number[],
+  onChange: (picked: number[]) => void,
+  endMark: string,
+  // 答题后锁定，并用颜色标出对错
+  result: boolean | null,
+  settings: AppSettings
+}> = ({ tokens, picked, onChange, endMark, result, settings }) => {
+  const [dragging, setDragging] = useState<number | null>(null);
+  const isAero = settings.theme === 'aero';
+  const locked = result !== null;
+
+  const textOf = (id: number) => tokens.find(t => t.id === id)?.text || '';
+  const pool = tokens.filter(t => !picked.includes(t.id));
+
+  const insertAt = (id: number, position: number) => {
+    const rest = picked.filter(p => p !== id);
+    // 在句内向后拖动时，移走自身后目标位置前移一位
+    const from = picked.indexOf(id);
+    const target = from !== -1 && from < position ? position - 1 : position;
+    onChange([...rest.slice(0, target), id, ...rest.slice(target)]);
+  };
+
+  const dropOn = (e: React.DragEvent, position: number | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragging === null || locked) return;
+    if (position === null) onChange(picked.filter(p => p !== dragging));
+    else insertAt(dragging, position);
+    setDragging(null);
+  };
+
+  const chipClass = `px-3 py-2 rounded-xl border-2 border-b-4 font-bold text-lg select-none transition-all ${
+    locked ? "cursor-default" : "cursor-grab active:cursor-grabbing"
+  } ${isAero ? "bg-white/80 border-white/60 text-black" : "bg-white border-gray-200 text-gray-700 hover:border-blue-300"}`;
+
+  const chip = (id: number, onClick: () => void, onDrop?: (e: React.DragEvent) => void) => (
+    <button
+      key={id}
+      draggable={!locked}
+      onDragStart={() => setDragging(id)}
+      onDragEnd={() => setDragging(null)}
+      onDragOver={onDrop && (e => e.preventDefault())}
+      onDrop={onDrop}
+      onClick={onClick}
+      disabled={locked}
+      className={`${chipClass} ${dragging === id ? "opacity-40" : ""}`}
+    >
+      {textOf(id)}
+    </button>
+  );
+
+  const lineColor = result === null ? (isAero ? "border-black/20" : "border-gray-200") : result ? "border-[#58cc02] bg-green-500/10" : "border-red-400 bg-red-500/10";
+
+  return (
+    <div className="space-y-6">
+      <div
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => dropOn(e, picked.length)}
+        className={`min-h-[4.5rem] p-3 rounded-2xl border-2 border-dashed flex flex-wrap items-center gap-2 transition-all ${lineColor}`}
+      >
+        {picked.map((id, position) => chip(id, () => onChange(picked.filter(p => p !== id)), e => dropOn(e, position)))}
+        {picked.length > 0 && <span className="text-2xl font-black opacity-60">{endMark}</span>}
+        {picked.length === 0 && <span className="text-sm font-bold opacity-40">点击或拖动下方的词块组成句子</span>}
+      </div>
+
+      <div
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => dropOn(e, null)}
+        className="min-h-[3.5rem] flex flex-wrap justify-center gap-2"
+      >
+        {pool.map(t => chip(t.id, () => onChange([...picked, t.id])))}
+      </div>
+    </div>
+  );
+};
+
+export default SentenceBuilder;
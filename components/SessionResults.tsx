@@ -0,0 +1,70 @@
+
+import React from 'react';
+import { AppSettings, SessionRecord } from '../types';
+import { SESSION_LABELS, summarizeSession, formatDuration } from '../sessionService';
+import Button from './Button';
+import { Trophy, Target, Clock, Lightbulb, XCircle, RotateCcw } from 'lucide-react';
+
+const SessionResults: React.FC<{
+  record: SessionRecord,
+  onContinue: () => void,
+  continueLabel: string,
+  onExit: () => void,
+  settings: AppSettings
+}> = ({ record, onContinue, continueLabel, onExit, settings }) => {
+  const isAero = settings.theme === 'aero';
+  const summary = summarizeSession(record);
+  const wrong = record.results.filter(r => !r.correct);
+
+  const stats = [
+    { icon: <Target size={18} />, label: '准确率', value: `${summary.accuracy}%` },
+    { icon: <Trophy size={18} />, label: '答对', value: `${summary.correct} / ${summary.total}` },
+    { icon: <Clock size={18} />, label: '用时', value: formatDuration(summary.durationMs) },
+    { icon: <Lightbulb size={18} />, label: '使用提示', value: `${summary.hintsUsed} 次` }
+  ];
+
+  return (
+    <div className={`p-8 space-y-6 animate-in zoom-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+      <div className="text-center space-y-1">
+        <Trophy size={48} className={`mx-auto ${summary.accuracy === 100 ? "text-yellow-500" : "text-[#58cc02]"}`} />
+        <h2 className="text-2xl font-black">{summary.accuracy === 100 ? '全对了！你太棒了！' : '练习完成！'}</h2>
+        <p className="text-sm font-bold opacity-50">{SESSION_LABELS[record.kind]} · {record.topic}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {stats.map(s => (
+          <div key={s.label} className={`p-4 rounded-2xl border-2 ${isAero ? "bg-white/50 border-white/30" : "bg-gray-50 border-gray-100"}`}>
+            <div className="text-xs font-black opacity-50 flex items-center gap-1">{s.icon} {s.label}</div>
+            <div className="text-xl font-black mt-1">{s.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {wrong.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-black opacity-60">本次答错的题目</div>
+          <div className="space-y-2 max-h-[30vh] overflow-y-auto pr-1">
+            {wrong.map((r, i) => (
+              <div key={i} className={`p-3 rounded-xl border-2 text-sm ${isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-100"}`}>
+                <p className="font-bold">{r.prompt}</p>
+                <div className="font-bold flex flex-wrap gap-x-4">
+                  <span className="text-green-600">正确: {r.answer}</span>
+                  <span className="text-red-500 flex items-center gap-1"><XCircle size={14} /> {r.userAnswer || '未作答'}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3">
+        <Button onClick={onContinue} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>{continueLabel}</Button>
+        <button onClick={onExit} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2 justify-center">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionResults;
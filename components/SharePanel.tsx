@@ -0,0 +1,77 @@
+
+import React, { useState, useEffect } from 'react';
+import { AppSettings, PracticeSet } from '../types';
+import { buildShareUrl, serializePracticeSet, practiceSetFileName, PRACTICE_SET_LABELS, MAX_SHARE_URL_LENGTH } from '../practiceSet';
+import { downloadFile } from '../worksheetExport';
+import { Link2, FileJson, CheckCircle2, XCircle, Loader2, AlertTriangle } from 'lucide-react';
+
+const SharePanel: React.FC<{
+  set: PracticeSet,
+  onClose: () => void,
+  settings: AppSettings
+}> = ({ set, onClose, settings }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const isAero = settings.theme === 'aero';
+  const tooLong = !!url && url.length > MAX_SHARE_URL_LENGTH;
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+    buildShareUrl(set)
+      .then(u => !cancelled && setUrl(u))
+      .catch(() => !cancelled && setFailed(true));
+    return () => { cancelled = true; };
+  }, [set]);
+
+  const copyLink = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      prompt('复制下面的链接：', url);
+    }
+  };
+
+  const buttonClass = `p-3 rounded-xl border-2 font-bold text-sm flex items-center justify-center gap-2 transition-all ${
+    isAero ? "bg-white/60 border-white/40 hover:bg-white/80" : "bg-white border-gray-200 hover:border-blue-400 text-gray-700"
+  }`;
+
+  return (
+    <div className={`p-5 rounded-2xl border-2 space-y-4 animate-in slide-in-from-bottom-2 duration-300 ${isAero ? "bg-white/50 border-white/50 text-black" : "bg-gray-50 border-gray-100"}`}>
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="font-black">分享这组题目</div>
+          <div className="text-xs font-bold opacity-50">{PRACTICE_SET_LABELS[set.content.kind]} · {set.title} · 对方打开时无需调用 AI</div>
+        </div>
+        <button onClick={onClose} className="opacity-40 hover:opacity-100"><XCircle size={18} /></button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={copyLink} disabled={!url} className={buttonClass}>
+          {failed ? <XCircle size={18} className="text-red-500" /> : !url ? <Loader2 size={18} className="animate-spin" /> : copied ? <CheckCircle2 size={18} className="text-green-500" /> : <Link2 size={18} />}
+          {failed ? '无法生成链接' : copied ? '已复制链接' : '复制分享链接'}
+        </button>
+        <button
+          onClick={() => downloadFile(practiceSetFileName(set), serializePracticeSet(set), 'application/json')}
+          className={`${buttonClass} ${failed || tooLong ? "!border-blue-400 text-blue-600" : ""}`}
+        >
+          <FileJson size={18} /> 下载练习包
+        </button>
+      </div>
+      {(failed || tooLong) && (
+        <div className="text-xs font-bold text-orange-600 flex items-start gap-1">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          {failed
+            ? '当前浏览器无法生成分享链接，请下载练习包发送给对方。'
+            : `题目较多，链接长达 ${url!.length} 个字符，发送时可能被截断，建议下载练习包发送给对方。`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharePanel;
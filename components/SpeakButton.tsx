@@ -0,0 +1,36 @@
+
+import React, { useState } from 'react';
+import { AppSettings } from '../types';
+import { speak, isSpeechAvailable } from '../speechService';
+import { Volume2 } from 'lucide-react';
+
+const SpeakButton: React.FC<{
+  text: string,
+  settings: AppSettings,
+  size?: number,
+  className?: string
+}> = ({ text, settings, size = 18, className = '' }) => {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  if (!isSpeechAvailable()) return null;
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsSpeaking(true);
+    await speak(text, settings).catch(() => {});
+    setIsSpeaking(false);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      title="朗读"
+      className={`shrink-0 transition-all hover:scale-110 ${isSpeaking ? "text-blue-500 animate-pulse" : "opacity-50 hover:opacity-100"} ${className}`}
+    >
+      <Volume2 size={size} />
+    </button>
+  );
+};
+
+export default SpeakButton;
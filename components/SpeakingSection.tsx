@@ -0,0 +1,42 @@
+
+import React, { useState } from 'react';
+import { AppSettings } from '../types';
+import ReadAloudPanel from './ReadAloudPanel';
+import { Mic, ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react';
+
+const SpeakingSection: React.FC<{
+  sentences: string[],
+  onBack: () => void,
+  settings: AppSettings
+}> = ({ sentences, onBack, settings }) => {
+  const [index, setIndex] = useState(0);
+  const isAero = settings.theme === 'aero';
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-300 ${isAero ? "text-black" : "bg-white rounded-3xl"}`}>
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-black opacity-70 flex items-center gap-2"><Mic size={20} /> 跟读练习</h2>
+        <div className="text-sm font-bold">{index + 1} / {sentences.length}</div>
+      </div>
+
+      <ReadAloudPanel target={sentences[index]} settings={settings} />
+
+      <div className="flex justify-between">
+        <button onClick={() => setIndex(i => i - 1)} disabled={index === 0} className="font-bold flex items-center gap-1 opacity-60 hover:opacity-100 disabled:opacity-20">
+          <ChevronLeft size={18} /> 上一句
+        </button>
+        <button onClick={() => setIndex(i => i + 1)} disabled={index >= sentences.length - 1} className="font-bold flex items-center gap-1 opacity-60 hover:opacity-100 disabled:opacity-20">
+          下一句 <ChevronRight size={18} />
+        </button>
+      </div>
+
+      <div className="flex justify-center">
+        <button onClick={onBack} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeakingSection;
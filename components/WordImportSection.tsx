@@ -0,0 +1,248 @@
+
+import React, { useState, useEffect } from 'react';
+import { AppSettings, WordList, WordPair } from '../types';
+import { ImportFormat, ImportField, ParsedTable, FORMAT_LABELS, FIELD_LABELS, detectFormat, parseImport, guessMapping, applyMapping, toWordPairs, missingTranslations, columnCount } from '../wordImport';
+import { listWordLists, saveWordList, deleteWordList } from '../wordListService';
+import { fetchWordPairs } from '../geminiService';
+import Button from './Button';
+import { FileUp, ListPlus, Trash2, RotateCcw, Loader2, Play } from 'lucide-react';
+
+const PREVIEW_ROWS = 8;
+// 每次请求翻译的单词数，整张词表放进一个提示词容易超出输出长度而被截断
+const TRANSLATE_BATCH_SIZE = 30;
+const MAX_LISTED_WORDS = 10;
+
+const WordImportSection: React.FC<{
+  onUseList: (list: WordList) => void,
+  onError: (error: any) => void,
+  onBack: () => void,
+  settings: AppSettings
+}> = ({ onUseList, onError, onBack, settings }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('txt');
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [listName, setListName] = useState('');
+  const [lists, setLists] = useState<WordList[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+
+  const isAero = settings.theme === 'aero';
+  const inputClass = `w-full p-3 rounded-xl border-2 focus:outline-none font-bold transition-all ${
+    isAero ? "bg-white/70 border-white/30 text-black placeholder-black/30" : "bg-white border-gray-100 text-gray-800"
+  }`;
+
+  const reload = async () => setLists(await listWordLists());
+
+  useEffect(() => {
+    reload().catch(() => {});
+  }, []);
+
+  const loadText = (content: string, name: string = '') => {
+    const detected = detectFormat(content, name);
+    setText(content);
+    setFileName(name);
+    setFormat(detected);
+    reparse(content, detected);
+  };
+
+  const reparse = (content: string, nextFormat: ImportFormat) => {
+    if (!content.trim()) {
+      setTable(null);
+      setMapping([]);
+      return;
+    }
+    const parsed = parseImport(content, nextFormat);
+    setTable(parsed);
+    setMapping(guessMapping(parsed));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    loadText(await file.text(), file.name);
+    if (!listName.trim()) setListName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  // 首次粘贴时自动识别格式，之后沿用当前（可能是手动选择的）格式
+  const handleTextChange = (content: string) => {
+    if (!text.trim()) return loadText(content, fileName);
+    setText(content);
+    reparse(content, format);
+  };
+
+  const changeFormat = (next: ImportFormat) => {
+    setFormat(next);
+    reparse(text, next);
+  };
+
+  // 每个字段只能对应一列，选中后其他列上的同一字段改为忽略
+  const changeMapping = (index: number, field: ImportField) => {
+    setMapping(prev => prev.map((f, i) => i === index ? field : (field !== 'ignore' && f === field ? 'ignore' : f)));
+  };
+
+  const words = table ? applyMapping(table, mapping) : [];
+  const untranslated = words.filter(w => !w.cn);
+  const canSave = words.length > 0 && !!listName.trim() && mapping.includes('en');
+
+  // 已带释义的单词不再请求 AI，只分批补全缺少释义的部分；某一批失败时跳过，全部失败才报错
+  const translateMissing = async (): Promise<WordPair[]> => {
+    const batches: string[][] = [];
+    for (let i = 0; i < untranslated.length; i += TRANSLATE_BATCH_SIZE) {
+      batches.push(untranslated.slice(i, i + TRANSLATE_BATCH_SIZE).map(w => w.en));
+    }
+    const translated: WordPair[] = [];
+    let firstError: unknown = null;
+    for (const [index, batch] of batches.entries()) {
+      setProgress({ done: index, total: batches.length });
+      try {
+        translated.push(...await fetchWordPairs(batch.join(', '), settings));
+      } catch (error) {
+        firstError = firstError ?? error;
+      }
+    }
+    if (batches.length && !translated.length) throw firstError;
+    return translated;
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      const translated = await translateMissing();
+      const pairs = toWordPairs(words, translated);
+      if (!pairs.length) throw new Error('没有可保存的单词：所有单词都缺少中文释义。');
+      const dropped = missingTranslations(words, translated);
+      if (dropped.length) {
+        const names = dropped.slice(0, MAX_LISTED_WORDS).map(w => w.en).join(', ') + (dropped.length > MAX_LISTED_WORDS ? ' 等' : '');
+        if (!confirm(`有 ${dropped.length} 个单词没能补全中文释义，不会保存：${names}。\n是否只保存其余 ${pairs.length} 个单词？`)) return;
+      }
+      const list = await saveWordList(listName, pairs, fileName || '粘贴导入');
+      await reload();
+      onUseList(list);
+    } catch (error) {
+      onError(error);
+    } finally {
+      setIsSaving(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("确定要删除这个词表吗？")) return;
+    try {
+      await deleteWordList(id);
+      await reload();
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const columns = table ? columnCount(table) : 0;
+
+  return (
+    <div className={`p-8 space-y-6 animate-in fade-in duration-500 ${isAero ? "text-black" : "bg-white rounded-3xl shadow-sm border-2 border-gray-100"}`}>
+      <h2 className={`text-xl font-extrabold flex items-center gap-2 ${isAero ? "text-black" : "text-gray-700"}`}>
+        <FileUp className="text-blue-500" /> 导入词表
+      </h2>
+      <p className={`-mt-4 text-sm ${isAero ? "text-black/70" : "text-gray-500"}`}>
+        支持 CSV / TSV 表格、每行一个单词的文本，以及 Anki 导出的 .txt 文件。已有中文释义的单词不会再请求 AI。
+      </p>
+
+      <label className={`flex items-center justify-center gap-2 p-4 rounded-2xl border-2 border-dashed font-bold cursor-pointer transition-all ${
+        isAero ? "bg-white/40 border-black/20 hover:bg-white/60" : "border-gray-300 text-gray-500 hover:border-blue-400 hover:text-blue-500"
+      }`}>
+        <FileUp size={20} /> {fileName || '选择文件 (.csv / .tsv / .txt)'}
+        <input type="file" accept=".csv,.tsv,.txt,text/plain,text/csv" className="hidden" onChange={handleFile} />
+      </label>
+
+      <textarea
+        className={`w-full h-32 p-4 rounded-2xl border-2 focus:outline-none font-mono text-sm resize-none transition-all ${
+          isAero ? "bg-white/70 border-white/50 text-black placeholder-black/40" : "bg-white border-gray-200 focus:border-[#1cb0f6]"
+        }`}
+        placeholder={"也可以直接粘贴，例如：\napple,苹果\nbanana,香蕉"}
+        value={text}
+        onChange={(e) => handleTextChange(e.target.value)}
+      />
+
+      {table && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm font-bold">
+            <span className="opacity-60">文件格式</span>
+            <select className={`${inputClass} !w-auto !p-2`} value={format} onChange={(e) => changeFormat(e.target.value as ImportFormat)}>
+              {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+            </select>
+            <span className="opacity-60">共 {table.rows.length} 行，识别出 {words.length} 个单词</span>
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border-2 border-black/5">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-black/5">
+                  {Array.from({ length: columns }, (_, i) => (
+                    <th key={i} className="p-2 text-left align-top">
+                      <select
+                        className={`${inputClass} !p-1 text-xs ${mapping[i] === 'ignore' ? "opacity-50" : ""}`}
+                        value={mapping[i] || 'ignore'}
+                        onChange={(e) => changeMapping(i, e.target.value as ImportField)}
+                      >
+                        {(Object.keys(FIELD_LABELS) as ImportField[]).map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+                      </select>
+                      {table.header?.[i] && <div className="mt-1 text-xs opacity-50 truncate">{table.header[i]}</div>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r} className="border-t border-black/5">
+                    {Array.from({ length: columns }, (_, i) => (
+                      <td key={i} className={`p-2 font-semibold max-w-[12rem] truncate ${mapping[i] === 'ignore' ? "opacity-30" : ""}`}>{row[i] || ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {table.rows.length > PREVIEW_ROWS && <p className="text-xs font-bold opacity-50 text-center">仅预览前 {PREVIEW_ROWS} 行</p>}
+          {!mapping.includes('en') && <p className="text-sm font-bold text-red-500">请至少指定一列为「英文单词」。</p>}
+          {untranslated.length > 0 && mapping.includes('en') && (
+            <p className="text-sm font-bold text-orange-500">有 {untranslated.length} 个单词缺少中文释义，保存时将由 AI 补全。</p>
+          )}
+
+          <input className={inputClass} placeholder="词表名称 (如 七年级上 Unit 3)" value={listName} onChange={(e) => setListName(e.target.value)} />
+          <Button onClick={handleSave} disabled={!canSave || isSaving} fullWidth theme={settings.theme} aeroOpacity={settings.aeroOpacity}>
+            {isSaving ? <Loader2 className="animate-spin" /> : <ListPlus size={18} />}
+            {progress && progress.total > 1 ? `正在补全释义 ${progress.done + 1} / ${progress.total}` : '保存词表并开始练习'}
+          </Button>
+        </div>
+      )}
+
+      {lists.length > 0 && (
+        <div className="space-y-2 pt-4 border-t border-dashed border-gray-300">
+          <h3 className="text-sm font-black opacity-60">已保存的词表</h3>
+          {lists.map(l => (
+            <div key={l.id} className={`p-3 rounded-2xl border-2 flex items-center gap-3 ${isAero ? "bg-white/50 border-white/30" : "bg-white border-gray-100"}`}>
+              <div className="flex-grow min-w-0">
+                <div className="font-bold truncate">{l.name}</div>
+                <div className="text-xs font-bold opacity-50 truncate">{l.words.length} 个单词 · {l.source}</div>
+              </div>
+              <button onClick={() => onUseList(l)} title="使用此词表" className="p-2 text-blue-500 hover:text-blue-700"><Play size={16} /></button>
+              <button onClick={() => handleDelete(l.id)} title="删除" className="p-2 opacity-40 hover:opacity-100 hover:text-red-500"><Trash2 size={16} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <button onClick={onBack} className="font-bold text-gray-400 hover:text-gray-600 flex items-center gap-2">
+          <RotateCcw size={18} /> 返回
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WordImportSection;
@@ -0,0 +1,57 @@
+
+import React, { useState, useMemo } from 'react';
+import { AppSettings } from '../types';
+import { WorksheetSource, buildWorksheet, renderWorksheetHtml, renderWorksheetMarkdown, renderWorksheetJson, worksheetFileName, downloadFile, printHtml } from '../worksheetExport';
+import { Printer, FileCode, FileText, FileJson, XCircle } from 'lucide-react';
+
+const WorksheetExportPanel: React.FC<{
+  source: WorksheetSource,
+  onClose: () => void,
+  settings: AppSettings
+}> = ({ source, onClose, settings }) => {
+  const [includeAnswerKey, setIncludeAnswerKey] = useState(true);
+  const isAero = settings.theme === 'aero';
+
+  // 面板打开期间选项顺序保持不变，保证各格式导出的答案一致
+  const worksheet = useMemo(() => buildWorksheet(source), [source]);
+  const options = { includeAnswerKey };
+  const count = worksheet.sections.reduce((sum, s) => sum + s.items.length, 0);
+
+  const actions = [
+    { label: '打印 / 存为 PDF', icon: <Printer size={18} />, run: () => printHtml(renderWorksheetHtml(worksheet, options)) },
+    { label: '下载 HTML', icon: <FileCode size={18} />, run: () => downloadFile(worksheetFileName(worksheet, 'html'), renderWorksheetHtml(worksheet, options), 'text/html') },
+    { label: '下载 Markdown', icon: <FileText size={18} />, run: () => downloadFile(worksheetFileName(worksheet, 'md'), renderWorksheetMarkdown(worksheet, options), 'text/markdown') },
+    { label: '下载 JSON', icon: <FileJson size={18} />, run: () => downloadFile(worksheetFileName(worksheet, 'json'), renderWorksheetJson(source, worksheet), 'application/json') }
+  ];
+
+  return (
+    <div className={`p-5 rounded-2xl border-2 space-y-4 animate-in slide-in-from-bottom-2 duration-300 ${isAero ? "bg-white/50 border-white/50 text-black" : "bg-gray-50 border-gray-100"}`}>
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="font-black">导出练习纸</div>
+          <div className="text-xs font-bold opacity-50">{worksheet.title} · 共 {count} 题</div>
+        </div>
+        <button onClick={onClose} className="opacity-40 hover:opacity-100"><XCircle size={18} /></button>
+      </div>
+      <label className="flex items-center gap-2 text-sm font-bold cursor-pointer">
+        <input type="checkbox" className="w-4 h-4 accent-[#1cb0f6]" checked={includeAnswerKey} onChange={(e) => setIncludeAnswerKey(e.target.checked)} />
+        附带答案页（单独一页）
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {actions.map(a => (
+          <button
+            key={a.label}
+            onClick={a.run}
+            className={`p-3 rounded-xl border-2 font-bold text-sm flex items-center justify-center gap-2 transition-all ${
+              isAero ? "bg-white/60 border-white/40 hover:bg-white/80" : "bg-white border-gray-200 hover:border-blue-400 text-gray-700"
+            }`}
+          >
+            {a.icon} {a.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetExportPanel;
@@ -0,0 +1,69 @@
+import { useState, useRef, useEffect } from 'react';
+import { CefrLevel } from '../types';
+import { recordSkillAnswer, adjustmentFor, shiftLevel } from '../learnerModel';
+
+// 追加的题目接在列表末尾，start 是这一段第一题的序号
+interface LevelSegment {
+  start: number;
+  level: CefrLevel;
+}
+
+// 记录每道题的作答结果更新能力分，最近几题太容易或太难时请求追加另一难度的题目
+export const useAdaptiveDifficulty = (
+  skill: string,
+  label: string,
+  level: CefrLevel,
+  total: number,
+  onFollowUp?: (level: CefrLevel, signal: AbortSignal) => Promise<number>
+) => {
+  const [segments, setSegments] = useState<LevelSegment[]>([]);
+  const [recent, setRecent] = useState<boolean[]>([]);
+  const [isPending, setIsPending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // 换一批题目后，之前发出的追加请求不再记录到新的题目列表上
+  const generation = useRef(0);
+  // 离开练习或换一批题目时中止还在生成的追加题目，避免继续消耗额度
+  const followUpRequest = useRef<AbortController | null>(null);
+
+  useEffect(() => () => followUpRequest.current?.abort(), []);
+
+  const levelAt = (index: number) => [...segments].reverse().find(s => s.start <= index)?.level || level;
+  const currentLevel = segments.length ? segments[segments.length - 1].level : level;
+
+  const record = (index: number, correct: boolean) => {
+    recordSkillAnswer(skill, label, correct, levelAt(index));
+    const window = [...recent, correct];
+    const direction = adjustmentFor(window);
+    const next = direction ? shiftLevel(currentLevel, direction) : currentLevel;
+    if (!onFollowUp || isPending || next === currentLevel) {
+      setRecent(window);
+      return;
+    }
+    setRecent([]);
+    setIsPending(true);
+    setMessage(direction > 0 ? `连续答对，正在追加 ${next} 难度的题目...` : `这几题有点难，正在追加 ${next} 难度的题目...`);
+    const start = total;
+    const requestedIn = generation.current;
+    const controller = new AbortController();
+    followUpRequest.current = controller;
+    onFollowUp(next, controller.signal)
+      .then(count => {
+        if (requestedIn !== generation.current) return;
+        if (!count) return setMessage(null);
+        setSegments(prev => [...prev, { start, level: next }]);
+        setMessage(`已在末尾追加 ${count} 道 ${next} 难度的题目`);
+      })
+      .catch(() => setMessage(null))
+      .finally(() => setIsPending(false));
+  };
+
+  const reset = () => {
+    generation.current++;
+    followUpRequest.current?.abort();
+    setSegments([]);
+    setRecent([]);
+    setMessage(null);
+  };
+
+  return { record, reset, currentLevel, isPending, message };
+};
@@ -0,0 +1,65 @@
+
+const DB_NAME = 'tonglanguage';
+const DB_VERSION = 6;
+
+export const STORES = {
+  notebook: 'notebook',
+  mistakes: 'mistakes',
+  aiCache: 'aiCache',
+  sessions: 'sessions',
+  wordLists: 'wordLists',
+  assignments: 'assignments',
+  assignmentResults: 'assignmentResults'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // 新增存储区时只需提升 DB_VERSION，已有数据不受影响
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbPut = <T>(store: StoreName, value: T): Promise<IDBValidKey> =>
+  runRequest<IDBValidKey>(store, 'readwrite', s => s.put(value));
+
+export const idbDelete = (store: StoreName, key: IDBValidKey): Promise<undefined> =>
+  runRequest<undefined>(store, 'readwrite', s => s.delete(key));
+
+export const idbClear = (store: StoreName): Promise<undefined> =>
+  runRequest<undefined>(store, 'readwrite', s => s.clear());
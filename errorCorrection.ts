@@ -0,0 +1,80 @@
+import { GrammarCorrectionQuestion } from './types';
+import { evaluateAnswer, normalizeAnswer } from './answerEvaluator';
+
+export interface CorrectionToken {
+  text: string;
+  isWord: boolean;
+}
+
+// 学习者选择“这句没有错误”时的位置
+export const NO_ERROR = -1;
+const NO_ERROR_TEXT = '没有错误';
+
+const WORD_PATTERN = /([A-Za-z]+(?:['’-][A-Za-z]+)*)/;
+
+// 单词可以点选，标点和空白原样保留
+export const correctionTokens = (sentence: string): CorrectionToken[] =>
+  sentence.split(WORD_PATTERN).filter(Boolean).map(text => ({ text, isWord: WORD_PATTERN.test(text) }));
+
+const indexesOf = (tokens: CorrectionToken[], word: string): number[] =>
+  tokens.flatMap((t, i) => t.isWord && normalizeAnswer(t.text) === normalizeAnswer(word) ? [i] : []);
+
+// 句中出现几次错误单词；校验时要求恰好一次，否则无法确定错误位置
+export const countErrorWord = (sentence: string, word: string): number => indexesOf(correctionTokens(sentence), word).length;
+
+export const errorTokenIndex = (question: GrammarCorrectionQuestion): number =>
+  question.error ? indexesOf(correctionTokens(question.sentence), question.error)[0] ?? NO_ERROR : NO_ERROR;
+
+export const correctionAnswerText = (question: GrammarCorrectionQuestion): string =>
+  question.error ? `${question.error} → ${question.correction}` : NO_ERROR_TEXT;
+
+export const correctedSentence = (question: GrammarCorrectionQuestion): string => {
+  const index = errorTokenIndex(question);
+  return correctionTokens(question.sentence).map((t, i) => i === index ? question.correction : t.text).join('');
+};
+
+export const correctionUserText = (tokens: CorrectionToken[], picked: number, fix: string): string =>
+  picked === NO_ERROR ? NO_ERROR_TEXT : `${tokens[picked]?.text || ''} → ${fix.trim() || '（未填写）'}`;
+
+export interface CorrectionGrade {
+  correct: boolean;
+  // 是否找对了错误位置（没有错误的句子要选“没有错误”）
+  locationCorrect: boolean;
+  message: string;
+  expected: string;
+}
+
+export const gradeCorrection = (question: GrammarCorrectionQuestion, picked: number, fix: string): CorrectionGrade => {
+  const tokens = correctionTokens(question.sentence);
+  const expectedIndex = errorTokenIndex(question);
+  const expected = correctionAnswerText(question);
+
+  if (expectedIndex === NO_ERROR) {
+    const correct = picked === NO_ERROR;
+    return { correct, locationCorrect: correct, message: correct ? '判断正确，这句没有错误！' : '这句其实没有错误。', expected };
+  }
+  if (picked === NO_ERROR) {
+    return { correct: false, locationCorrect: false, message: `这句有错误：${question.error} 应改为 ${question.correction}。`, expected };
+  }
+  if (picked !== expectedIndex) {
+    return { correct: false, locationCorrect: false, message: `${tokens[picked]?.text} 没有错，错误在 ${question.error}，应改为 ${question.correction}。`, expected };
+  }
+  if (normalizeAnswer(fix) === normalizeAnswer(question.error)) {
+    return { correct: false, locationCorrect: true, message: `找对了错误位置，但没有改动，应改为 ${question.correction}。`, expected };
+  }
+  const evaluation = evaluateAnswer(fix, question.correction, question.acceptedCorrections);
+  return {
+    correct: evaluation.correct,
+    locationCorrect: true,
+    message: evaluation.correct ? evaluation.message : `找对了错误位置，但改法不对。${evaluation.message}`,
+    expected
+  };
+};
+
+// 作业结果里只有 correctionUserText 生成的文字，还原成所选单词和改正后重新评分
+export const gradeCorrectionText = (question: GrammarCorrectionQuestion, text: string): boolean => {
+  if (text === NO_ERROR_TEXT) return gradeCorrection(question, NO_ERROR, '').correct;
+  const [word, fix = ''] = text.split(' → ');
+  const picked = indexesOf(correctionTokens(question.sentence), word)[0];
+  return picked !== undefined && gradeCorrection(question, picked, fix).correct;
+};
@@ -1,64 +1,189 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { WordPair, ContextQuestion, GrammarPracticeData, AppSettings } from './types';
+import { Type } from "@google/genai";
+import { WordPair, ContextQuestion, GrammarPracticeData, GrammarExplanation, AppSettings, MistakeQuestion, CefrLevel, ReadingPassage, GrammarQuestionKind } from './types';
+import { getProvider, AiProviderAdapter, AiProviderError, ProviderConfig, isAbortError } from './aiProviders';
+import { withRetry, RetryPolicy, DEFAULT_RETRY_POLICY } from './aiRetry';
+import { cacheKey, getCached, setCached, dedupe } from './aiCache';
+import { BLANK_SEPARATOR } from './answerEvaluator';
+import {
+  ValidationResult, ValidationReport, AiResponseError, parseAiJson, parsePartialExplanation, mergeResults, uniqueItems, toReport,
+  validateWordPairs, validateContextQuestions, validateFillQuestions, validateChoiceQuestions, validateOrderQuestions, validateCorrectionQuestions, validateExplanation,
+  validatePassage, validateReadingQuestions
+} from './responseValidator';
+import { generateWordPairs, generateContextQuestions, generateGrammarData, generateExplanationForError, generateReadingPassage } from './localGenerator';
 
-const cleanJsonResponse = (text: string): string => {
-  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+export interface AiCallOptions {
+  signal?: AbortSignal;
+  // 传入后改用流式请求，参数为目前为止收到的完整文本
+  onText?: (text: string) => void;
+  // 跳过缓存读取，强制重新生成（校验通过的结果仍会写入缓存）
+  forceRefresh?: boolean;
+}
+
+export type AiNotice =
+  | { type: 'retry', label: string, attempt: number, delayMs: number, reason: string }
+  | { type: 'fallback', from: string, to: string, reason: string };
+
+const noticeListeners = new Set<(notice: AiNotice) => void>();
+
+// 重试和切换备用模型都在后台自动进行，界面通过订阅获得非阻塞的提示
+export const subscribeAiNotices = (listener: (notice: AiNotice) => void) => {
+  noticeListeners.add(listener);
+  return () => {
+    noticeListeners.delete(listener);
+  };
 };
 
-const callAi = async (prompt: string, settings: AppSettings, schema?: any): Promise<string> => {
-  const apiKey = settings.customApiKey || process.env.API_KEY || '';
-  if (!apiKey) throw new Error("API Key 未配置，请在设置中填写。");
+const notify = (notice: AiNotice) => noticeListeners.forEach(listener => listener(notice));
+
+interface AiTarget {
+  provider: AiProviderAdapter;
+  config: ProviderConfig;
+  label: string;
+}
+
+// 主模型在前，备用模型按设置中的顺序排在后面；缺少必需 Key 的目标直接跳过
+const resolveTargets = (settings: AppSettings): AiTarget[] => {
+  const primary = getProvider(settings.provider);
+  // 环境变量里的是 Gemini 的 Key，不能发给其他服务商
+  const primaryKey = settings.customApiKey || (primary.id === 'gemini' ? process.env.API_KEY : '') || '';
+  const targets = [{
+    provider: primary,
+    config: { apiKey: primaryKey, baseUrl: settings.baseUrl || primary.defaultBaseUrl, model: settings.modelName || primary.defaultModel }
+  }];
+  (settings.fallbacks || []).forEach(f => {
+    const provider = getProvider(f.provider);
+    const sameProvider = provider.id === primary.id;
+    targets.push({
+      provider,
+      config: {
+        apiKey: f.apiKey || (sameProvider ? primaryKey : ''),
+        baseUrl: f.baseUrl || (sameProvider ? settings.baseUrl : '') || provider.defaultBaseUrl,
+        model: f.modelName || provider.defaultModel
+      }
+    });
+  });
+  return targets
+    .filter(t => !t.provider.requiresApiKey || t.config.apiKey)
+    .map(t => ({ ...t, label: `${t.provider.label} · ${t.config.model}` }));
+};
 
-  const isOpenAI = apiKey.startsWith('sk-');
+// read 负责解析和校验回复（不可用时抛出 AiResponseError）；只有 accept 通过的回复才写入缓存，
+// 否则截断或条目不足的回复会在缓存有效期内被反复命中
+const callAiFor = async <T>(
+  prompt: string,
+  settings: AppSettings,
+  schema: any,
+  options: AiCallOptions,
+  read: (text: string) => T,
+  accept: (value: T) => boolean
+): Promise<T> => {
+  const targets = resolveTargets(settings);
+  if (!targets.length) throw new Error("API Key 未配置，请在设置中填写。");
 
-  if (isOpenAI) {
-    const baseUrl = settings.baseUrl || 'https://api.openai.com';
-    const cleanBaseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-    const url = `${cleanBaseUrl}/v1/chat/completions`;
-    
-    const finalPrompt = schema 
-      ? `${prompt}\n\n重要：请务必返回合法的 JSON 格式数据，不要包含任何解释文字。`
-      : prompt;
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: settings.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+    timeoutMs: (settings.requestTimeoutSec || DEFAULT_RETRY_POLICY.timeoutMs / 1000) * 1000
+  };
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: settings.modelName,
-        messages: [{ role: 'user', content: finalPrompt }],
-        temperature: 0.7,
-        response_format: schema ? { type: "json_object" } : undefined
-      })
+  const sendTo = ({ provider, config, label }: AiTarget, outerSignal?: AbortSignal, onText?: (text: string) => void) => withRetry((signal, keepAlive) => {
+    const request = { prompt, schema, signal };
+    if (!onText) return provider.generate(request, config);
+    // 重试时流式文本从头开始累积
+    let text = '';
+    return provider.stream(request, config, delta => {
+      keepAlive();
+      text += delta;
+      onText(text);
     });
+  }, policy, outerSignal, ({ attempt, delayMs, error }) => notify({ type: 'retry', label, attempt, delayMs, reason: error.message }));
 
-    if (!response.ok) {
-      const err = await response.json().catch(() => ({ error: { message: `HTTP ${response.status}` } }));
-      throw new Error(err.error?.message || `请求失败: ${response.status}`);
+  // 所有目标都失败时抛出主模型的错误，便于界面判断是否需要重新填写 Key
+  const send = async (signal = options.signal, onText = options.onText): Promise<{ text: string, fromFallback: boolean }> => {
+    let firstError: unknown;
+    for (const [index, target] of targets.entries()) {
+      try {
+        return { text: await sendTo(target, signal, onText), fromFallback: index > 0 };
+      } catch (e: any) {
+        if (isAbortError(e) || !(e instanceof AiProviderError)) throw e;
+        firstError = firstError ?? e;
+        const next = targets[index + 1];
+        if (next) notify({ type: 'fallback', from: target.label, to: next.label, reason: e.message });
+      }
     }
+    throw firstError;
+  };
 
-    const result = await response.json();
-    return result.choices[0].message.content;
-  } else {
-    // Gemini 原生模式
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-      model: settings.modelName || 'gemini-3-flash-preview',
-      contents: prompt,
-      config: schema ? {
-        responseMimeType: "application/json",
-        responseSchema: schema
-      } : undefined
-    });
-    return response.text?.trim() || '';
+  if (!settings.cacheEnabled) return read((await send()).text);
+
+  const { provider, config } = targets[0];
+  // 缓存出问题只能退化为不缓存，不能让请求失败
+  let key: string;
+  try {
+    key = await cacheKey([provider.id, config.baseUrl, config.model, prompt, schema ? JSON.stringify(schema) : '']);
+  } catch {
+    return read((await send()).text);
+  }
+  if (!options.forceRefresh) {
+    const cached = await getCached(key);
+    if (cached !== null) {
+      try {
+        const value = read(cached);
+        if (accept(value)) {
+          options.onText?.(cached);
+          return value;
+        }
+      } catch {
+        // 旧版本写入的不可用回复，当作未命中重新请求
+      }
+    }
+  }
+  // 共享请求是否流式由发起它的调用方决定
+  const { text, fromFallback } = await dedupe(key, (signal, onText) => send(signal, options.onText && onText), options);
+  // 合并到非流式请求上的调用方没有收到流式片段，这里补发完整文本
+  options.onText?.(text);
+  const value = read(text);
+  // 缓存键按主模型计算，备用模型的回复不写入，免得主模型恢复后仍命中备用模型的结果
+  if (!fromFallback && accept(value)) await setCached(key, text);
+  return value;
+};
+
+const callAi = (prompt: string, settings: AppSettings, schema?: any, options: AiCallOptions = {}): Promise<string> =>
+  callAiFor(prompt, settings, schema, options, text => text, text => !!text.trim());
+
+// 列表类回复要凑够请求的条数、没有被丢弃的条目才算完整
+const isComplete = (count: number) => <T>(result: ValidationResult<T>) => result.items.length >= count && !result.discarded.length;
+
+const MAX_REFILL_ROUNDS = 2;
+
+// 有效条目不足时，按缺口数量重新请求补题，最多补 MAX_REFILL_ROUNDS 轮；按 keyOf 去掉重复的题目。
+// 补题失败时保留已有的题目，在报告中记一条丢弃原因，由调用方按实际数量继续
+const fillUpTo = async <T>(
+  initial: ValidationResult<T>,
+  count: number,
+  refill: (missing: number) => Promise<ValidationResult<T>>,
+  keyOf: (item: T) => string
+): Promise<ValidationResult<T>> => {
+  let result = uniqueItems(initial, keyOf);
+  for (let round = 0; round < MAX_REFILL_ROUNDS && result.items.length < count; round++) {
+    try {
+      result = uniqueItems(mergeResults(result, await refill(count - result.items.length)), keyOf);
+    } catch (e: any) {
+      if (isAbortError(e)) throw e;
+      result = { ...result, discarded: [...result.discarded, { index: -1, reason: `补题失败：${e?.message || '未知错误'}`, item: null }] };
+      break;
+    }
   }
+  return { ...result, items: result.items.slice(0, count) };
 };
 
-export const fetchWordPairs = async (userWords: string, settings: AppSettings): Promise<WordPair[]> => {
-  const prompt = `请将以下英文单词翻译成中文。输出要求：仅输出 JSON 数组格式，每个对象包含 'en' 和 'cn'。单词列表如下：\n ${userWords}`;
+const bySentence = <T extends { sentence: string }>(item: T) => item.sentence;
+
+export const fetchWordPairs = async (userWords: string, settings: AppSettings, onReport?: (reports: ValidationReport[]) => void): Promise<WordPair[]> => {
+  if (settings.offlineMode) return generateWordPairs(userWords);
+
+  const prompt = `请将以下英文单词翻译成中文。输出要求：仅输出 JSON 数组格式，每个对象包含 'en' 和 'cn'，以及 'phonetic' (音标)、'partOfSpeech' (词性缩写，如 n./v./adj.) 和 'example' (一个简单的英文例句)。单词列表如下：\n ${userWords}`;
   
   const schema = {
     type: Type.ARRAY,
@@ -67,59 +192,160 @@ export const fetchWordPairs = async (userWords: string, settings: AppSettings):
       properties: {
         en: { type: Type.STRING },
         cn: { type: Type.STRING },
+        phonetic: { type: Type.STRING },
+        partOfSpeech: { type: Type.STRING },
+        example: { type: Type.STRING },
       },
       required: ["en", "cn"],
     },
   };
 
-  const text = await callAi(prompt, settings, schema);
-  const jsonStr = cleanJsonResponse(text || '[]');
-  const rawPairs = JSON.parse(jsonStr);
+  const result = await callAiFor(prompt, settings, schema, {}, text => validateWordPairs(parseAiJson(text, '[]')), isComplete(1));
+  onReport?.([toReport('单词翻译', result.items.length + result.discarded.length, result)]);
+  if (!result.items.length) throw new AiResponseError('AI 没有返回可用的单词翻译，请重试。');
   
-  return rawPairs.map((p: any, i: number) => ({
+  return result.items.map((p, i) => ({
     id: `${i}-${Date.now()}`,
-    en: p.en,
-    cn: p.cn
+    ...p
   }));
 };
 
-export const fetchContextQuestions = async (userWords: string, allowInflection: boolean, count: number, settings: AppSettings): Promise<ContextQuestion[]> => {
+// 学习者模型给出的目标难度，写进出题提示
+const LEVEL_PROMPTS: Record<CefrLevel, string> = {
+  A1: 'CEFR A1，只用最常见的基础词汇和简单句，句子不超过 8 个词',
+  A2: 'CEFR A2，使用日常高频词汇，以简单句和并列句为主，句子不超过 12 个词',
+  B1: 'CEFR B1，可以使用常见的从句和短语动词，句子约 10~16 个词',
+  B2: 'CEFR B2，可以使用较抽象的词汇、复合句和多种从句，句子约 12~20 个词',
+  C1: 'CEFR C1，可以使用正式或学术词汇、复杂句式和习语'
+};
+
+export interface LevelOptions {
+  level?: CefrLevel;
+}
+
+const contextSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      sentence: { type: Type.STRING },
+      answer: { type: Type.STRING },
+      acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ["sentence", "answer"],
+  },
+};
+
+export const fetchContextQuestions = async (userWords: string, allowInflection: boolean, count: number, settings: AppSettings, onReport?: (reports: ValidationReport[]) => void, options: AiCallOptions & LevelOptions = {}): Promise<ContextQuestion[]> => {
+  if (settings.offlineMode) return generateContextQuestions(userWords, count);
+
   const inflectionText = allowInflection ? "允许" : "禁止";
-  const prompt = `请为以下单词生成 ${count} 道英文填空题，返回 JSON 数组格式。每个对象包含 'sentence' (用 _____ 代替待填词) 和 'answer' (正确的单词)。
+  const buildPrompt = (n: number) => `请为以下单词生成 ${n} 道英文填空题，返回 JSON 数组格式。每个对象包含 'sentence' (用 _____ 代替待填词)、'answer' (正确的单词) 和 'acceptedAnswers' (填入后同样正确的其他单词，如英美拼写差异，没有则为空数组)。
   要求：
-  1. 句子要简单易懂。
+  1. ${options.level ? `句子难度：${LEVEL_PROMPTS[options.level]}。` : '句子要简单易懂。'}
   2. 答案必须来自单词列表。
   3. ${inflectionText} 单词变形。
+  4. 每个句子只能有一个 _____，answer 必须是一个单词。
   单词列表：${userWords}`;
 
-  const schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        sentence: { type: Type.STRING },
-        answer: { type: Type.STRING },
-      },
-      required: ["sentence", "answer"],
+  const allowedWords = allowInflection ? undefined : userWords.split(/[\s,，、;；]+/).map(w => w.trim().toLowerCase()).filter(Boolean);
+  const request = (n: number, forceRefresh?: boolean) => callAiFor(buildPrompt(n), settings, contextSchema, { signal: options.signal, forceRefresh },
+    text => validateContextQuestions(parseAiJson(text, '[]'), allowedWords), isComplete(n));
+
+  // 补题的提示词只和数量有关，必须跳过缓存，否则会拿回同一批题
+  const result = await fillUpTo(await request(count, options.forceRefresh), count, n => request(n, true), bySentence);
+  onReport?.([toReport('语境填空', count, result)]);
+  if (!result.items.length) throw new AiResponseError('AI 没有生成可用的填空题，请重试。');
+  return result.items;
+};
+
+const fillQuestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sentence: { type: Type.STRING },
+    blanks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          hint: { type: Type.STRING },
+          answer: { type: Type.STRING },
+          acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["hint", "answer"]
+      }
     },
-  };
+  },
+  required: ["sentence", "blanks"]
+};
+
+const choiceQuestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sentence: { type: Type.STRING },
+    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+    answer: { type: Type.STRING },
+  },
+  required: ["sentence", "options", "answer"]
+};
+
+const FILL_RULES = `每个包含 sentence (挖空处用 _____ 表示，每句 1~3 个空) 和 blanks 数组。blanks 按顺序对应句中的每个 _____，每项包含 hint (括号里的原形提示)、answer (该空的正确答案) 和 acceptedAnswers (同样正确的其他写法，如 learned / learnt，没有则为空数组)。
+     【极重要要求】：blanks 的数量必须与句中 _____ 的数量完全一致！每个 answer 不超过 4 个单词。
+     为了考查完整的时态结构，answer 可以包含助动词，例如 has been doing、will have finished。`;
+
+const CHOICE_RULES = `每个包含 sentence (挖空处用 _____ 表示), options (包含正确项和干扰项的数组), answer (正确选项，必须与 options 中的某一项完全一致)。`;
 
-  const text = await callAi(prompt, settings, schema);
-  const jsonStr = cleanJsonResponse(text || '[]');
-  return JSON.parse(jsonStr) as ContextQuestion[];
+const orderQuestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sentence: { type: Type.STRING },
+    translation: { type: Type.STRING },
+    acceptedOrders: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["sentence"]
 };
 
-export const fetchGrammarData = async (grammarPoint: string, grade: string, count: number, settings: AppSettings): Promise<GrammarPracticeData> => {
+const correctionQuestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sentence: { type: Type.STRING },
+    error: { type: Type.STRING },
+    correction: { type: Type.STRING },
+    acceptedCorrections: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["sentence", "error", "correction"]
+};
+
+const CORRECTION_RULES = `每个包含 sentence (考查该语法点的英文句子，最多有一处与该语法点相关的错误，约三分之一的句子完全正确)、error (写错的那个单词，必须在句中原样出现且只出现一次；句子没有错误时为空字符串)、correction (改正后的写法，1~4 个单词，如 has gone；没有错误时为空字符串) 和 acceptedCorrections (同样正确的其他改法，没有则为空数组)。`;
+
+const ORDER_RULES = `每个包含 sentence (一个完整、正确且用到该语法点的英文句子，4~12 个单词，不含 _____)、translation (句子的中文意思) 和 acceptedOrders (用完全相同的单词和标点组成、同样正确的其他语序，如时间状语前置，没有则为空数组)。`;
+
+const levelLine = (level?: CefrLevel) => level ? `\n  学习者水平：${LEVEL_PROMPTS[level]}，例句和题目的难度按此控制。` : '';
+
+const grammarItemsPrompt = (grammarPoint: string, grade: string, level: CefrLevel | undefined, task: string, rules: string) =>
+  `你是一个专业的英语教师。请针对语法点「${grammarPoint}」（适用年级：${grade}）${task}，返回 JSON 数组，${rules}${levelLine(level)}
+  所有内容必须符合该年级的认知水平。`;
+
+export interface GrammarFetchOptions extends LevelOptions {
+  signal?: AbortSignal;
+  forceRefresh?: boolean;
+  // 讲解部分边生成边展示
+  onExplanation?: (partial: Partial<GrammarExplanation>) => void;
+}
+
+export const fetchGrammarData = async (grammarPoint: string, grade: string, count: number, settings: AppSettings, onReport?: (reports: ValidationReport[]) => void, options: GrammarFetchOptions = {}): Promise<GrammarPracticeData> => {
+  if (settings.offlineMode) return generateGrammarData(grammarPoint, grade, count);
+
   const prompt = `你是一个专业的英语教师。请针对以下语法点和年级生成学习内容。
   语法点：${grammarPoint}
-  适用年级：${grade}
+  适用年级：${grade}${levelLine(options.level)}
 
   请返回一个 JSON 对象，包含以下结构：
   1. explanation: 对象，包含 title (语法点名称), usage (详细用法解释), examples (3个例句数组), comparisons (与其他易混淆语法的对比)。
-  2. fillQuestions: ${count}个填空题对象数组。每个包含 sentence (挖空处用 _____ 表示), hint (括号里的原形提示), 和 answer。
-     【极重要要求】：挖空处对应的 answer 必须是一个且仅一个单词！
-     禁止考查多词短语。助动词（如 are/is/do/have/has/will）必须直接写在 sentence 中，而不是放在 answer 里。
-  3. choiceQuestions: ${count}个选择题对象数组，每个包含 sentence (挖空处用 _____ 表示), options (包含正确项和干扰项的数组), answer (正确选项)。
+  2. fillQuestions: ${count}个填空题对象数组。${FILL_RULES}
+  3. choiceQuestions: ${count}个选择题对象数组，${CHOICE_RULES}
+  4. orderQuestions: ${count}个连词成句题对象数组，${ORDER_RULES}
+  5. correctionQuestions: ${count}个改错题对象数组，${CORRECTION_RULES}
 
   所有内容必须符合该年级的认知水平。`;
 
@@ -136,42 +362,202 @@ export const fetchGrammarData = async (grammarPoint: string, grade: string, coun
         },
         required: ["title", "usage", "examples", "comparisons"]
       },
-      fillQuestions: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            sentence: { type: Type.STRING },
-            hint: { type: Type.STRING },
-            answer: { type: Type.STRING },
-          },
-          required: ["sentence", "hint", "answer"]
-        }
-      },
-      choiceQuestions: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            sentence: { type: Type.STRING },
-            options: { type: Type.ARRAY, items: { type: Type.STRING } },
-            answer: { type: Type.STRING },
-          },
-          required: ["sentence", "options", "answer"]
-        }
-      }
+      fillQuestions: { type: Type.ARRAY, items: fillQuestionSchema },
+      choiceQuestions: { type: Type.ARRAY, items: choiceQuestionSchema },
+      orderQuestions: { type: Type.ARRAY, items: orderQuestionSchema },
+      correctionQuestions: { type: Type.ARRAY, items: correctionQuestionSchema }
+    },
+    required: ["explanation", "fillQuestions", "choiceQuestions", "orderQuestions", "correctionQuestions"]
+  };
+
+  const { signal, onExplanation, forceRefresh, level } = options;
+  const refillPrompt = (n: number, kind: string, rules: string) => grammarItemsPrompt(grammarPoint, grade, level, `再生成 ${n} 道${kind}`, rules);
+  const initial = await callAiFor(prompt, settings, schema, {
+    signal,
+    forceRefresh,
+    onText: onExplanation && (partial => onExplanation(parsePartialExplanation(partial)))
+  }, text => {
+    const raw = parseAiJson(text, '{}') as any;
+    return {
+      explanation: validateExplanation(raw?.explanation),
+      fill: validateFillQuestions(raw?.fillQuestions),
+      choice: validateChoiceQuestions(raw?.choiceQuestions),
+      order: validateOrderQuestions(raw?.orderQuestions),
+      correction: validateCorrectionQuestions(raw?.correctionQuestions)
+    };
+  }, ({ fill, choice, order, correction }) => [fill, choice, order, correction].every(isComplete(count)));
+  const { explanation } = initial;
+
+  // 补题的提示词只和数量有关，必须跳过缓存，否则会拿回同一批题
+  const refill = <T>(kind: string, rules: string, itemSchema: any, validate: (raw: unknown) => ValidationResult<T>) => (n: number) =>
+    callAiFor(refillPrompt(n, kind, rules), settings, { type: Type.ARRAY, items: itemSchema }, { signal, forceRefresh: true },
+      text => validate(parseAiJson(text, '[]')), isComplete(n));
+
+  const fill = await fillUpTo(initial.fill, count, refill('填空题', FILL_RULES, fillQuestionSchema, validateFillQuestions), bySentence);
+  const choice = await fillUpTo(initial.choice, count, refill('选择题', CHOICE_RULES, choiceQuestionSchema, validateChoiceQuestions), bySentence);
+  const order = await fillUpTo(initial.order, count, refill('连词成句题', ORDER_RULES, orderQuestionSchema, validateOrderQuestions), bySentence);
+  const correction = await fillUpTo(initial.correction, count, refill('改错题', CORRECTION_RULES, correctionQuestionSchema, validateCorrectionQuestions), bySentence);
+
+  onReport?.([toReport('语法填空', count, fill), toReport('语法选择', count, choice), toReport('连词成句', count, order), toReport('语法改错', count, correction)]);
+  if (!fill.items.length && !choice.items.length && !order.items.length && !correction.items.length) throw new AiResponseError('AI 没有生成可用的语法练习题，请重试。');
+
+  return { explanation, fillQuestions: fill.items, choiceQuestions: choice.items, orderQuestions: order.items, correctionQuestions: correction.items };
+};
+
+export type GrammarQuestionLists = Omit<GrammarPracticeData, 'explanation'>;
+
+const EMPTY_LISTS: GrammarQuestionLists = { fillQuestions: [], choiceQuestions: [], orderQuestions: [], correctionQuestions: [] };
+
+// 练习中途按调整后的难度追加题目，只生成当前子模式的题目，不重新生成讲解
+export const fetchGrammarFollowUp = async (kind: GrammarQuestionKind, grammarPoint: string, grade: string, count: number, level: CefrLevel, settings: AppSettings, options: AiCallOptions = {}): Promise<GrammarQuestionLists> => {
+  if (settings.offlineMode) {
+    const data = generateGrammarData(grammarPoint, grade, count);
+    if (kind === 'fill') return { ...EMPTY_LISTS, fillQuestions: data.fillQuestions };
+    if (kind === 'choice') return { ...EMPTY_LISTS, choiceQuestions: data.choiceQuestions };
+    if (kind === 'order') return { ...EMPTY_LISTS, orderQuestions: data.orderQuestions };
+    return { ...EMPTY_LISTS, correctionQuestions: data.correctionQuestions };
+  }
+  const request = async (label: string, rules: string, schema: any) =>
+    parseAiJson(await callAi(grammarItemsPrompt(grammarPoint, grade, level, `生成 ${count} 道${label}`, rules), settings, { type: Type.ARRAY, items: schema }, { ...options, forceRefresh: true }), '[]');
+  const result: GrammarQuestionLists = { ...EMPTY_LISTS };
+  if (kind === 'fill') result.fillQuestions = validateFillQuestions(await request('填空题', FILL_RULES, fillQuestionSchema)).items;
+  if (kind === 'choice') result.choiceQuestions = validateChoiceQuestions(await request('选择题', CHOICE_RULES, choiceQuestionSchema)).items;
+  if (kind === 'order') result.orderQuestions = validateOrderQuestions(await request('连词成句题', ORDER_RULES, orderQuestionSchema)).items;
+  if (kind === 'correction') result.correctionQuestions = validateCorrectionQuestions(await request('改错题', CORRECTION_RULES, correctionQuestionSchema)).items;
+  if (!Object.values(result).some(list => list.length)) throw new AiResponseError('AI 没有生成可用的追加题目。');
+  return result;
+};
+
+const readingQuestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, enum: ['choice', 'tfng', 'short'] },
+    question: { type: Type.STRING },
+    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+    answer: { type: Type.STRING },
+    acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+    evidence: { type: Type.STRING },
+  },
+  required: ["kind", "question", "answer"]
+};
+
+const READING_RULES = `每个包含 kind、question、answer 和 evidence (原文中能支撑答案的那一句，原样摘录)。kind 为以下三种之一，三种题型都要有：
+     choice：选择题，另有 options (4 个选项)，answer 必须与 options 中的某一项完全一致；
+     tfng：判断题，question 是一个陈述句，answer 只能是 true / false / not_given，not_given 表示原文没有提到，此时 evidence 为空字符串；
+     short：简答题，answer 是原文中的 1~6 个单词，acceptedAnswers 为同样正确的其他说法 (没有则为空数组)。`;
+
+// 用单词表里的词写一篇分级短文，再围绕短文出阅读理解题
+export const fetchReadingPassage = async (userWords: string, count: number, settings: AppSettings, onReport?: (reports: ValidationReport[]) => void, options: AiCallOptions & LevelOptions = {}): Promise<ReadingPassage> => {
+  if (settings.offlineMode) return generateReadingPassage(userWords, count);
+
+  const prompt = `你是一个专业的英语教师。请用下面单词列表中的所有单词写一篇 120~200 词的英文短文，并出 ${count} 道阅读理解题。
+  单词列表：${userWords}${levelLine(options.level)}
+
+  请返回一个 JSON 对象，包含：
+  1. title：短文的英文标题。
+  2. passage：短文正文，段落之间用换行分隔。单词可以有词形变化，但必须自然地出现在文中。
+  3. questions：${count} 道题目的数组，题目顺序与短文内容顺序一致。${READING_RULES}`;
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      passage: { type: Type.STRING },
+      questions: { type: Type.ARRAY, items: readingQuestionSchema }
     },
-    required: ["explanation", "fillQuestions", "choiceQuestions"]
+    required: ["title", "passage", "questions"]
   };
 
-  const text = await callAi(prompt, settings, schema);
-  const jsonStr = cleanJsonResponse(text || '{}');
-  return JSON.parse(jsonStr) as GrammarPracticeData;
+  const initial = await callAiFor(prompt, settings, schema, { signal: options.signal, forceRefresh: options.forceRefresh }, text => {
+    const raw = parseAiJson(text, '{}') as any;
+    return { ...validatePassage(raw), questions: validateReadingQuestions(raw?.questions) };
+  }, ({ questions }) => isComplete(count)(questions));
+  const { title, passage } = initial;
+
+  // 补题时附上原文，保证新题目仍然针对同一篇短文；补题结果不读缓存
+  const refill = (n: number) => callAiFor(
+    `你是一个专业的英语教师。请针对下面这篇短文再出 ${n} 道阅读理解题，返回 JSON 数组，${READING_RULES}\n\n${passage}`,
+    settings, { type: Type.ARRAY, items: readingQuestionSchema }, { signal: options.signal, forceRefresh: true },
+    text => validateReadingQuestions(parseAiJson(text, '[]')), isComplete(n)
+  );
+  const questions = await fillUpTo(initial.questions, count, refill, q => q.question);
+
+  onReport?.([toReport('阅读理解', count, questions)]);
+  if (!questions.items.length) throw new AiResponseError('AI 没有生成可用的阅读理解题，请重试。');
+  return { title, passage, questions: questions.items };
+};
+
+export interface ReplacementTopic {
+  grammarPoint: string;
+  grade: string;
+}
+
+const firstValid = <T>(result: ValidationResult<T>): T => {
+  if (!result.items.length) throw new AiResponseError(`AI 生成的新题目不可用${result.discarded[0] ? `（${result.discarded[0].reason}）` : ''}，请重试。`);
+  return result.items[0];
+};
+
+// 编辑题目时单独重新生成一道：语境填空沿用原题的答案单词，语法题沿用原来的语法点和年级
+export const fetchReplacementQuestion = async (target: MistakeQuestion, topic: ReplacementTopic, settings: AppSettings, options: AiCallOptions = {}): Promise<MistakeQuestion> => {
+  const old = target.question.sentence;
+
+  if (settings.offlineMode) {
+    const grammar = () => generateGrammarData(topic.grammarPoint, topic.grade, 10);
+    const candidates: MistakeQuestion[] = target.kind === 'context'
+      ? generateContextQuestions(target.question.answer, 10).map(question => ({ kind: 'context', question }))
+      : target.kind === 'grammar_fill' ? grammar().fillQuestions.map(question => ({ kind: 'grammar_fill', question }))
+      : target.kind === 'grammar_order' ? grammar().orderQuestions.map(question => ({ kind: 'grammar_order', question }))
+      : target.kind === 'grammar_correction' ? grammar().correctionQuestions.map(question => ({ kind: 'grammar_correction', question }))
+      : grammar().choiceQuestions.map(question => ({ kind: 'grammar_choice', question }));
+    const replacement = candidates.find(c => c.question.sentence !== old);
+    if (!replacement) throw new AiResponseError('离线题库中没有可以替换的题目。');
+    return replacement;
+  }
+
+  const call = async (prompt: string, schema: any) =>
+    parseAiJson(await callAi(`${prompt}\n  新题目不能与这道题相同或相近：${old}`, settings, { type: Type.ARRAY, items: schema }, { ...options, forceRefresh: true }), '[]');
+
+  if (target.kind === 'context') {
+    const word = target.question.answer;
+    const prompt = `请用单词 "${word}" 生成 1 道英文填空题，返回只含一个对象的 JSON 数组。对象包含 'sentence' (用 _____ 代替待填词)、'answer' 和 'acceptedAnswers' (没有则为空数组)。
+  要求：句子简单易懂，只能有一个 _____，${settings.allowInflection ? '允许' : '禁止'}单词变形。`;
+    const allowedWords = settings.allowInflection ? undefined : [word.toLowerCase()];
+    return { kind: 'context', question: firstValid(validateContextQuestions(await call(prompt, contextSchema.items), allowedWords)) };
+  }
+
+  const header = `你是一个专业的英语教师。请针对语法点「${topic.grammarPoint}」（适用年级：${topic.grade}）生成 1 道`;
+  if (target.kind === 'grammar_fill') {
+    const raw = await call(`${header}填空题，返回只含一个对象的 JSON 数组，${FILL_RULES}`, fillQuestionSchema);
+    return { kind: 'grammar_fill', question: firstValid(validateFillQuestions(raw)) };
+  }
+  if (target.kind === 'grammar_order') {
+    const raw = await call(`${header}连词成句题，返回只含一个对象的 JSON 数组，${ORDER_RULES}`, orderQuestionSchema);
+    return { kind: 'grammar_order', question: firstValid(validateOrderQuestions(raw)) };
+  }
+  if (target.kind === 'grammar_correction') {
+    const raw = await call(`${header}改错题，返回只含一个对象的 JSON 数组，${CORRECTION_RULES}`, correctionQuestionSchema);
+    return { kind: 'grammar_correction', question: firstValid(validateCorrectionQuestions(raw)) };
+  }
+  const raw = await call(`${header}选择题，返回只含一个对象的 JSON 数组，${CHOICE_RULES}`, choiceQuestionSchema);
+  return { kind: 'grammar_choice', question: firstValid(validateChoiceQuestions(raw)) };
 };
 
-export const fetchExplanationForError = async (sentence: string, correctAnswer: string, userAnswer: string, settings: AppSettings): Promise<string> => {
+// 多空题的答案用 " / " 连接，依次填回各个空格
+const fillBlanksForPrompt = (sentence: string, correctAnswer: string): string => {
+  const parts = correctAnswer.split(BLANK_SEPARATOR);
+  let index = 0;
+  return sentence.replace(/_____/g, () => `[${parts[Math.min(index++, parts.length - 1)]}]`);
+};
+
+export const fetchExplanationForError = async (sentence: string, correctAnswer: string, userAnswer: string, settings: AppSettings, options: AiCallOptions = {}): Promise<string> => {
+  if (settings.offlineMode) {
+    const text = generateExplanationForError(sentence, correctAnswer, userAnswer);
+    options.onText?.(text);
+    return text;
+  }
+
   const prompt = `你是一个专业的英语私人教师。用户在练习中做错了一道题。
-  句子背景: "${sentence.replace('_____', '[' + correctAnswer + ']')}"
+  句子背景: "${fillBlanksForPrompt(sentence, correctAnswer)}"
   正确答案: "${correctAnswer}"
   用户的错误答案: "${userAnswer}"
 
@@ -186,5 +572,5 @@ export const fetchExplanationForError = async (sentence: string, correctAnswer:
   - 语言简练，直击痛点。
   - 控制在 150 字左右。`;
 
-  return await callAi(prompt, settings);
+  return await callAi(prompt, settings, undefined, options);
 };
@@ -0,0 +1,225 @@
+import { CurriculumNode, CurriculumStage } from './types';
+
+export const STAGE_LABELS: Record<CurriculumStage, string> = {
+  grade7: '七年级',
+  grade8: '八年级',
+  grade9: '九年级',
+  senior: '高中'
+};
+
+// 按教学顺序排列，前置知识点总是排在后续知识点之前
+export const CURRICULUM: CurriculumNode[] = [
+  {
+    id: 'be-verb', name: 'be 动词', english: 'The verb be', aliases: ['be动词', 'am is are', 'verb to be'],
+    stage: 'grade7', level: 'A1', prerequisites: [],
+    description: 'am / is / are 与主语的搭配，以及含 be 动词的否定句和一般疑问句。'
+  },
+  {
+    id: 'nouns', name: '名词的单复数', english: 'Plural nouns', aliases: ['名词复数', '可数名词与不可数名词', 'plural nouns', 'countable nouns'],
+    stage: 'grade7', level: 'A1', prerequisites: [],
+    description: '规则与不规则复数变化，可数名词和不可数名词的区分及常用量词。'
+  },
+  {
+    id: 'pronouns', name: '人称代词和物主代词', english: 'Personal and possessive pronouns', aliases: ['人称代词', '物主代词', '代词', 'pronouns'],
+    stage: 'grade7', level: 'A1', prerequisites: [],
+    description: '主格、宾格、形容词性和名词性物主代词的用法与区别。'
+  },
+  {
+    id: 'present-simple', name: '一般现在时', english: 'Present simple', aliases: ['一般现在', 'simple present', 'present simple'],
+    stage: 'grade7', level: 'A1', prerequisites: ['be-verb'],
+    description: '表示习惯、经常性动作和客观事实，重点是第三人称单数动词加 -s / -es 以及 do / does 构成的否定和疑问。'
+  },
+  {
+    id: 'there-be', name: 'There be 句型', english: 'There is / There are', aliases: ['there be', 'there is', 'there are'],
+    stage: 'grade7', level: 'A1', prerequisites: ['be-verb', 'nouns'],
+    description: '表示某处存在某物，be 动词与后面最近的名词在数上保持一致（就近原则）。'
+  },
+  {
+    id: 'imperatives', name: '祈使句', english: 'Imperatives', aliases: ['imperative', 'imperatives'],
+    stage: 'grade7', level: 'A1', prerequisites: [],
+    description: '用动词原形开头表示命令、请求或建议，否定形式用 Don\'t，Let\'s 表示提议。'
+  },
+  {
+    id: 'can', name: '情态动词 can', english: 'Modal verb can', aliases: ['can', 'can 的用法', 'could'],
+    stage: 'grade7', level: 'A1', prerequisites: ['present-simple'],
+    description: 'can 表示能力和许可，后接动词原形，否定为 can\'t，疑问句把 can 提前。'
+  },
+  {
+    id: 'prepositions', name: '时间和地点介词', english: 'Prepositions of time and place', aliases: ['介词', 'in on at', 'prepositions'],
+    stage: 'grade7', level: 'A1', prerequisites: [],
+    description: 'in / on / at 表示时间和地点的区别，以及 next to、behind、between 等方位介词。'
+  },
+  {
+    id: 'present-continuous', name: '现在进行时', english: 'Present continuous', aliases: ['现在进行', 'present progressive', 'present continuous'],
+    stage: 'grade7', level: 'A1', prerequisites: ['present-simple'],
+    description: 'am / is / are + doing 表示此刻正在进行的动作，与一般现在时的区别，动词 -ing 形式的变化规则。'
+  },
+  {
+    id: 'past-simple', name: '一般过去时', english: 'Past simple', aliases: ['一般过去', 'simple past', 'past simple'],
+    stage: 'grade7', level: 'A2', prerequisites: ['present-simple'],
+    description: '表示过去发生的动作或状态，规则动词加 -ed 和常见不规则动词，did 构成的否定和疑问。'
+  },
+  {
+    id: 'future-simple', name: '一般将来时', english: 'Future simple', aliases: ['一般将来', 'will', 'be going to', 'simple future', 'future simple'],
+    stage: 'grade8', level: 'A2', prerequisites: ['present-simple'],
+    description: 'will 和 be going to 表示将来，二者在预测、打算和临时决定上的区别。'
+  },
+  {
+    id: 'comparatives', name: '形容词和副词的比较级与最高级', english: 'Comparatives and superlatives', aliases: ['比较级', '最高级', '比较级和最高级', 'comparatives', 'superlatives'],
+    stage: 'grade8', level: 'A2', prerequisites: [],
+    description: '比较级和最高级的构成规则与不规则变化，than、the + 最高级、as...as 等句型。'
+  },
+  {
+    id: 'modals', name: '情态动词', english: 'Modal verbs', aliases: ['must', 'should', 'may', 'have to', 'modal verbs'],
+    stage: 'grade8', level: 'A2', prerequisites: ['can'],
+    description: 'must、have to、should、may、might 表示义务、建议和推测，mustn\'t 与 don\'t have to 的区别。'
+  },
+  {
+    id: 'past-continuous', name: '过去进行时', english: 'Past continuous', aliases: ['过去进行', 'past progressive', 'past continuous'],
+    stage: 'grade8', level: 'A2', prerequisites: ['past-simple', 'present-continuous'],
+    description: 'was / were + doing 表示过去某一时刻正在进行的动作，常与 when / while 连用。'
+  },
+  {
+    id: 'infinitives', name: '动词不定式', english: 'Infinitives', aliases: ['不定式', 'to do', 'infinitive'],
+    stage: 'grade8', level: 'A2', prerequisites: ['present-simple'],
+    description: 'want / decide / hope 等动词后接 to do，不定式作目的状语，以及 too...to、enough to 句型。'
+  },
+  {
+    id: 'present-perfect', name: '现在完成时', english: 'Present perfect', aliases: ['现在完成', 'present perfect'],
+    stage: 'grade8', level: 'A2', prerequisites: ['past-simple'],
+    description: 'have / has + 过去分词表示过去的动作对现在的影响或持续到现在的状态，for / since 的用法及与一般过去时的区别。'
+  },
+  {
+    id: 'tag-questions', name: '反意疑问句', english: 'Tag questions', aliases: ['反义疑问句', 'tag questions', 'question tags'],
+    stage: 'grade8', level: 'A2', prerequisites: ['present-simple', 'past-simple'],
+    description: '前肯后否、前否后肯，附加问句的助动词和代词要与陈述部分一致。'
+  },
+  {
+    id: 'adverbial-clauses', name: '状语从句', english: 'Adverbial clauses', aliases: ['时间状语从句', '条件状语从句', '原因状语从句', 'adverbial clauses'],
+    stage: 'grade8', level: 'B1', prerequisites: ['future-simple', 'past-continuous'],
+    description: 'when、if、because、although 等引导的状语从句，主将从现原则。'
+  },
+  {
+    id: 'object-clauses', name: '宾语从句', english: 'Object clauses', aliases: ['宾语从句', 'object clauses'],
+    stage: 'grade9', level: 'B1', prerequisites: ['present-simple', 'past-simple'],
+    description: 'that、if / whether 和疑问词引导的宾语从句，陈述语序和时态呼应。'
+  },
+  {
+    id: 'passive-voice', name: '被动语态', english: 'Passive voice', aliases: ['被动', 'passive', 'passive voice'],
+    stage: 'grade9', level: 'B1', prerequisites: ['present-simple', 'past-simple', 'present-perfect'],
+    description: 'be + 过去分词，一般现在时、一般过去时、将来时和含情态动词的被动语态，by 短语的使用。'
+  },
+  {
+    id: 'attributive-clauses', name: '定语从句', english: 'Relative clauses', aliases: ['定语从句', 'relative clauses', 'attributive clauses'],
+    stage: 'grade9', level: 'B1', prerequisites: ['pronouns', 'present-simple'],
+    description: 'who、which、that、whose 引导的定语从句，关系代词在从句中作主语和宾语的区别。'
+  },
+  {
+    id: 'gerunds', name: '动名词', english: 'Gerunds', aliases: ['doing', 'gerund', 'gerunds'],
+    stage: 'grade9', level: 'B1', prerequisites: ['infinitives'],
+    description: 'enjoy / finish / mind 等动词后接 doing，介词后接动名词，stop / remember / forget 接 to do 与 doing 的区别。'
+  },
+  {
+    id: 'past-perfect', name: '过去完成时', english: 'Past perfect', aliases: ['过去完成', 'past perfect'],
+    stage: 'grade9', level: 'B1', prerequisites: ['present-perfect', 'past-simple'],
+    description: 'had + 过去分词表示“过去的过去”，常见于 by the time、before、after 引导的句子。'
+  },
+  {
+    id: 'reported-speech', name: '直接引语和间接引语', english: 'Reported speech', aliases: ['间接引语', '直接引语', 'reported speech', 'indirect speech'],
+    stage: 'grade9', level: 'B1', prerequisites: ['object-clauses', 'past-perfect'],
+    description: '直接引语变间接引语时人称、时态、时间和地点状语的变化。'
+  },
+  {
+    id: 'exclamations', name: '感叹句', english: 'Exclamations', aliases: ['what 感叹句', 'how 感叹句', 'exclamations'],
+    stage: 'grade9', level: 'A2', prerequisites: ['nouns'],
+    description: 'What + 名词短语和 How + 形容词 / 副词两种感叹句的结构与选择。'
+  },
+  {
+    id: 'present-perfect-continuous', name: '现在完成进行时', english: 'Present perfect continuous', aliases: ['现在完成进行', 'present perfect continuous', 'present perfect progressive'],
+    stage: 'senior', level: 'B2', prerequisites: ['present-perfect', 'present-continuous'],
+    description: 'have / has been doing 强调动作从过去持续到现在并可能继续，与现在完成时的区别。'
+  },
+  {
+    id: 'future-forms', name: '将来进行时和将来完成时', english: 'Future continuous and future perfect', aliases: ['将来进行时', '将来完成时', 'future continuous', 'future perfect'],
+    stage: 'senior', level: 'B2', prerequisites: ['future-simple', 'present-perfect'],
+    description: 'will be doing 表示将来某时正在进行，will have done 表示到将来某时已经完成。'
+  },
+  {
+    id: 'non-finite', name: '非谓语动词', english: 'Non-finite verbs', aliases: ['非谓语', '分词作状语', 'non-finite verbs', 'participles'],
+    stage: 'senior', level: 'B2', prerequisites: ['infinitives', 'gerunds', 'passive-voice'],
+    description: '不定式、动名词、现在分词和过去分词作主语、宾语、定语和状语，逻辑主语与主被动关系的判断。'
+  },
+  {
+    id: 'noun-clauses', name: '名词性从句', english: 'Noun clauses', aliases: ['主语从句', '表语从句', '同位语从句', 'noun clauses'],
+    stage: 'senior', level: 'B2', prerequisites: ['object-clauses'],
+    description: '主语从句、表语从句和同位语从句，that 与 what、whether 与 if 的选择。'
+  },
+  {
+    id: 'advanced-relative-clauses', name: '介词 + 关系代词与非限制性定语从句', english: 'Advanced relative clauses', aliases: ['非限制性定语从句', '介词加关系代词', 'non-defining relative clauses'],
+    stage: 'senior', level: 'B2', prerequisites: ['attributive-clauses'],
+    description: 'in which、of whom 等介词 + 关系代词结构，which 指代整句的非限制性定语从句，when / where / why 的用法。'
+  },
+  {
+    id: 'modal-perfect', name: '情态动词 + have done', english: 'Modal perfect', aliases: ['情态动词完成式', 'must have done', 'should have done', 'modal perfect'],
+    stage: 'senior', level: 'B2', prerequisites: ['modals', 'present-perfect'],
+    description: 'must / can\'t / might have done 表示对过去的推测，should have done 表示过去该做而没做。'
+  },
+  {
+    id: 'subjunctive', name: '虚拟语气', english: 'Subjunctive mood', aliases: ['虚拟条件句', 'subjunctive', 'second conditional', 'third conditional'],
+    stage: 'senior', level: 'B2', prerequisites: ['adverbial-clauses', 'past-perfect'],
+    description: '与现在、过去和将来事实相反的条件句，wish、as if、it\'s time 后的虚拟语气。'
+  },
+  {
+    id: 'inversion', name: '倒装句', english: 'Inversion', aliases: ['倒装', 'inversion'],
+    stage: 'senior', level: 'B2', prerequisites: ['present-perfect', 'adverbial-clauses'],
+    description: '否定词、only、so / neither 开头的部分倒装，以及地点状语开头的完全倒装。'
+  },
+  {
+    id: 'emphatic', name: '强调句', english: 'Cleft sentences', aliases: ['强调句型', 'it is...that', 'cleft sentences'],
+    stage: 'senior', level: 'B2', prerequisites: ['attributive-clauses'],
+    description: 'It is / was ... that / who ... 强调句的结构，与定语从句和主语从句的辨别。'
+  }
+];
+
+export const getCurriculumNode = (id: string): CurriculumNode | undefined => CURRICULUM.find(n => n.id === id);
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s()（）\-_,，.。、/]+/g, '');
+
+// 先找完全一致的名称，再找输入中包含的最长别名，例如 “现在完成时 (Present Perfect)”
+export const findCurriculumNode = (text: string): CurriculumNode | undefined => {
+  const input = normalize(text);
+  if (!input) return undefined;
+  const names = (n: CurriculumNode) => [n.name, n.english, ...n.aliases].map(normalize).filter(Boolean);
+  const exact = CURRICULUM.find(n => names(n).includes(input));
+  if (exact) return exact;
+  let best: { node: CurriculumNode, length: number } | undefined;
+  CURRICULUM.forEach(node => names(node).forEach(name => {
+    if (input.includes(name) && (!best || name.length > best.length)) best = { node, length: name.length };
+  }));
+  return best?.node;
+};
+
+// 不在大纲里的自定义语法点保留原样
+export const canonicalGrammarPoint = (text: string): string => findCurriculumNode(text)?.name || text.trim();
+
+export type NodeStatus = 'new' | 'learning' | 'mastered';
+
+export interface NodeMastery {
+  status: NodeStatus;
+  // 0~100
+  progress: number;
+  attempts: number;
+}
+
+export const missingPrerequisites = (node: CurriculumNode, mastery: Record<string, NodeMastery>): CurriculumNode[] =>
+  node.prerequisites
+    .filter(id => mastery[id]?.status !== 'mastered')
+    .map(id => getCurriculumNode(id))
+    .filter((n): n is CurriculumNode => !!n);
+
+// 优先继续正在学的知识点，其次是前置知识都已掌握的新知识点，都按大纲顺序
+export const recommendNext = (mastery: Record<string, NodeMastery>): CurriculumNode | undefined => {
+  const open = CURRICULUM.filter(n => mastery[n.id]?.status !== 'mastered');
+  const ready = open.filter(n => !missingPrerequisites(n, mastery).length);
+  return ready.find(n => mastery[n.id]?.status === 'learning') || ready[0] || open[0];
+};
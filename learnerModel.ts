@@ -0,0 +1,96 @@
+import { CefrLevel, SkillRating } from './types';
+import { CURRICULUM, NodeMastery, canonicalGrammarPoint } from './grammarCurriculum';
+
+const STORAGE_KEY = 'lingo_learner';
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1'];
+
+// 每个级别题目的难度分，相邻级别相差 150 分
+const LEVEL_RATING: Record<CefrLevel, number> = { A1: 1000, A2: 1150, B1: 1300, B2: 1450, C1: 1600 };
+const INITIAL_RATING = LEVEL_RATING.B1;
+// 题目难度比能力分低 150 分时，预期正确率约 70%
+const TARGET_MARGIN = 150;
+
+// 最近几题的正确率越过阈值时，追加更难或更简单的题目
+export const ADJUST_WINDOW = 4;
+const HARDER_ACCURACY = 0.85;
+const EASIER_ACCURACY = 0.4;
+
+// 至少答过这么多题，且对该知识点级别的题目预期正确率达到要求，才算掌握
+const MASTERY_ATTEMPTS = 10;
+const MASTERY_ACCURACY = 0.8;
+
+export const VOCABULARY_SKILL = 'vocabulary';
+export const READING_SKILL = 'reading';
+
+// 大纲中的语法点统一使用规范名称，AI 讲解标题的写法不同也记在同一项能力上
+export const grammarSkill = (point: string) => `grammar:${canonicalGrammarPoint(point).toLowerCase()}`;
+
+const loadRatings = (): Record<string, SkillRating> => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return {};
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return {};
+  }
+};
+
+const saveRatings = (ratings: Record<string, SkillRating>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ratings));
+};
+
+export const getSkillRating = (skill: string, label: string = skill): SkillRating =>
+  loadRatings()[skill] || { skill, label, rating: INITIAL_RATING, attempts: 0, updatedAt: 0 };
+
+export const listSkillRatings = (): SkillRating[] =>
+  Object.values(loadRatings()).sort((a, b) => b.updatedAt - a.updatedAt);
+
+const expectedScore = (rating: number, difficulty: number) => 1 / (1 + Math.pow(10, (difficulty - rating) / 400));
+
+// 前几十题调整幅度大，之后逐渐稳定
+const kFactor = (attempts: number) => Math.max(16, 48 - attempts);
+
+export const updateRating = (current: SkillRating, correct: boolean, itemLevel: CefrLevel, now: number = Date.now()): SkillRating => ({
+  ...current,
+  rating: Math.round(current.rating + kFactor(current.attempts) * ((correct ? 1 : 0) - expectedScore(current.rating, LEVEL_RATING[itemLevel]))),
+  attempts: current.attempts + 1,
+  updatedAt: now
+});
+
+// itemLevel 是生成这道题时要求的难度级别
+export const recordSkillAnswer = (skill: string, label: string, correct: boolean, itemLevel: CefrLevel, now: number = Date.now()): SkillRating => {
+  const ratings = loadRatings();
+  const next = updateRating({ ...(ratings[skill] || getSkillRating(skill)), label }, correct, itemLevel, now);
+  ratings[skill] = next;
+  saveRatings(ratings);
+  return next;
+};
+
+export const levelOfRating = (rating: number): CefrLevel =>
+  CEFR_LEVELS.reduce((best, level) => Math.abs(LEVEL_RATING[level] - rating) < Math.abs(LEVEL_RATING[best] - rating) ? level : best);
+
+// 出题难度略低于当前能力，保持大部分题目能答对
+export const targetLevel = (skill: string): CefrLevel => levelOfRating(getSkillRating(skill).rating - TARGET_MARGIN);
+
+export const shiftLevel = (level: CefrLevel, direction: 1 | -1): CefrLevel =>
+  CEFR_LEVELS[Math.min(CEFR_LEVELS.length - 1, Math.max(0, CEFR_LEVELS.indexOf(level) + direction))];
+
+export const adjustmentFor = (recent: boolean[]): 1 | -1 | 0 => {
+  if (recent.length < ADJUST_WINDOW) return 0;
+  const accuracy = recent.slice(-ADJUST_WINDOW).filter(Boolean).length / ADJUST_WINDOW;
+  if (accuracy >= HARDER_ACCURACY) return 1;
+  if (accuracy <= EASIER_ACCURACY) return -1;
+  return 0;
+};
+
+export const curriculumMastery = (): Record<string, NodeMastery> => {
+  const ratings = loadRatings();
+  return Object.fromEntries(CURRICULUM.map(node => {
+    const rating = ratings[grammarSkill(node.name)];
+    if (!rating?.attempts) return [node.id, { status: 'new', progress: 0, attempts: 0 }];
+    const accuracy = expectedScore(rating.rating, LEVEL_RATING[node.level]);
+    const progress = Math.round(Math.min(1, rating.attempts / MASTERY_ATTEMPTS) * Math.min(1, accuracy / MASTERY_ACCURACY) * 100);
+    return [node.id, { status: progress >= 100 ? 'mastered' : 'learning', progress, attempts: rating.attempts }];
+  }));
+};
@@ -0,0 +1,179 @@
+
+import { LocalContentPack, LocalVerb } from './types';
+
+const verb = (base: string, third: string, past: string, pp: string, ing: string): LocalVerb => ({ base, third, past, pp, ing });
+
+// 内置离线题库。新增内容包可以通过 registerContentPack 合并进来
+export const BUILTIN_PACK: LocalContentPack = {
+  id: 'builtin',
+  words: [
+    { en: 'apple', cn: '苹果', phonetic: '/ˈæpl/', partOfSpeech: 'n.', sentences: ['I eat an apple every morning.', 'The apple on the table is red.'] },
+    { en: 'banana', cn: '香蕉', phonetic: '/bəˈnɑːnə/', partOfSpeech: 'n.', sentences: ['Monkeys like to eat a banana.', 'She put a banana in her lunch box.'] },
+    { en: 'water', cn: '水', phonetic: '/ˈwɔːtə(r)/', partOfSpeech: 'n.', sentences: ['Please give me a glass of water.', 'Fish live in water.'] },
+    { en: 'computer', cn: '电脑', phonetic: '/kəmˈpjuːtə(r)/', partOfSpeech: 'n.', sentences: ['My father works on his computer all day.', 'We have a new computer at home.'] },
+    { en: 'book', cn: '书', phonetic: '/bʊk/', partOfSpeech: 'n.', sentences: ['This book is very interesting.', 'I borrowed a book from the library.'] },
+    { en: 'school', cn: '学校', phonetic: '/skuːl/', partOfSpeech: 'n.', sentences: ['I go to school by bus.', 'Our school has a big playground.'] },
+    { en: 'teacher', cn: '老师', phonetic: '/ˈtiːtʃə(r)/', partOfSpeech: 'n.', sentences: ['Our English teacher is very kind.', 'The teacher asked us a question.'] },
+    { en: 'friend', cn: '朋友', phonetic: '/frend/', partOfSpeech: 'n.', sentences: ['Lily is my best friend.', 'I played games with my friend yesterday.'] },
+    { en: 'family', cn: '家庭；家人', phonetic: '/ˈfæməli/', partOfSpeech: 'n.', sentences: ['There are four people in my family.', 'My family often goes hiking on Sundays.'] },
+    { en: 'city', cn: '城市', phonetic: '/ˈsɪti/', partOfSpeech: 'n.', sentences: ['Beijing is a big city.', 'I live in a small city near the sea.'] },
+    { en: 'weather', cn: '天气', phonetic: '/ˈweðə(r)/', partOfSpeech: 'n.', sentences: ['The weather is sunny today.', 'What is the weather like in your hometown?'] },
+    { en: 'music', cn: '音乐', phonetic: '/ˈmjuːzɪk/', partOfSpeech: 'n.', sentences: ['I like listening to music.', 'The music at the party was loud.'] },
+    { en: 'library', cn: '图书馆', phonetic: '/ˈlaɪbrəri/', partOfSpeech: 'n.', sentences: ['We read books in the library.', 'The library opens at eight.'] },
+    { en: 'breakfast', cn: '早餐', phonetic: '/ˈbrekfəst/', partOfSpeech: 'n.', sentences: ['I have breakfast at seven.', 'Eggs and milk are a good breakfast.'] },
+    { en: 'homework', cn: '家庭作业', phonetic: '/ˈhəʊmwɜːk/', partOfSpeech: 'n.', sentences: ['I finish my homework before dinner.', 'The homework today is easy.'] },
+    { en: 'doctor', cn: '医生', phonetic: '/ˈdɒktə(r)/', partOfSpeech: 'n.', sentences: ['You should see a doctor.', 'Her mother is a doctor.'] },
+    { en: 'hospital', cn: '医院', phonetic: '/ˈhɒspɪtl/', partOfSpeech: 'n.', sentences: ['The hospital is next to the park.', 'He stayed in hospital for a week.'] },
+    { en: 'garden', cn: '花园', phonetic: '/ˈɡɑːdn/', partOfSpeech: 'n.', sentences: ['There are many flowers in the garden.', 'Grandma works in the garden every morning.'] },
+    { en: 'river', cn: '河流', phonetic: '/ˈrɪvə(r)/', partOfSpeech: 'n.', sentences: ['The river is very long.', 'We went fishing in the river.'] },
+    { en: 'happy', cn: '快乐的', phonetic: '/ˈhæpi/', partOfSpeech: 'adj.', sentences: ['She looks very happy today.', 'I am happy to see you.'] },
+    { en: 'beautiful', cn: '美丽的', phonetic: '/ˈbjuːtɪfl/', partOfSpeech: 'adj.', sentences: ['What a beautiful day!', 'The park is beautiful in spring.'] },
+    { en: 'difficult', cn: '困难的', phonetic: '/ˈdɪfɪkəlt/', partOfSpeech: 'adj.', sentences: ['This math problem is difficult.', 'It is difficult to learn a new language.'] },
+    { en: 'important', cn: '重要的', phonetic: '/ɪmˈpɔːtnt/', partOfSpeech: 'adj.', sentences: ['Health is very important.', 'Tomorrow we have an important test.'] },
+    { en: 'quickly', cn: '快速地', phonetic: '/ˈkwɪkli/', partOfSpeech: 'adv.', sentences: ['He ran quickly to catch the bus.', 'Please finish your work quickly.'] },
+    { en: 'often', cn: '经常', phonetic: '/ˈɒfn/', partOfSpeech: 'adv.', sentences: ['I often read before bed.', 'It often rains in summer here.'] },
+    { en: 'run', cn: '跑', phonetic: '/rʌn/', partOfSpeech: 'v.', sentences: ['I run in the park every morning.', 'Can you run fast?'] },
+    { en: 'eat', cn: '吃', phonetic: '/iːt/', partOfSpeech: 'v.', sentences: ['We eat lunch at twelve.', 'Do not eat too much candy.'] },
+    { en: 'read', cn: '阅读', phonetic: '/riːd/', partOfSpeech: 'v.', sentences: ['I like to read stories.', 'Please read the text aloud.'] },
+    { en: 'write', cn: '写', phonetic: '/raɪt/', partOfSpeech: 'v.', sentences: ['Please write your name here.', 'I want to write a letter to my friend.'] },
+    { en: 'remember', cn: '记得', phonetic: '/rɪˈmembə(r)/', partOfSpeech: 'v.', sentences: ['I always remember your birthday.', 'Please remember to close the door.'] }
+  ],
+  verbs: [
+    verb('play', 'plays', 'played', 'played', 'playing'),
+    verb('watch', 'watches', 'watched', 'watched', 'watching'),
+    verb('read', 'reads', 'read', 'read', 'reading'),
+    verb('write', 'writes', 'wrote', 'written', 'writing'),
+    verb('clean', 'cleans', 'cleaned', 'cleaned', 'cleaning'),
+    verb('cook', 'cooks', 'cooked', 'cooked', 'cooking'),
+    verb('make', 'makes', 'made', 'made', 'making'),
+    verb('visit', 'visits', 'visited', 'visited', 'visiting'),
+    verb('help', 'helps', 'helped', 'helped', 'helping'),
+    verb('finish', 'finishes', 'finished', 'finished', 'finishing'),
+    verb('do', 'does', 'did', 'done', 'doing'),
+    verb('study', 'studies', 'studied', 'studied', 'studying'),
+    verb('walk', 'walks', 'walked', 'walked', 'walking'),
+    verb('go', 'goes', 'went', 'gone', 'going'),
+    verb('swim', 'swims', 'swam', 'swum', 'swimming'),
+    verb('wash', 'washes', 'washed', 'washed', 'washing'),
+    verb('paint', 'paints', 'painted', 'painted', 'painting'),
+    verb('build', 'builds', 'built', 'built', 'building'),
+    verb('open', 'opens', 'opened', 'opened', 'opening'),
+    verb('close', 'closes', 'closed', 'closed', 'closing'),
+    verb('speak', 'speaks', 'spoke', 'spoken', 'speaking')
+  ],
+  grammar: [
+    {
+      name: '一般现在时',
+      aliases: ['一般现在时', '一般现在', 'present simple', 'simple present'],
+      explanation: {
+        title: '一般现在时 (Simple Present)',
+        usage: '表示经常性、习惯性的动作或客观事实。\n结构：主语 + 动词原形；主语是第三人称单数时，动词加 -s / -es。\n常与 always, usually, often, every day 等时间状语连用。',
+        examples: ['She goes to school by bike every day.', 'The sun rises in the east.', 'We often play basketball after class.'],
+        comparisons: '与现在进行时对比：一般现在时强调习惯（I read every night），现在进行时强调此刻正在发生（I am reading now）。'
+      },
+      frames: [
+        { sentence: 'My sister _____ football after school every day.', form: 'third', verbs: ['play', 'watch'] },
+        { sentence: 'Tom usually _____ his homework in the evening.', form: 'third', verbs: ['do', 'finish'] },
+        { sentence: 'She _____ a book before bed every night.', form: 'third', verbs: ['read', 'write'] },
+        { sentence: 'My father _____ dinner for us on Sundays.', form: 'third', verbs: ['cook', 'make'] },
+        { sentence: 'He often _____ his grandparents on weekends.', form: 'third', verbs: ['visit', 'help'] },
+        { sentence: 'The shop _____ at nine o\'clock every morning.', form: 'third', verbs: ['open', 'close'] },
+        { sentence: 'Lucy _____ to school every day.', form: 'third', verbs: ['walk', 'go'] },
+        { sentence: 'My brother _____ English for an hour every evening.', form: 'third', verbs: ['study', 'speak'] }
+      ]
+    },
+    {
+      name: '一般过去时',
+      aliases: ['一般过去时', '一般过去', 'past simple', 'simple past'],
+      explanation: {
+        title: '一般过去时 (Simple Past)',
+        usage: '表示过去某个时间发生的动作或存在的状态。\n结构：主语 + 动词过去式。规则动词加 -ed，不规则动词需要单独记忆。\n常与 yesterday, last week, ago, in 2010 等时间状语连用。',
+        examples: ['I visited my grandparents last weekend.', 'She wrote a letter yesterday.', 'We went to the zoo two days ago.'],
+        comparisons: '与现在完成时对比：一般过去时只说明过去发生，和现在无关（I lost my key yesterday）；现在完成时强调对现在的影响（I have lost my key）。'
+      },
+      frames: [
+        { sentence: 'Yesterday my sister _____ football with her friends.', form: 'past', verbs: ['play', 'watch'] },
+        { sentence: 'Tom _____ his homework last night.', form: 'past', verbs: ['do', 'finish'] },
+        { sentence: 'She _____ a letter to her pen pal last week.', form: 'past', verbs: ['write', 'read'] },
+        { sentence: 'We _____ our grandparents two days ago.', form: 'past', verbs: ['visit', 'help'] },
+        { sentence: 'My mother _____ a big dinner last Sunday.', form: 'past', verbs: ['cook', 'make'] },
+        { sentence: 'They _____ to the park yesterday afternoon.', form: 'past', verbs: ['walk', 'go'] },
+        { sentence: 'I _____ the windows this morning.', form: 'past', verbs: ['open', 'close', 'clean', 'wash'] }
+      ]
+    },
+    {
+      name: '现在进行时',
+      aliases: ['现在进行时', '现在进行', 'present continuous', 'present progressive'],
+      explanation: {
+        title: '现在进行时 (Present Continuous)',
+        usage: '表示说话时正在进行的动作或现阶段正在进行的活动。\n结构：主语 + am / is / are + 动词-ing。\n常与 now, at the moment, Look!, Listen! 等连用。',
+        examples: ['Look! The boys are playing football.', 'I am reading a storybook now.', 'Listen! Someone is singing.'],
+        comparisons: '与一般现在时对比：现在进行时描述此刻（He is swimming now），一般现在时描述习惯（He swims every day）。'
+      },
+      frames: [
+        { sentence: 'Look! The children are _____ football in the playground.', form: 'ing', verbs: ['play', 'watch'] },
+        { sentence: 'Be quiet! Grandpa is _____ a newspaper.', form: 'ing', verbs: ['read'] },
+        { sentence: 'My mother is _____ dinner in the kitchen now.', form: 'ing', verbs: ['cook', 'make'] },
+        { sentence: 'Listen! Someone is _____ the door.', form: 'ing', verbs: ['open', 'close'] },
+        { sentence: 'Don\'t disturb me. I am _____ my homework.', form: 'ing', verbs: ['do', 'finish'] },
+        { sentence: 'The students are _____ the classroom at the moment.', form: 'ing', verbs: ['clean', 'paint'] },
+        { sentence: 'Tom is _____ a letter to his friend right now.', form: 'ing', verbs: ['write'] }
+      ]
+    },
+    {
+      name: '现在完成时',
+      aliases: ['现在完成时', '现在完成', 'present perfect'],
+      explanation: {
+        title: '现在完成时 (Present Perfect)',
+        usage: '表示过去发生的动作对现在造成的影响，或从过去持续到现在的动作。\n结构：主语 + have / has + 过去分词。\n常与 already, yet, just, ever, never, for, since 等连用。',
+        examples: ['I have already finished my homework.', 'She has been to Shanghai twice.', 'We have lived here for ten years.'],
+        comparisons: '与一般过去时对比：不能与 yesterday, last year 等明确的过去时间连用；have been to 表示去过（已回来），have gone to 表示去了（还没回来）。'
+      },
+      frames: [
+        { sentence: 'I have already _____ my homework.', form: 'pp', verbs: ['do', 'finish'] },
+        { sentence: 'She has _____ this book three times.', form: 'pp', verbs: ['read'] },
+        { sentence: 'We have _____ the Great Wall twice.', form: 'pp', verbs: ['visit'] },
+        { sentence: 'Have you ever _____ in the sea?', form: 'pp', verbs: ['swim'] },
+        { sentence: 'He has just _____ the windows.', form: 'pp', verbs: ['open', 'close', 'clean', 'wash'] },
+        { sentence: 'They have _____ English for five years.', form: 'pp', verbs: ['study', 'speak'] },
+        { sentence: 'My mother has _____ dinner for us.', form: 'pp', verbs: ['cook', 'make'] }
+      ]
+    },
+    {
+      name: '被动语态',
+      aliases: ['被动语态', '被动', 'passive voice', 'passive'],
+      explanation: {
+        title: '被动语态 (Passive Voice)',
+        usage: '当动作的承受者作主语时使用被动语态。\n结构：主语 + be + 过去分词 (+ by 动作执行者)。be 的形式随时态变化：一般现在时用 am / is / are，一般过去时用 was / were。',
+        examples: ['English is spoken in many countries.', 'The bridge was built in 1990.', 'The classroom is cleaned every day.'],
+        comparisons: '主动语态强调谁做了事（Tom cleaned the room），被动语态强调事情本身（The room was cleaned by Tom）。注意过去分词的不规则变化，如 write - written，build - built。'
+      },
+      frames: [
+        { sentence: 'The classroom is _____ by the students every day.', form: 'pp', verbs: ['clean', 'paint'] },
+        { sentence: 'This house was _____ in 1990.', form: 'pp', verbs: ['build', 'paint'] },
+        { sentence: 'The letter was _____ by my grandfather.', form: 'pp', verbs: ['write', 'read'] },
+        { sentence: 'English is _____ in many countries.', form: 'pp', verbs: ['speak', 'study'] },
+        { sentence: 'The windows were _____ by Tom yesterday.', form: 'pp', verbs: ['open', 'close', 'clean', 'wash'] },
+        { sentence: 'Dinner is _____ by my father on Sundays.', form: 'pp', verbs: ['cook', 'make'] }
+      ]
+    },
+    {
+      name: '一般将来时',
+      aliases: ['一般将来时', '一般将来', 'future simple', 'simple future', 'will'],
+      explanation: {
+        title: '一般将来时 (Simple Future)',
+        usage: '表示将来要发生的动作或打算。\n结构：主语 + will + 动词原形，或 主语 + am / is / are going to + 动词原形。\n常与 tomorrow, next week, soon, in the future 等连用。',
+        examples: ['I will visit my grandparents next weekend.', 'It is going to rain soon.', 'We will have a test tomorrow.'],
+        comparisons: 'will 多表示临时决定或预测，be going to 多表示事先计划或有迹象表明即将发生。两者后面都接动词原形。'
+      },
+      frames: [
+        { sentence: 'I will _____ my grandparents next weekend.', form: 'base', verbs: ['visit', 'help'] },
+        { sentence: 'Tom is going to _____ football tomorrow.', form: 'base', verbs: ['play', 'watch'] },
+        { sentence: 'We will _____ the classroom after school.', form: 'base', verbs: ['clean', 'paint'] },
+        { sentence: 'She will _____ a letter to you soon.', form: 'base', verbs: ['write'] },
+        { sentence: 'They are going to _____ to the park this afternoon.', form: 'base', verbs: ['walk', 'go'] },
+        { sentence: 'I will _____ my homework after dinner.', form: 'base', verbs: ['do', 'finish'] }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,206 @@
+
+import { WordPair, ContextQuestion, ReadingPassage, ReadingQuestion, GrammarPracticeData, GrammarFillQuestion, GrammarChoiceQuestion, GrammarOrderQuestion, GrammarCorrectionQuestion, LocalContentPack, LocalGrammarPoint, LocalVerb, VerbForm } from './types';
+import { BUILTIN_PACK } from './localContent';
+import { countErrorWord } from './errorCorrection';
+
+export class LocalContentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocalContentError';
+  }
+}
+
+const packs: LocalContentPack[] = [BUILTIN_PACK];
+
+// 同 id 的内容包会被替换，便于教师覆盖内置题库
+export const registerContentPack = (pack: LocalContentPack) => {
+  const index = packs.findIndex(p => p.id === pack.id);
+  if (index === -1) packs.push(pack);
+  else packs[index] = pack;
+};
+
+const allWords = () => packs.flatMap(p => p.words);
+const allVerbs = () => packs.flatMap(p => p.verbs);
+const allGrammar = () => packs.flatMap(p => p.grammar);
+
+export const listLocalGrammarPoints = (): string[] => allGrammar().map(g => g.name);
+
+// 同一组输入每次调用依次使用下一个种子，既可复现，又能“换一批题目”
+const rounds = new Map<string, number>();
+
+export const resetLocalGenerator = () => rounds.clear();
+
+const nextSeed = (key: string): number => {
+  const round = rounds.get(key) || 0;
+  rounds.set(key, round + 1);
+  let hash = 2166136261;
+  for (const ch of `${key}#${round}`) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const splitWords = (userWords: string) => userWords.split(/[\s,，、;；]+/).map(w => w.trim().toLowerCase()).filter(Boolean);
+
+const findKnownWords = (userWords: string) => {
+  const requested = splitWords(userWords);
+  const known = allWords().filter(w => requested.includes(w.en.toLowerCase()));
+  if (!known.length) {
+    throw new LocalContentError(`离线题库中没有找到这些单词，可用的单词包括：${allWords().slice(0, 10).map(w => w.en).join(', ')} 等。`);
+  }
+  return known;
+};
+
+export const generateWordPairs = (userWords: string): WordPair[] => {
+  return findKnownWords(userWords).map((w, i) => ({
+    id: `local-${i}-${Date.now()}`,
+    en: w.en,
+    cn: w.cn,
+    phonetic: w.phonetic,
+    partOfSpeech: w.partOfSpeech,
+    example: w.sentences[0] || ''
+  }));
+};
+
+export const generateContextQuestions = (userWords: string, count: number): ContextQuestion[] => {
+  const known = findKnownWords(userWords);
+  const random = createRandom(nextSeed(`context|${userWords}|${count}`));
+  const candidates = known.flatMap(w => w.sentences.map(sentence => ({
+    sentence: sentence.replace(new RegExp(`\\b${w.en}\\b`, 'i'), '_____'),
+    answer: w.en
+  }))).filter(q => q.sentence.includes('_____'));
+  return shuffle(candidates, random).slice(0, count);
+};
+
+// 离线短文由单词的例句拼成：用到的例句出判断题 (true) 和挖词选择题，没用到的例句出 not_given 判断题
+export const generateReadingPassage = (userWords: string, count: number): ReadingPassage => {
+  const known = findKnownWords(userWords);
+  const random = createRandom(nextSeed(`reading|${userWords}|${count}`));
+  const picked = known.map(w => {
+    const [used, ...unused] = shuffle(w.sentences, random);
+    return { word: w, used, unused };
+  }).filter(p => p.used);
+  const others = allWords().map(w => w.en);
+
+  const choice: ReadingQuestion[] = picked
+    .filter(p => new RegExp(`\\b${p.word.en}\\b`, 'i').test(p.used))
+    .map(p => ({
+      kind: 'choice',
+      question: `According to the passage, which word fits the blank? "${p.used.replace(new RegExp(`\\b${p.word.en}\\b`, 'i'), '_____')}"`,
+      options: shuffle([p.word.en, ...shuffle(others.filter(o => o !== p.word.en), random).slice(0, 3)], random),
+      answer: p.word.en,
+      evidence: p.used
+    }));
+  const statements: ReadingQuestion[] = picked.flatMap(p => [
+    { kind: 'tfng' as const, question: p.used, answer: 'true' as const, evidence: p.used },
+    ...p.unused.slice(0, 1).map(sentence => ({ kind: 'tfng' as const, question: sentence, answer: 'not_given' as const }))
+  ]);
+
+  const passage = picked.map(p => p.used).join(' ');
+  const questions = shuffle([...shuffle(choice, random).slice(0, Math.ceil(count / 2)), ...shuffle(statements, random)], random).slice(0, count);
+  // 题目按在原文中出现的先后排列，not_given 的题放在最后
+  const position = (q: ReadingQuestion) => q.evidence ? passage.indexOf(q.evidence) : passage.length;
+  return {
+    title: `Reading: ${known.map(w => w.en).join(', ')}`,
+    passage,
+    questions: questions.sort((a, b) => position(a) - position(b))
+  };
+};
+
+const findGrammarPoint = (grammarPoint: string): LocalGrammarPoint => {
+  const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, '');
+  const input = normalize(grammarPoint);
+  const point = allGrammar().find(g => g.aliases.some(a => {
+    const alias = normalize(a);
+    return input.includes(alias) || alias.includes(input);
+  }));
+  if (!input || !point) {
+    throw new LocalContentError(`离线题库暂不包含该语法点，可选：${listLocalGrammarPoints().join('、')}`);
+  }
+  return point;
+};
+
+interface FrameItem {
+  sentence: string;
+  form: VerbForm;
+  verb: LocalVerb;
+}
+
+const VERB_FORMS: VerbForm[] = ['base', 'third', 'past', 'pp', 'ing'];
+
+export const generateGrammarData = (grammarPoint: string, grade: string, count: number): GrammarPracticeData => {
+  const point = findGrammarPoint(grammarPoint);
+  const verbs = allVerbs();
+  const random = createRandom(nextSeed(`grammar|${point.name}|${grade}|${count}`));
+
+  const items: FrameItem[] = point.frames.flatMap(frame => frame.verbs
+    .map(base => verbs.find(v => v.base === base))
+    .filter((v): v is LocalVerb => !!v)
+    .map(verb => ({ sentence: frame.sentence, form: frame.form, verb })));
+  // 先让每个句子框架各出现一次，再补充同一框架换动词的题目
+  const shuffled = shuffle(items, random);
+  const seen = new Set<string>();
+  const firstPass = shuffled.filter(item => !seen.has(item.sentence) && !!seen.add(item.sentence));
+  const ordered = [...firstPass, ...shuffled.filter(item => !firstPass.includes(item))];
+
+  const fillQuestions: GrammarFillQuestion[] = ordered.slice(0, count).map(item => ({
+    sentence: item.sentence,
+    blanks: [{ hint: item.verb.base, answer: item.verb[item.form] }]
+  }));
+
+  const choiceItems = ordered.length > count ? ordered.slice(count) : ordered;
+  const choiceQuestions: GrammarChoiceQuestion[] = choiceItems.slice(0, count).map(item => {
+    const answer = item.verb[item.form];
+    const distractors = Array.from(new Set(VERB_FORMS.map(f => item.verb[f]).filter(f => f !== answer)));
+    return {
+      sentence: item.sentence,
+      options: shuffle([answer, ...shuffle(distractors, random).slice(0, 3)], random),
+      answer
+    };
+  });
+
+  // 连词成句用填好正确词形的完整句子
+  const orderQuestions: GrammarOrderQuestion[] = ordered.slice(0, count).map(item => ({
+    sentence: item.sentence.replace('_____', item.verb[item.form])
+  }));
+
+  // 改错题把正确词形换成另一种词形；每三题留一题不改，句中已有同样的单词时也不改
+  const correctionQuestions: GrammarCorrectionQuestion[] = shuffle(ordered, random).slice(0, count).map((item, i) => {
+    const answer = item.verb[item.form];
+    const correct = item.sentence.replace('_____', answer);
+    const wrong = shuffle(VERB_FORMS.map(f => item.verb[f]).filter(f => f !== answer), random)[0];
+    const sentence = wrong && item.sentence.replace('_____', wrong);
+    if (i % 3 === 2 || !sentence || countErrorWord(sentence, wrong) !== 1) return { sentence: correct, error: '', correction: '' };
+    return { sentence, error: wrong, correction: answer };
+  });
+
+  return { explanation: point.explanation, fillQuestions, choiceQuestions, orderQuestions, correctionQuestions };
+};
+
+export const generateExplanationForError = (sentence: string, correctAnswer: string, userAnswer: string): string => {
+  const point = allGrammar().find(g => g.frames.some(f => f.sentence === sentence));
+  const lines = [
+    `你填写的是 **${userAnswer || '（空）'}**，正确答案是 **${correctAnswer}**。`,
+    point ? `这道题考查的是 **${point.name}**：${point.explanation.usage.split('\n')[0]}` : '请结合句子中的时间状语和主语判断所需的词形。',
+    point ? `小贴士：${point.explanation.comparisons}` : '小贴士：把答案代入句子完整读一遍，检查是否通顺。'
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,45 @@
+
+import { MistakeQuestion, MistakeRecord } from './types';
+import { STORES, idbGetAll, idbGet, idbPut, idbDelete } from './db';
+
+// 同一道题（同类型、同句子）只保留一条记录
+const mistakeId = (m: MistakeQuestion) => `${m.kind}:${m.question.sentence.trim().toLowerCase()}`;
+
+// 早期版本的语法填空只有一个空，hint / answer 直接挂在题目上
+const upgradeRecord = (record: MistakeRecord): MistakeRecord => {
+  if (record.kind !== 'grammar_fill' || Array.isArray(record.question.blanks)) return record;
+  const { sentence, hint, answer, acceptedAnswers } = record.question as unknown as { sentence: string, hint: string, answer: string, acceptedAnswers?: string[] };
+  return { ...record, question: { sentence, blanks: [{ hint, answer, acceptedAnswers }] } };
+};
+
+export const listMistakes = async (): Promise<MistakeRecord[]> => {
+  const records = await idbGetAll<MistakeRecord>(STORES.mistakes);
+  return records.map(upgradeRecord).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const isMastered = (record: MistakeRecord, requiredStreak: number) => record.correctStreak >= requiredStreak;
+
+export const recordMistake = async (mistake: MistakeQuestion, userAnswer: string, source: string, now: number = Date.now()): Promise<MistakeRecord> => {
+  const id = mistakeId(mistake);
+  const existing = await idbGet<MistakeRecord>(STORES.mistakes, id);
+  const record: MistakeRecord = existing
+    ? { ...existing, ...mistake, userAnswer, updatedAt: now, wrongCount: existing.wrongCount + 1, correctStreak: 0 }
+    : { ...mistake, id, source, userAnswer, analysis: null, createdAt: now, updatedAt: now, wrongCount: 1, correctStreak: 0 };
+  await idbPut(STORES.mistakes, record);
+  return record;
+};
+
+export const attachAnalysis = async (id: string, analysis: string) => {
+  const existing = await idbGet<MistakeRecord>(STORES.mistakes, id);
+  if (existing) await idbPut(STORES.mistakes, { ...existing, analysis });
+};
+
+export const recordRedoResult = async (record: MistakeRecord, correct: boolean, userAnswer: string, now: number = Date.now()): Promise<MistakeRecord> => {
+  const next: MistakeRecord = correct
+    ? { ...record, correctStreak: record.correctStreak + 1, updatedAt: now }
+    : { ...record, userAnswer, correctStreak: 0, wrongCount: record.wrongCount + 1, updatedAt: now };
+  await idbPut(STORES.mistakes, next);
+  return next;
+};
+
+export const deleteMistake = (id: string) => idbDelete(STORES.mistakes, id);
@@ -0,0 +1,76 @@
+
+import { NotebookEntry, WordPair } from './types';
+import { STORES, idbGetAll, idbPut, idbDelete } from './db';
+
+const createId = () => `nb-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listEntries = async (): Promise<NotebookEntry[]> => {
+  const entries = await idbGetAll<NotebookEntry>(STORES.notebook);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveEntry = (entry: NotebookEntry) => idbPut(STORES.notebook, entry);
+
+export const deleteEntry = (id: string) => idbDelete(STORES.notebook, id);
+
+export const createEntry = (fields: Partial<NotebookEntry> & { en: string, cn: string }): NotebookEntry => ({
+  phonetic: '',
+  partOfSpeech: '',
+  example: '',
+  source: '手动添加',
+  tags: [],
+  lastPracticedAt: null,
+  ...fields,
+  id: fields.id || createId(),
+  createdAt: fields.createdAt || Date.now()
+});
+
+// 已存在的单词只补全缺失字段，不重复收录
+export const addWordPairs = async (pairs: WordPair[], source: string): Promise<NotebookEntry[]> => {
+  const existing = await listEntries();
+  const byWord = new Map(existing.map(e => [e.en.toLowerCase(), e]));
+  const saved: NotebookEntry[] = [];
+  for (const p of pairs) {
+    const current = byWord.get(p.en.toLowerCase());
+    const entry = current
+      ? {
+          ...current,
+          cn: current.cn || p.cn,
+          phonetic: current.phonetic || p.phonetic || '',
+          partOfSpeech: current.partOfSpeech || p.partOfSpeech || '',
+          example: current.example || p.example || ''
+        }
+      : createEntry({ en: p.en, cn: p.cn, phonetic: p.phonetic, partOfSpeech: p.partOfSpeech, example: p.example, source });
+    await saveEntry(entry);
+    byWord.set(entry.en.toLowerCase(), entry);
+    saved.push(entry);
+  }
+  return saved;
+};
+
+export const markPracticed = async (entries: NotebookEntry[], now: number = Date.now()) => {
+  for (const e of entries) {
+    await saveEntry({ ...e, lastPracticedAt: now });
+  }
+};
+
+export const collectTags = (entries: NotebookEntry[]): string[] =>
+  Array.from(new Set(entries.flatMap(e => e.tags))).sort();
+
+export const filterEntries = (entries: NotebookEntry[], query: string, tag: string | null): NotebookEntry[] => {
+  const q = query.trim().toLowerCase();
+  return entries.filter(e => {
+    if (tag && !e.tags.includes(tag)) return false;
+    if (!q) return true;
+    return e.en.toLowerCase().includes(q) || e.cn.includes(q) || e.example.toLowerCase().includes(q);
+  });
+};
+
+export const entryToWordPair = (e: NotebookEntry): WordPair => ({
+  id: e.id,
+  en: e.en,
+  cn: e.cn,
+  phonetic: e.phonetic,
+  partOfSpeech: e.partOfSpeech,
+  example: e.example
+});
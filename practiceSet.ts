@@ -0,0 +1,140 @@
+
+import { PracticeSet, PracticeSetContent } from './types';
+import { validateWordPairs, validateContextQuestions, validateFillQuestions, validateChoiceQuestions, validateOrderQuestions, validateCorrectionQuestions, validateExplanation } from './responseValidator';
+
+export const PRACTICE_SET_FORMAT = 'tonglanguage-practice-set';
+export const PRACTICE_SET_VERSION = 1;
+
+// 链接里练习包放在 #set= 之后；z 表示 deflate 压缩，j 表示未压缩的 JSON
+const FRAGMENT_KEY = 'set';
+
+export class PracticeSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PracticeSetError';
+  }
+}
+
+export const PRACTICE_SET_LABELS: Record<PracticeSetContent['kind'], string> = {
+  matching: '单词连线',
+  context: '语境填空',
+  grammar: '语法练习'
+};
+
+export const createPracticeSet = (title: string, content: PracticeSetContent, now: number = Date.now()): PracticeSet => ({
+  format: PRACTICE_SET_FORMAT,
+  version: PRACTICE_SET_VERSION,
+  title: title.trim() || PRACTICE_SET_LABELS[content.kind],
+  createdAt: now,
+  content
+});
+
+export const serializePracticeSet = (set: PracticeSet): string => JSON.stringify(set);
+
+export const practiceSetFileName = (set: PracticeSet) =>
+  `${set.title.replace(/[\\/:*?"<>|]+/g, ' ').trim() || 'practice'}.tonglanguage.json`;
+
+// 与 AI 返回的数据走同一套校验，手工改坏的题目会被丢弃
+const readContent = (raw: any): PracticeSetContent => {
+  if (!raw || typeof raw !== 'object') throw new PracticeSetError('练习包缺少题目内容。');
+  if (raw.kind === 'matching') {
+    const pairs = validateWordPairs(raw.pairs).items.map((p, i) => ({ ...p, id: `set-${i}` }));
+    if (!pairs.length) throw new PracticeSetError('练习包中没有有效的单词。');
+    return { kind: 'matching', pairs };
+  }
+  if (raw.kind === 'context') {
+    const questions = validateContextQuestions(raw.questions).items;
+    if (!questions.length) throw new PracticeSetError('练习包中没有有效的填空题。');
+    return { kind: 'context', questions };
+  }
+  if (raw.kind === 'grammar') {
+    let explanation;
+    try {
+      explanation = validateExplanation(raw.data?.explanation);
+    } catch {
+      throw new PracticeSetError('练习包中的语法讲解不完整。');
+    }
+    const fillQuestions = validateFillQuestions(raw.data.fillQuestions).items;
+    const choiceQuestions = validateChoiceQuestions(raw.data.choiceQuestions).items;
+    // 旧版本的练习包没有连词成句题和改错题
+    const orderQuestions = raw.data.orderQuestions ? validateOrderQuestions(raw.data.orderQuestions).items : [];
+    const correctionQuestions = raw.data.correctionQuestions ? validateCorrectionQuestions(raw.data.correctionQuestions).items : [];
+    return { kind: 'grammar', data: { explanation, fillQuestions, choiceQuestions, orderQuestions, correctionQuestions } };
+  }
+  throw new PracticeSetError(`不支持的练习类型：${raw.kind}`);
+};
+
+// 导出练习纸时生成的 JSON 也可以直接打开
+const fromWorksheet = (raw: any): PracticeSet => {
+  const source = raw.source;
+  if (source?.kind === 'context') return createPracticeSet(source.title, readContent({ kind: 'context', questions: source.questions }));
+  return createPracticeSet(source?.data?.explanation?.title || '', readContent({ kind: 'grammar', data: source?.data }));
+};
+
+export const parsePracticeSet = (raw: any): PracticeSet => {
+  if (!raw || typeof raw !== 'object') throw new PracticeSetError('文件内容不是练习包。');
+  if (raw.format === 'tonglanguage-worksheet') return fromWorksheet(raw);
+  if (raw.format !== PRACTICE_SET_FORMAT) throw new PracticeSetError('文件内容不是练习包。');
+  if (typeof raw.version !== 'number' || raw.version > PRACTICE_SET_VERSION) {
+    throw new PracticeSetError('这个练习包由更新版本的应用生成，请先升级后再打开。');
+  }
+  return {
+    format: PRACTICE_SET_FORMAT,
+    version: PRACTICE_SET_VERSION,
+    title: typeof raw.title === 'string' ? raw.title : '',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+    content: readContent(raw.content)
+  };
+};
+
+export const parsePracticeSetText = (text: string): PracticeSet => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new PracticeSetError('文件不是合法的 JSON。');
+  }
+  return parsePracticeSet(raw);
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const encodePracticeSet = async (set: PracticeSet): Promise<string> => {
+  const bytes = new TextEncoder().encode(serializePracticeSet(set));
+  if (typeof CompressionStream === 'undefined') return `j${toBase64Url(bytes)}`;
+  return `z${toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')))}`;
+};
+
+export const decodePracticeSet = async (encoded: string): Promise<PracticeSet> => {
+  try {
+    const bytes = fromBase64Url(encoded.slice(1));
+    const json = encoded[0] === 'z' ? await pipeBytes(bytes, new DecompressionStream('deflate-raw')) : bytes;
+    return parsePracticeSetText(new TextDecoder().decode(json));
+  } catch (e) {
+    if (e instanceof PracticeSetError) throw e;
+    throw new PracticeSetError('分享链接已损坏或不完整。');
+  }
+};
+
+// 聊天软件和部分浏览器会截断过长的链接，超过时建议改用下载练习包
+export const MAX_SHARE_URL_LENGTH = 4000;
+
+export const buildShareUrl = async (set: PracticeSet, base: string = `${location.origin}${location.pathname}`): Promise<string> =>
+  `${base}#${FRAGMENT_KEY}=${await encodePracticeSet(set)}`;
+
+export const readFragment = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY);
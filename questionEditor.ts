@@ -0,0 +1,65 @@
+import { MistakeQuestion, PracticeSetContent } from './types';
+import { validateContextQuestions, validateFillQuestions, validateChoiceQuestions, validateOrderQuestions, validateCorrectionQuestions, ValidationResult } from './responseValidator';
+
+export type EditableContent = Extract<PracticeSetContent, { kind: 'context' | 'grammar' }>;
+
+export const contentFromItems = (base: EditableContent, items: MistakeQuestion[]): EditableContent => {
+  if (base.kind === 'context') {
+    return { kind: 'context', questions: items.flatMap(item => item.kind === 'context' ? [item.question] : []) };
+  }
+  return {
+    kind: 'grammar',
+    data: {
+      ...base.data,
+      fillQuestions: items.flatMap(item => item.kind === 'grammar_fill' ? [item.question] : []),
+      choiceQuestions: items.flatMap(item => item.kind === 'grammar_choice' ? [item.question] : []),
+      orderQuestions: items.flatMap(item => item.kind === 'grammar_order' ? [item.question] : []),
+      correctionQuestions: items.flatMap(item => item.kind === 'grammar_correction' ? [item.question] : [])
+    }
+  };
+};
+
+// 各题型分组显示，只与同组相邻的题目交换位置
+export const moveItem = (items: MistakeQuestion[], index: number, direction: -1 | 1): MistakeQuestion[] => {
+  let target = index + direction;
+  while (target >= 0 && target < items.length && items[target].kind !== items[index].kind) target += direction;
+  if (target < 0 || target >= items.length) return items;
+  const result = [...items];
+  [result[index], result[target]] = [result[target], result[index]];
+  return result;
+};
+
+const checkOne = <T>(result: ValidationResult<T>): { item?: T, error?: string } =>
+  result.items.length ? { item: result.items[0] } : { error: result.discarded[0]?.reason || '题目格式不正确' };
+
+// 手动修改后的题目按 AI 返回结果的规则重新校验，通过的题目同时完成规范化
+export const checkItem = (item: MistakeQuestion): { item?: MistakeQuestion, error?: string } => {
+  if (item.kind === 'context') {
+    const { item: question, error } = checkOne(validateContextQuestions([item.question]));
+    return question ? { item: { kind: 'context', question } } : { error };
+  }
+  if (item.kind === 'grammar_fill') {
+    const { item: question, error } = checkOne(validateFillQuestions([item.question]));
+    return question ? { item: { kind: 'grammar_fill', question } } : { error };
+  }
+  if (item.kind === 'grammar_order') {
+    const { item: question, error } = checkOne(validateOrderQuestions([item.question]));
+    return question ? { item: { kind: 'grammar_order', question } } : { error };
+  }
+  if (item.kind === 'grammar_correction') {
+    const { item: question, error } = checkOne(validateCorrectionQuestions([item.question]));
+    return question ? { item: { kind: 'grammar_correction', question } } : { error };
+  }
+  const { item: question, error } = checkOne(validateChoiceQuestions([item.question]));
+  return question ? { item: { kind: 'grammar_choice', question } } : { error };
+};
+
+export const checkItems = (items: MistakeQuestion[]): { items: MistakeQuestion[], errors: Record<number, string> } => {
+  const errors: Record<number, string> = {};
+  const checked = items.map((item, i) => {
+    const result = checkItem(item);
+    if (result.error) errors[i] = result.error;
+    return result.item || item;
+  });
+  return { items: checked, errors };
+};
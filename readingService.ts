@@ -0,0 +1,53 @@
+import { WordPair, ReadingQuestion, TfngAnswer } from './types';
+import { evaluateAnswer, isInflectionOf } from './answerEvaluator';
+
+export const TFNG_LABELS: Record<TfngAnswer, string> = {
+  true: 'True',
+  false: 'False',
+  not_given: 'Not Given'
+};
+
+export const READING_KIND_LABELS: Record<ReadingQuestion['kind'], string> = {
+  choice: '选择',
+  tfng: '判断',
+  short: '简答'
+};
+
+export interface PassageToken {
+  text: string;
+  // 属于单词表中的词（含变形）时带上对应的翻译
+  pair?: WordPair;
+}
+
+const WORD_PATTERN = /([A-Za-z]+(?:['’-][A-Za-z]+)*)/;
+
+const findPair = (word: string, pairs: WordPair[]): WordPair | undefined => {
+  const lower = word.toLowerCase();
+  return pairs.find(p => p.en.toLowerCase() === lower) || pairs.find(p => isInflectionOf(lower, p.en.toLowerCase()));
+};
+
+// 按单词切分短文，标点和空白原样保留，拼回去与原文一致
+export const tokenizePassage = (passage: string, pairs: WordPair[]): PassageToken[] =>
+  passage.split(WORD_PATTERN).filter(Boolean).map(text => {
+    const pair = WORD_PATTERN.test(text) ? findPair(text, pairs) : undefined;
+    return pair ? { text, pair } : { text };
+  });
+
+export interface ReadingGrade {
+  correct: boolean;
+  message: string;
+  expected: string;
+}
+
+export const readingAnswerText = (question: ReadingQuestion): string =>
+  question.kind === 'tfng' ? TFNG_LABELS[question.answer] : question.answer;
+
+export const gradeReadingAnswer = (question: ReadingQuestion, given: string): ReadingGrade => {
+  const expected = readingAnswerText(question);
+  if (question.kind === 'short') {
+    const evaluation = evaluateAnswer(given, question.answer, question.acceptedAnswers);
+    return { correct: evaluation.correct, message: evaluation.message, expected };
+  }
+  const correct = given === question.answer;
+  return { correct, message: correct ? '回答正确！' : `正确答案是 ${expected}。`, expected };
+};
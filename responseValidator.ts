@@ -0,0 +1,446 @@
+
+import { ContextQuestion, GrammarExplanation, GrammarFillQuestion, GrammarChoiceQuestion, GrammarOrderQuestion, GrammarCorrectionQuestion, FillBlank, ReadingQuestion, TfngAnswer } from './types';
+import { orderTokens, isReordering } from './sentenceBuilder';
+import { countErrorWord } from './errorCorrection';
+
+export const BLANK = '_____';
+
+export interface DiscardedItem {
+  index: number;
+  reason: string;
+  item: unknown;
+}
+
+export interface ValidationResult<T> {
+  items: T[];
+  discarded: DiscardedItem[];
+  repaired: number;
+}
+
+export interface ValidationReport {
+  label: string;
+  requested: number;
+  delivered: number;
+  repaired: number;
+  discarded: DiscardedItem[];
+}
+
+export class AiResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiResponseError';
+  }
+}
+
+// 去掉 Markdown 代码块；若仍解析失败，尝试截取第一个完整的 JSON 对象或数组
+export const parseAiJson = (text: string, fallback: '[]' | '{}'): unknown => {
+  const cleaned = (text || fallback).replace(/```json/g, '').replace(/```/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const open = fallback === '[]' ? '[' : '{';
+    const close = fallback === '[]' ? ']' : '}';
+    const start = cleaned.indexOf(open);
+    const end = cleaned.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(cleaned.slice(start, end + 1));
+      } catch {
+        // 继续向下抛出统一的错误
+      }
+    }
+    throw new AiResponseError('AI 返回的内容不是合法的 JSON，请重试。');
+  }
+};
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+// 将 ___、______ 等长度不一的下划线统一成标准空格
+const normalizeBlanks = (sentence: string): string => sentence.replace(/_{3,}/g, BLANK);
+
+export const countBlanks = (sentence: string): number => normalizeBlanks(sentence).split(BLANK).length - 1;
+
+const cleanWord = (word: string): string => word.trim().replace(/^[^\w']+|[^\w']+$/g, '');
+
+const isSingleWord = (word: string): boolean => /^[A-Za-z]+(['-][A-Za-z]+)*$/.test(word);
+
+const MAX_BLANKS = 4;
+const MAX_PHRASE_WORDS = 4;
+
+const cleanPhrase = (phrase: string): string => phrase.trim().split(/\s+/).map(cleanWord).filter(Boolean).join(' ');
+
+const isPhrase = (phrase: string): boolean => {
+  const words = phrase.split(' ');
+  return words.length <= MAX_PHRASE_WORDS && words.every(isSingleWord);
+};
+
+// 没有空格但句子里出现了答案时，把答案挖掉
+const blankOutAnswer = (sentence: string, answer: string): string | null => {
+  const pattern = new RegExp(`\\b${answer.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+  return pattern.test(sentence) ? sentence.replace(pattern, BLANK) : null;
+};
+
+interface SentenceCheck {
+  sentence: string;
+  repaired: boolean;
+  error?: string;
+}
+
+const checkSentence = (rawSentence: string, answer: string): SentenceCheck => {
+  let sentence = normalizeBlanks(rawSentence.trim());
+  let repaired = sentence !== rawSentence.trim();
+  const blanks = countBlanks(sentence);
+  if (blanks === 0) {
+    const fixed = blankOutAnswer(sentence, answer);
+    if (!fixed) return { sentence, repaired, error: '句子中缺少 _____ 空格' };
+    sentence = fixed;
+    repaired = true;
+  } else if (blanks > 1) {
+    return { sentence, repaired, error: '句子中有多个空格' };
+  }
+  return { sentence, repaired };
+};
+
+const validateList = <T>(raw: unknown, check: (item: any) => { item?: T, repaired?: boolean, error?: string }): ValidationResult<T> => {
+  const result: ValidationResult<T> = { items: [], discarded: [], repaired: 0 };
+  if (!Array.isArray(raw)) {
+    result.discarded.push({ index: -1, reason: '返回结果不是数组', item: raw });
+    return result;
+  }
+  raw.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      result.discarded.push({ index, reason: '条目不是对象', item: entry });
+      return;
+    }
+    const { item, repaired, error } = check(entry);
+    if (error || !item) {
+      result.discarded.push({ index, reason: error || '未知错误', item: entry });
+      return;
+    }
+    if (repaired) result.repaired++;
+    result.items.push(item);
+  });
+  return result;
+};
+
+export const validateWordPairs = (raw: unknown) =>
+  validateList<{ en: string, cn: string, phonetic: string, partOfSpeech: string, example: string }>(raw, p => {
+    if (!isNonEmptyString(p.en) || !isNonEmptyString(p.cn)) return { error: '缺少 en 或 cn 字段' };
+    return {
+      item: {
+        en: p.en.trim(),
+        cn: p.cn.trim(),
+        phonetic: typeof p.phonetic === 'string' ? p.phonetic : '',
+        partOfSpeech: typeof p.partOfSpeech === 'string' ? p.partOfSpeech : '',
+        example: typeof p.example === 'string' ? p.example : ''
+      }
+    };
+  });
+
+// 备选答案的格式要求与标准答案相同，且不与标准答案重复
+const readAcceptedAnswers = (raw: unknown, answer: string, isValid: (a: string) => boolean = isSingleWord): string[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const accepted = Array.from(new Set(raw.filter(isNonEmptyString).map(cleanPhrase)))
+    .filter(a => isValid(a) && a.toLowerCase() !== answer.toLowerCase());
+  return accepted.length ? accepted : undefined;
+};
+
+const checkFillLike = (q: any): { sentence?: string, answer?: string, repaired?: boolean, error?: string } => {
+  if (!isNonEmptyString(q.sentence) || !isNonEmptyString(q.answer)) return { error: '缺少 sentence 或 answer 字段' };
+  const answer = cleanWord(q.answer);
+  if (!isSingleWord(answer)) return { error: `答案 "${q.answer}" 不是单个单词` };
+  const checked = checkSentence(q.sentence, answer);
+  if (checked.error) return { error: checked.error };
+  return { sentence: checked.sentence, answer, repaired: checked.repaired || answer !== q.answer };
+};
+
+// allowedWords 仅在禁止单词变形时传入，此时答案必须原样出自单词列表
+export const validateContextQuestions = (raw: unknown, allowedWords?: string[]): ValidationResult<ContextQuestion> =>
+  validateList<ContextQuestion>(raw, q => {
+    const { sentence, answer, repaired, error } = checkFillLike(q);
+    if (error) return { error };
+    if (allowedWords && !allowedWords.includes(answer!.toLowerCase())) return { error: `答案 "${answer}" 不在单词列表中` };
+    const acceptedAnswers = readAcceptedAnswers(q.acceptedAnswers, answer!);
+    return { item: { sentence: sentence!, answer: answer!, ...(acceptedAnswers ? { acceptedAnswers } : {}) }, repaired };
+  });
+
+const readBlank = (b: any): { blank?: FillBlank, repaired?: boolean, error?: string } => {
+  if (!b || typeof b !== 'object') return { error: '空格信息不是对象' };
+  if (!isNonEmptyString(b.hint)) return { error: '缺少 hint 提示词' };
+  if (!isNonEmptyString(b.answer)) return { error: '缺少 answer 字段' };
+  const answer = cleanPhrase(b.answer);
+  if (!isPhrase(answer)) return { error: `答案 "${b.answer}" 不是不超过 ${MAX_PHRASE_WORDS} 个单词的短语` };
+  const acceptedAnswers = readAcceptedAnswers(b.acceptedAnswers, answer, isPhrase);
+  return {
+    blank: { hint: b.hint.trim().replace(/^[(（]|[)）]$/g, ''), answer, ...(acceptedAnswers ? { acceptedAnswers } : {}) },
+    repaired: answer !== b.answer
+  };
+};
+
+// 兼容旧格式：没有 blanks 时把顶层的 hint / answer 当作唯一的空格
+export const validateFillQuestions = (raw: unknown): ValidationResult<GrammarFillQuestion> =>
+  validateList<GrammarFillQuestion>(raw, q => {
+    if (!isNonEmptyString(q.sentence)) return { error: '缺少 sentence 字段' };
+    const rawBlanks: any[] = Array.isArray(q.blanks) && q.blanks.length ? q.blanks : [q];
+    if (rawBlanks.length > MAX_BLANKS) return { error: `空格超过 ${MAX_BLANKS} 个` };
+
+    const blanks: FillBlank[] = [];
+    let repaired = false;
+    for (const rawBlank of rawBlanks) {
+      const { blank, repaired: fixed, error } = readBlank(rawBlank);
+      if (error) return { error };
+      blanks.push(blank!);
+      repaired = repaired || !!fixed;
+    }
+
+    let sentence = normalizeBlanks(q.sentence.trim());
+    repaired = repaired || sentence !== q.sentence.trim();
+    if (countBlanks(sentence) === 0 && blanks.length === 1) {
+      const fixed = blankOutAnswer(sentence, blanks[0].answer);
+      if (!fixed) return { error: '句子中缺少 _____ 空格' };
+      sentence = fixed;
+      repaired = true;
+    }
+    if (countBlanks(sentence) !== blanks.length) return { error: `句子中有 ${countBlanks(sentence)} 个空格，但给出了 ${blanks.length} 个答案` };
+    return { item: { sentence, blanks }, repaired };
+  });
+
+export const validateChoiceQuestions = (raw: unknown): ValidationResult<GrammarChoiceQuestion> =>
+  validateList<GrammarChoiceQuestion>(raw, q => {
+    if (!isNonEmptyString(q.sentence) || !isNonEmptyString(q.answer)) return { error: '缺少 sentence 或 answer 字段' };
+    if (!Array.isArray(q.options)) return { error: '缺少 options 选项' };
+    const options: string[] = Array.from(new Set<string>(q.options.filter(isNonEmptyString).map((o: string) => o.trim())));
+    if (options.length < 2) return { error: '有效选项少于 2 个' };
+
+    let repaired = options.length !== q.options.length;
+    let answer = q.answer.trim();
+    if (!options.includes(answer)) {
+      // 仅大小写或首尾空格不同的答案视为可修复
+      const match = options.find(o => o.toLowerCase() === answer.toLowerCase());
+      if (!match) return { error: `答案 "${q.answer}" 不在选项中` };
+      answer = match;
+      repaired = true;
+    }
+
+    const sentence = normalizeBlanks(q.sentence.trim());
+    if (countBlanks(sentence) !== 1) return { error: '句子中必须恰好有一个 _____ 空格' };
+    return { item: { sentence, options, answer }, repaired: repaired || sentence !== q.sentence.trim() };
+  });
+
+const MIN_ORDER_TOKENS = 3;
+const MAX_ORDER_TOKENS = 15;
+
+export const validateOrderQuestions = (raw: unknown): ValidationResult<GrammarOrderQuestion> =>
+  validateList<GrammarOrderQuestion>(raw, q => {
+    if (!isNonEmptyString(q.sentence)) return { error: '缺少 sentence 字段' };
+    const sentence = q.sentence.trim().replace(/\s+/g, ' ');
+    if (countBlanks(sentence)) return { error: '连词成句的句子不能含有 _____ 空格' };
+    const count = orderTokens(sentence).length;
+    if (count < MIN_ORDER_TOKENS || count > MAX_ORDER_TOKENS) return { error: `句子应包含 ${MIN_ORDER_TOKENS}~${MAX_ORDER_TOKENS} 个词块，实际 ${count} 个` };
+
+    // 其他语序必须由同一组词构成，否则学习者无法用这些词块拼出来
+    const given: string[] = Array.isArray(q.acceptedOrders) ? q.acceptedOrders.filter(isNonEmptyString).map((o: string) => o.trim().replace(/\s+/g, ' ')) : [];
+    const acceptedOrders = Array.from(new Set(given.filter(o => o !== sentence && isReordering(o, sentence))));
+    const translation = isNonEmptyString(q.translation) ? { translation: q.translation.trim() } : {};
+    return {
+      item: { sentence, ...translation, ...(acceptedOrders.length ? { acceptedOrders } : {}) },
+      repaired: sentence !== q.sentence || acceptedOrders.length !== given.length
+    };
+  });
+
+export const validateCorrectionQuestions = (raw: unknown): ValidationResult<GrammarCorrectionQuestion> =>
+  validateList<GrammarCorrectionQuestion>(raw, q => {
+    if (!isNonEmptyString(q.sentence)) return { error: '缺少 sentence 字段' };
+    const sentence = q.sentence.trim().replace(/\s+/g, ' ');
+    if (countBlanks(sentence)) return { error: '改错题的句子不能含有 _____ 空格' };
+
+    const error = typeof q.error === 'string' ? cleanWord(q.error) : '';
+    // 没有错误的句子不需要改正
+    if (!error) return { item: { sentence, error: '', correction: '' }, repaired: sentence !== q.sentence || isNonEmptyString(q.correction) };
+
+    if (!isSingleWord(error)) return { error: `error "${q.error}" 必须是句中的一个单词` };
+    const occurrences = countErrorWord(sentence, error);
+    if (occurrences !== 1) return { error: occurrences ? `"${error}" 在句中出现了 ${occurrences} 次，无法确定错误位置` : `句中找不到 "${error}"` };
+
+    const correction = isNonEmptyString(q.correction) ? cleanPhrase(q.correction) : '';
+    if (!correction || !isPhrase(correction)) return { error: `correction "${q.correction}" 应为 1~${MAX_PHRASE_WORDS} 个单词` };
+    if (correction.toLowerCase() === error.toLowerCase()) return { error: '改正后的写法与原文相同' };
+
+    const acceptedCorrections = Array.isArray(q.acceptedCorrections)
+      ? q.acceptedCorrections.filter(isNonEmptyString).map(cleanPhrase).filter((a: string) => isPhrase(a) && a.toLowerCase() !== correction.toLowerCase())
+      : [];
+    return {
+      item: { sentence, error, correction, ...(acceptedCorrections.length ? { acceptedCorrections } : {}) },
+      repaired: sentence !== q.sentence || error !== q.error || correction !== q.correction
+    };
+  });
+
+export const validateExplanation = (raw: any): GrammarExplanation => {
+  if (!raw || typeof raw !== 'object' || !isNonEmptyString(raw.title) || !isNonEmptyString(raw.usage)) {
+    throw new AiResponseError('AI 返回的语法讲解不完整，请重试。');
+  }
+  return {
+    title: raw.title.trim(),
+    usage: raw.usage,
+    examples: Array.isArray(raw.examples) ? raw.examples.filter(isNonEmptyString) : [],
+    comparisons: typeof raw.comparisons === 'string' ? raw.comparisons : ''
+  };
+};
+
+export const validatePassage = (raw: any): { title: string, passage: string } => {
+  if (!raw || typeof raw !== 'object' || !isNonEmptyString(raw.passage)) {
+    throw new AiResponseError('AI 没有返回阅读短文，请重试。');
+  }
+  return { title: isNonEmptyString(raw.title) ? raw.title.trim() : 'Reading', passage: raw.passage.trim() };
+};
+
+const TFNG_ALIASES: Record<string, TfngAnswer> = {
+  true: 'true', t: 'true', yes: 'true', '正确': 'true',
+  false: 'false', f: 'false', no: 'false', '错误': 'false',
+  notgiven: 'not_given', ng: 'not_given', '未提及': 'not_given'
+};
+
+const MAX_SHORT_ANSWER_WORDS = 6;
+
+export const validateReadingQuestions = (raw: unknown): ValidationResult<ReadingQuestion> =>
+  validateList<ReadingQuestion>(raw, q => {
+    if (!isNonEmptyString(q.question) || !isNonEmptyString(q.answer)) return { error: '缺少 question 或 answer 字段' };
+    const question = q.question.trim();
+    const evidence = isNonEmptyString(q.evidence) ? { evidence: q.evidence.trim() } : {};
+
+    if (q.kind === 'tfng') {
+      const answer = TFNG_ALIASES[q.answer.toLowerCase().replace(/[\s_-]+/g, '')];
+      if (!answer) return { error: `判断题答案 "${q.answer}" 不是 True / False / Not Given` };
+      return { item: { kind: 'tfng', question, answer, ...evidence }, repaired: answer !== q.answer };
+    }
+
+    if (q.kind === 'choice') {
+      if (!Array.isArray(q.options)) return { error: '缺少 options 选项' };
+      const options: string[] = Array.from(new Set<string>(q.options.filter(isNonEmptyString).map((o: string) => o.trim())));
+      if (options.length < 2) return { error: '有效选项少于 2 个' };
+      const given = q.answer.trim();
+      // 答案可能只给了选项字母，如 "B"
+      const letter = /^[A-Da-d]$/.test(given) ? options[given.toUpperCase().charCodeAt(0) - 65] : undefined;
+      const answer = options.find(o => o === given) || options.find(o => o.toLowerCase() === given.toLowerCase()) || letter;
+      if (!answer) return { error: `答案 "${q.answer}" 不在选项中` };
+      return { item: { kind: 'choice', question, options, answer, ...evidence }, repaired: answer !== given || options.length !== q.options.length };
+    }
+
+    if (q.kind === 'short') {
+      const answer = q.answer.trim().replace(/[.。]+$/, '');
+      if (answer.split(/\s+/).length > MAX_SHORT_ANSWER_WORDS) return { error: `简答题答案超过 ${MAX_SHORT_ANSWER_WORDS} 个单词` };
+      const acceptedAnswers = Array.isArray(q.acceptedAnswers)
+        ? q.acceptedAnswers.filter(isNonEmptyString).map((a: string) => a.trim()).filter((a: string) => a.toLowerCase() !== answer.toLowerCase())
+        : [];
+      return { item: { kind: 'short', question, answer, ...(acceptedAnswers.length ? { acceptedAnswers } : {}), ...evidence }, repaired: answer !== q.answer };
+    }
+
+    return { error: `未知题型 "${q.kind}"` };
+  });
+
+// 读取从 start（开引号之后）开始的 JSON 字符串，允许字符串尚未结束
+const readJsonString = (text: string, start: number): { value: string, end: number, complete: boolean } => {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '' };
+  let value = '';
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') return { value, end: i + 1, complete: true };
+    if (ch !== '\\') {
+      value += ch;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += escapes[next] ?? next;
+      i++;
+    }
+  }
+  return { value, end: text.length, complete: false };
+};
+
+const readPartialField = (text: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  return match ? readJsonString(text, match.index + match[0].length).value : undefined;
+};
+
+const readPartialArray = (text: string, key: string): string[] | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!match) return undefined;
+  const values: string[] = [];
+  let i = match.index + match[0].length;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === ']') break;
+    if (ch !== '"') {
+      i++;
+      continue;
+    }
+    const { value, end, complete } = readJsonString(text, i + 1);
+    values.push(value);
+    if (!complete) break;
+    i = end;
+  }
+  return values;
+};
+
+// 流式返回的 JSON 尚不完整时，尽量提取讲解部分已经生成的文字
+export const parsePartialExplanation = (text: string): Partial<GrammarExplanation> => {
+  const start = text.indexOf('"explanation"');
+  if (start === -1) return {};
+  const section = text.slice(start);
+  const partial: Partial<GrammarExplanation> = {};
+  const title = readPartialField(section, 'title');
+  const usage = readPartialField(section, 'usage');
+  const examples = readPartialArray(section, 'examples');
+  const comparisons = readPartialField(section, 'comparisons');
+  if (title !== undefined) partial.title = title;
+  if (usage !== undefined) partial.usage = usage;
+  if (examples !== undefined) partial.examples = examples;
+  if (comparisons !== undefined) partial.comparisons = comparisons;
+  return partial;
+};
+
+export const mergeResults = <T>(a: ValidationResult<T>, b: ValidationResult<T>): ValidationResult<T> => ({
+  items: [...a.items, ...b.items],
+  discarded: [...a.discarded, ...b.discarded],
+  repaired: a.repaired + b.repaired
+});
+
+// 按 keyOf 去重，后出现的重复条目记为丢弃；补题时 AI 常会重复已经出过的题
+export const uniqueItems = <T>(result: ValidationResult<T>, keyOf: (item: T) => string): ValidationResult<T> => {
+  const seen = new Set<string>();
+  const items: T[] = [];
+  const discarded = [...result.discarded];
+  result.items.forEach((item, index) => {
+    const key = keyOf(item).trim().toLowerCase().replace(/\s+/g, ' ');
+    if (seen.has(key)) {
+      discarded.push({ index, reason: '与前面的题目重复', item });
+      return;
+    }
+    seen.add(key);
+    items.push(item);
+  });
+  return { ...result, items, discarded };
+};
+
+// 报告里展示被丢弃条目的原文（句子、题干或单词），取不到时返回空字符串
+export const describeDiscarded = (item: unknown): string => {
+  if (!item || typeof item !== 'object') return '';
+  const { sentence, question, en } = item as Record<string, unknown>;
+  const text = [sentence, question, en].find(v => typeof v === 'string' && v.trim());
+  return typeof text === 'string' ? text : '';
+};
+
+export const toReport = <T>(label: string, requested: number, result: ValidationResult<T>): ValidationReport => ({
+  label,
+  requested,
+  delivered: result.items.length,
+  repaired: result.repaired,
+  discarded: result.discarded
+});
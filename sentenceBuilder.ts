@@ -0,0 +1,77 @@
+import { GrammarOrderQuestion } from './types';
+
+export interface OrderToken {
+  id: number;
+  text: string;
+}
+
+const END_MARK = /[.?!]+$/;
+
+// 句末标点固定显示在最后，不参与排序
+export const endMarkOf = (sentence: string): string => sentence.trim().match(END_MARK)?.[0] || '.';
+
+// 常见的句首词：首字母大写只是因为在句首，做成词块时改回小写
+const COMMON_STARTERS = new Set(`
+  a an the this that these those there here it he she we you they my your his her its our their
+  what when where which who whom whose why how do does did don't doesn't didn't is are was were isn't aren't wasn't weren't
+  be been have has had haven't hasn't can could will would shall should may might must can't won't
+  in on at to for from with by of about after before during since until as if because although though while
+  and but or so then now today tonight yesterday tomorrow last next every each some many much all both no not
+  please let let's one two three usually often sometimes always never once maybe perhaps also yes
+`.trim().split(/\s+/));
+
+// 句首词的大写会暴露哪个词在最前面；"I" 和专有名词保持原样
+const lowerFirstWord = (word: string): string =>
+  COMMON_STARTERS.has(word.toLowerCase().replace(/[‘’`]/g, "'")) ? word.toLowerCase() : word;
+
+// 逗号、分号单独成块，其余按空格切分
+export const orderTokens = (sentence: string): string[] =>
+  sentence.trim().replace(END_MARK, '').split(/\s+/).flatMap(word => {
+    const match = word.match(/^(.*?)([,;:]+)$/);
+    return match ? [match[1], match[2]].filter(Boolean) : [word];
+  }).filter(Boolean).map((token, i) => i === 0 ? lowerFirstWord(token) : token);
+
+const normalizeToken = (token: string) => token.toLowerCase().replace(/[‘’`]/g, "'");
+
+const sameTokens = (a: string[], b: string[]) => a.length === b.length && a.every((t, i) => normalizeToken(t) === normalizeToken(b[i]));
+
+// 判断两个句子是否由完全相同的一组词构成（不计顺序和大小写）
+export const isReordering = (a: string, b: string): boolean =>
+  sameTokens(orderTokens(a).map(normalizeToken).sort(), orderTokens(b).map(normalizeToken).sort());
+
+// 拼出的句子首字母大写
+export const joinTokens = (tokens: string[], endMark: string = ''): string => {
+  const text = tokens.join(' ').replace(/\s+([,;:])/g, '$1');
+  return text.charAt(0).toUpperCase() + text.slice(1) + endMark;
+};
+
+const orderCandidates = (question: GrammarOrderQuestion) =>
+  [question.sentence, ...(question.acceptedOrders || [])].map(orderTokens);
+
+// 打乱顺序，尽量避免恰好和某个正确答案相同
+export const scrambleTokens = (question: GrammarOrderQuestion, random: () => number = Math.random): OrderToken[] => {
+  const tokens = orderTokens(question.sentence).map((text, id) => ({ id, text }));
+  const candidates = orderCandidates(question);
+  let result = tokens;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    result = [...tokens];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    if (!candidates.some(c => sameTokens(c, result.map(t => t.text)))) break;
+  }
+  return result;
+};
+
+export interface OrderCheck {
+  correct: boolean;
+  // 答对时是学习者拼出的那一种语序，答错时是参考答案
+  expected: string;
+}
+
+export const checkOrder = (built: string[], question: GrammarOrderQuestion): OrderCheck => {
+  const candidates = [question.sentence, ...(question.acceptedOrders || [])];
+  const matched = candidates.find(c => sameTokens(orderTokens(c), built));
+  return { correct: !!matched, expected: matched || question.sentence };
+};
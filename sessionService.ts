@@ -0,0 +1,155 @@
+
+import { SessionKind, SessionRecord, QuestionResult } from './types';
+import { STORES, idbGetAll, idbPut } from './db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SESSION_LABELS: Record<SessionKind, string> = {
+  matching: '单词连线',
+  context: '语境填空',
+  dictation: '听写',
+  grammar_fill: '语法填空',
+  grammar_choice: '语法选择',
+  grammar_order: '连词成句',
+  grammar_correction: '语法改错',
+  reading: '阅读理解'
+};
+
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const records = await idbGetAll<SessionRecord>(STORES.sessions);
+  return records.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+export const createSession = (kind: SessionKind, topic: string, results: QuestionResult[], startedAt: number, endedAt: number = Date.now()): SessionRecord => ({
+  id: `${kind}-${startedAt}`,
+  kind,
+  topic,
+  results,
+  startedAt,
+  endedAt
+});
+
+export const saveSession = (record: SessionRecord) => idbPut(STORES.sessions, record);
+
+export interface SessionSummary {
+  total: number;
+  correct: number;
+  accuracy: number;
+  hintsUsed: number;
+  durationMs: number;
+}
+
+export const summarizeSession = (record: SessionRecord): SessionSummary => {
+  const correct = record.results.filter(r => r.correct).length;
+  return {
+    total: record.results.length,
+    correct,
+    accuracy: record.results.length ? Math.round(correct / record.results.length * 100) : 0,
+    hintsUsed: record.results.reduce((sum, r) => sum + r.hintsUsed, 0),
+    durationMs: Math.max(0, record.endedAt - record.startedAt)
+  };
+};
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))} 秒`;
+  if (minutes < 60) return `${minutes} 分钟`;
+  return `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分钟`;
+};
+
+// 按本地日期分组，避免跨时区时凌晨的练习被算到前一天
+const dateKey = (ts: number): string => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export interface DailyStat {
+  date: string;
+  total: number;
+  correct: number;
+  durationMs: number;
+}
+
+export interface WeakItem {
+  label: string;
+  attempts: number;
+  wrong: number;
+  accuracy: number;
+}
+
+export interface Dashboard {
+  daily: DailyStat[];
+  streakDays: number;
+  totalDurationMs: number;
+  totalQuestions: number;
+  accuracy: number;
+  weakestWords: WeakItem[];
+  weakestGrammar: WeakItem[];
+}
+
+// 今天还没练习时，连续天数从昨天往前数，不会因为今天尚未开始而清零
+const countStreak = (days: Set<string>, now: number): number => {
+  let cursor = days.has(dateKey(now)) ? now : now - DAY_MS;
+  let streak = 0;
+  while (days.has(dateKey(cursor))) {
+    streak++;
+    cursor -= DAY_MS;
+  }
+  return streak;
+};
+
+const rankWeakest = (tally: Map<string, { attempts: number, wrong: number }>, limit: number): WeakItem[] =>
+  Array.from(tally.entries())
+    .filter(([, t]) => t.wrong > 0)
+    .map(([label, t]) => ({ label, ...t, accuracy: Math.round((t.attempts - t.wrong) / t.attempts * 100) }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.wrong - a.wrong)
+    .slice(0, limit);
+
+const tallyInto = (tally: Map<string, { attempts: number, wrong: number }>, label: string, correct: boolean) => {
+  const entry = tally.get(label) || { attempts: 0, wrong: 0 };
+  entry.attempts++;
+  if (!correct) entry.wrong++;
+  tally.set(label, entry);
+};
+
+export const buildDashboard = (sessions: SessionRecord[], days: number = 14, now: number = Date.now()): Dashboard => {
+  const daily: DailyStat[] = Array.from({ length: days }, (_, i) => ({
+    date: dateKey(now - (days - 1 - i) * DAY_MS),
+    total: 0,
+    correct: 0,
+    durationMs: 0
+  }));
+  const words = new Map<string, { attempts: number, wrong: number }>();
+  const grammar = new Map<string, { attempts: number, wrong: number }>();
+  let totalQuestions = 0;
+  let totalCorrect = 0;
+  let totalDurationMs = 0;
+
+  sessions.forEach(session => {
+    const summary = summarizeSession(session);
+    totalQuestions += summary.total;
+    totalCorrect += summary.correct;
+    totalDurationMs += summary.durationMs;
+    const day = daily.find(d => d.date === dateKey(session.startedAt));
+    if (day) {
+      day.total += summary.total;
+      day.correct += summary.correct;
+      day.durationMs += summary.durationMs;
+    }
+    session.results.forEach(r => {
+      if (session.kind.startsWith('grammar_')) tallyInto(grammar, session.topic, r.correct);
+      // 阅读理解题的答案不是单个单词，不计入薄弱单词
+      else if (session.kind !== 'reading') tallyInto(words, r.answer.toLowerCase(), r.correct);
+    });
+  });
+
+  return {
+    daily,
+    streakDays: countStreak(new Set(sessions.map(s => dateKey(s.startedAt))), now),
+    totalDurationMs,
+    totalQuestions,
+    accuracy: totalQuestions ? Math.round(totalCorrect / totalQuestions * 100) : 0,
+    weakestWords: rankWeakest(words, 8),
+    weakestGrammar: rankWeakest(grammar, 5)
+  };
+};
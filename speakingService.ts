@@ -0,0 +1,212 @@
+
+import { TtsAccent } from './types';
+import { DiffOp, diffWords, editDistance, normalizeToken } from './textDiff';
+
+export interface RecognitionResult {
+  transcript: string;
+  // 0 ~ 1，识别服务不提供置信度时为 null
+  confidence: number | null;
+  durationMs: number;
+}
+
+export interface ListenOptions {
+  lang: string;
+  // 识别过程中的临时文本，用于实时显示
+  onInterim?: (text: string) => void;
+}
+
+export interface ListenSession {
+  result: Promise<RecognitionResult>;
+  // 结束录音并给出最终结果
+  stop: () => void;
+  // 放弃本次录音，result 以 AbortError 结束
+  abort: () => void;
+}
+
+// 语音识别接口：默认使用浏览器的 Web Speech API，也可以注册基于音频模型的实现或测试用的假识别器
+export interface SpeechRecognizer {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  listen: (options: ListenOptions) => ListenSession;
+}
+
+export class SpeechRecognitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeechRecognitionError';
+  }
+}
+
+const LANGS: Record<TtsAccent, string> = {
+  us: 'en-US',
+  uk: 'en-GB'
+};
+
+export const recognitionLang = (accent: TtsAccent) => LANGS[accent];
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': '没有麦克风权限，请在浏览器中允许使用麦克风。',
+  'service-not-allowed': '浏览器不允许使用语音识别服务。',
+  'audio-capture': '没有检测到麦克风。',
+  'network': '语音识别需要联网，请检查网络连接。'
+};
+
+const getRecognitionCtor = (): any =>
+  typeof window === 'undefined' ? undefined : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+const browserRecognizer: SpeechRecognizer = {
+  id: 'browser',
+  label: '浏览器语音识别',
+  isAvailable: () => !!getRecognitionCtor(),
+  listen: ({ lang, onInterim }) => {
+    const Recognition = getRecognitionCtor();
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.interimResults = true;
+    recognition.continuous = true;
+    recognition.maxAlternatives = 1;
+
+    let aborted = false;
+    const result = new Promise<RecognitionResult>((resolve, reject) => {
+      const startedAt = Date.now();
+      let speechStartedAt: number | null = null;
+      let speechEndedAt: number | null = null;
+      const finals: { text: string, confidence: number }[] = [];
+
+      recognition.onspeechstart = () => { speechStartedAt = Date.now(); };
+      recognition.onspeechend = () => { speechEndedAt = Date.now(); };
+      recognition.onresult = (event: any) => {
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const alternative = event.results[i][0];
+          if (event.results[i].isFinal) finals.push({ text: alternative.transcript, confidence: alternative.confidence });
+          else interim += alternative.transcript;
+        }
+        onInterim?.([...finals.map(f => f.text), interim].join(' ').trim());
+      };
+      recognition.onerror = (event: any) => {
+        // no-speech 交给 onend 以空结果结束
+        if (event.error === 'no-speech') return;
+        if (event.error === 'aborted') reject(abortError());
+        else reject(new SpeechRecognitionError(RECOGNITION_ERRORS[event.error] || `语音识别失败：${event.error}`));
+      };
+      recognition.onend = () => {
+        if (aborted) return reject(abortError());
+        const confidences = finals.map(f => f.confidence).filter(c => c > 0);
+        resolve({
+          transcript: finals.map(f => f.text).join(' ').trim(),
+          confidence: confidences.length ? confidences.reduce((a, b) => a + b, 0) / confidences.length : null,
+          durationMs: (speechEndedAt ?? Date.now()) - (speechStartedAt ?? startedAt)
+        });
+      };
+    });
+
+    recognition.start();
+    return {
+      result,
+      stop: () => recognition.stop(),
+      abort: () => {
+        aborted = true;
+        recognition.abort();
+      }
+    };
+  }
+};
+
+// 测试用：按顺序返回预设的转写文本，不访问麦克风
+export const createFakeRecognizer = (transcripts: string[], durationMs: number = 3000): SpeechRecognizer => {
+  let next = 0;
+  return {
+    id: 'fake',
+    label: '模拟识别',
+    isAvailable: () => true,
+    listen: ({ onInterim }) => {
+      const transcript = transcripts[next++ % transcripts.length] || '';
+      let settle: (r: RecognitionResult) => void = () => {};
+      let fail: (e: Error) => void = () => {};
+      const result = new Promise<RecognitionResult>((resolve, reject) => {
+        settle = resolve;
+        fail = reject;
+      });
+      onInterim?.(transcript);
+      return {
+        result,
+        stop: () => settle({ transcript, confidence: null, durationMs }),
+        abort: () => fail(abortError())
+      };
+    }
+  };
+};
+
+let activeRecognizer: SpeechRecognizer = browserRecognizer;
+
+export const registerRecognizer = (recognizer: SpeechRecognizer) => {
+  activeRecognizer = recognizer;
+};
+
+export const getRecognizer = (): SpeechRecognizer | null => activeRecognizer.isAvailable() ? activeRecognizer : null;
+
+export interface ReadingWord {
+  status: 'correct' | 'mispronounced' | 'skipped';
+  target: string;
+  heard?: string;
+}
+
+export interface ReadingScore {
+  words: ReadingWord[];
+  // 多读、重复的单词
+  extraWords: string[];
+  accuracy: number;
+  wordsPerMinute: number;
+  fluency: number;
+}
+
+// 学习者朗读的目标语速，达到后语速分即为满分
+const TARGET_WPM = 90;
+
+const tokenize = (text: string) => text.split(/\s+/).filter(w => normalizeToken(w));
+
+// 识别结果和原文只差一两个字母（如复数、时态词尾）时视为发音接近，按半对计分
+const isNearMiss = (op: DiffOp): boolean => op.type === 'substitute'
+  && editDistance(normalizeToken(op.expected), normalizeToken(op.actual)) <= Math.max(1, Math.floor(normalizeToken(op.expected).length / 4));
+
+export const scoreReading = (target: string, result: RecognitionResult): ReadingScore => {
+  const targetWords = tokenize(target);
+  const spokenWords = tokenize(result.transcript);
+  const ops = diffWords(targetWords, spokenWords);
+
+  const words: ReadingWord[] = [];
+  const extraWords: string[] = [];
+  let credit = 0;
+  ops.forEach(op => {
+    if (op.type === 'extra') {
+      extraWords.push(op.actual);
+      return;
+    }
+    if (op.type === 'match') {
+      credit += 1;
+      words.push({ status: 'correct', target: op.expected });
+    } else if (op.type === 'substitute') {
+      if (isNearMiss(op)) credit += 0.5;
+      words.push({ status: 'mispronounced', target: op.expected, heard: op.actual });
+    } else {
+      words.push({ status: 'skipped', target: op.expected });
+    }
+  });
+
+  const accuracy = targetWords.length ? credit / targetWords.length : 0;
+  const minutes = result.durationMs / 60000;
+  const wordsPerMinute = minutes > 0 ? Math.round(spokenWords.length / minutes) : 0;
+  const pace = Math.min(1, wordsPerMinute / TARGET_WPM);
+  // 多余的词通常来自停顿重读，按比例扣分
+  const hesitation = targetWords.length ? Math.min(1, extraWords.length / targetWords.length) : 0;
+  const confidence = result.confidence ?? accuracy;
+  const fluency = spokenWords.length
+    ? Math.round(100 * Math.max(0, 0.6 * accuracy + 0.2 * pace + 0.2 * confidence - 0.2 * hesitation))
+    : 0;
+
+  return { words, extraWords, accuracy: Math.round(accuracy * 100), wordsPerMinute, fluency };
+};
@@ -0,0 +1,111 @@
+
+import { AppSettings, TtsAccent } from './types';
+
+export interface SpeakOptions {
+  accent: TtsAccent;
+  rate: number;
+}
+
+// 发音引擎接口：默认使用浏览器自带的 SpeechSynthesis，也可以注册 AI 服务商的 TTS
+export interface TtsEngine {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  speak: (text: string, options: SpeakOptions) => Promise<void>;
+  cancel: () => void;
+}
+
+const LANGS: Record<TtsAccent, string> = {
+  us: 'en-US',
+  uk: 'en-GB'
+};
+
+const pickVoice = (lang: string): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  return voices.find(v => v.lang === lang) || voices.find(v => v.lang.replace('_', '-').startsWith(lang));
+};
+
+const browserEngine: TtsEngine = {
+  id: 'browser',
+  label: '浏览器语音',
+  isAvailable: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+  speak: (text, { accent, rate }) => new Promise((resolve, reject) => {
+    const synth = window.speechSynthesis;
+    synth.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = LANGS[accent];
+    utterance.voice = pickVoice(utterance.lang) || null;
+    utterance.rate = rate;
+    // 被下一次朗读或 cancel 打断视为正常结束；其他错误交给调用方决定是否提示
+    utterance.onend = () => resolve();
+    utterance.onerror = (e) => e.error === 'interrupted' || e.error === 'canceled' ? resolve() : reject(new Error(`语音朗读失败（${e.error}）`));
+    synth.speak(utterance);
+  }),
+  cancel: () => window.speechSynthesis.cancel()
+};
+
+// 把返回音频数据的接口（如 OpenAI /v1/audio/speech）包装成发音引擎
+export const createAudioEngine = (
+  id: string,
+  label: string,
+  fetchAudio: (text: string, options: SpeakOptions) => Promise<Blob>
+): TtsEngine => {
+  let current: HTMLAudioElement | null = null;
+  const cancel = () => {
+    current?.pause();
+    current = null;
+  };
+  return {
+    id,
+    label,
+    isAvailable: () => typeof Audio !== 'undefined',
+    speak: async (text, options) => {
+      cancel();
+      const url = URL.createObjectURL(await fetchAudio(text, options));
+      const audio = new Audio(url);
+      current = audio;
+      try {
+        await new Promise<void>((resolve, reject) => {
+          audio.onended = () => resolve();
+          audio.onerror = () => reject(new Error('语音播放失败'));
+          audio.onpause = () => resolve();
+          audio.play().catch(e => e?.name === 'AbortError' ? resolve() : reject(e));
+        });
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    },
+    cancel
+  };
+};
+
+let activeEngine: TtsEngine = browserEngine;
+
+// 注册后立即生效；传入不可用的引擎时仍回退到浏览器语音
+export const registerTtsEngine = (engine: TtsEngine) => {
+  activeEngine = engine;
+};
+
+const currentEngine = (): TtsEngine | null => {
+  if (activeEngine.isAvailable()) return activeEngine;
+  return browserEngine.isAvailable() ? browserEngine : null;
+};
+
+export const isSpeechAvailable = (): boolean => currentEngine() !== null;
+
+// 去掉例句里的中文翻译和 Markdown 标记，只朗读英文部分
+export const toSpeakableText = (text: string): string => text
+  .replace(/[(（][^)）]*[一-鿿][^)）]*[)）]/g, '')
+  .replace(/[　-〿一-鿿＀-￯]+/g, ' ')
+  .replace(/\*\*|__|`/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+export const speak = async (text: string, settings: AppSettings): Promise<void> => {
+  const engine = currentEngine();
+  const speakable = toSpeakableText(text);
+  if (!engine || !speakable) return;
+  await engine.speak(speakable, { accent: settings.ttsAccent, rate: settings.ttsRate });
+};
+
+export const stopSpeaking = () => currentEngine()?.cancel();
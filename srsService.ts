@@ -0,0 +1,96 @@
+
+import { ReviewCard, WordPair } from './types';
+import { isInflectionOf } from './answerEvaluator';
+
+const STORAGE_KEY = 'lingo_srs';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const normalizeWord = (word: string): string => word.trim().toLowerCase();
+
+// 语境填空的答案可能是变形（如 went），复习卡片要记在输入的原词（go）上；对不上任何输入的单词时返回 null
+export const findListWord = (answer: string, words: string[]): string | null => {
+  const key = normalizeWord(answer);
+  return words.find(w => normalizeWord(w) === key) || words.find(w => isInflectionOf(key, normalizeWord(w))) || null;
+};
+
+const loadCards = (): Record<string, ReviewCard> => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return {};
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return {};
+  }
+};
+
+const saveCards = (cards: Record<string, ReviewCard>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+};
+
+const createCard = (en: string, cn: string, now: number): ReviewCard => ({
+  word: normalizeWord(en),
+  en: en.trim(),
+  cn,
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  lastReviewed: null
+});
+
+// SM-2：答对 quality=5，答错 quality=2
+export const scheduleCard = (card: ReviewCard, correct: boolean, now: number = Date.now()): ReviewCard => {
+  const quality = correct ? 5 : 2;
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (!correct) {
+    return {
+      ...card,
+      ease,
+      interval: 1,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due: now + DAY_MS,
+      lastReviewed: now
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.ease);
+  return {
+    ...card,
+    ease,
+    interval,
+    repetitions,
+    due: now + interval * DAY_MS,
+    lastReviewed: now
+  };
+};
+
+export const recordReview = (word: { en: string, cn?: string }, correct: boolean, now: number = Date.now()): ReviewCard | null => {
+  const key = normalizeWord(word.en);
+  if (!key) return null;
+  const cards = loadCards();
+  const existing = cards[key] || createCard(word.en, word.cn || '', now);
+  const next = scheduleCard({ ...existing, cn: word.cn || existing.cn }, correct, now);
+  cards[key] = next;
+  saveCards(cards);
+  return next;
+};
+
+export const updateCardTranslations = (pairs: WordPair[]) => {
+  const cards = loadCards();
+  pairs.forEach(p => {
+    const key = normalizeWord(p.en);
+    if (cards[key]) cards[key] = { ...cards[key], cn: p.cn };
+  });
+  saveCards(cards);
+};
+
+export const getDueCards = (now: number = Date.now()): ReviewCard[] => {
+  return Object.values(loadCards())
+    .filter(c => c.due <= now)
+    .sort((a, b) => a.due - b.due);
+};
@@ -0,0 +1,61 @@
+
+export type DiffOp<T = string> =
+  | { type: 'match', expected: T, actual: T }
+  | { type: 'substitute', expected: T, actual: T }
+  | { type: 'missing', expected: T }
+  | { type: 'extra', actual: T };
+
+// 经典 Levenshtein 动态规划表，table[i][j] 为 a 前 i 项变成 b 前 j 项的最少编辑次数
+const buildTable = (a: ArrayLike<string>, b: ArrayLike<string>): number[][] => {
+  const table = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) table[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      table[i][j] = Math.min(
+        table[i - 1][j] + 1,
+        table[i][j - 1] + 1,
+        table[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+  }
+  return table;
+};
+
+export const editDistance = (a: string, b: string): number => buildTable(a, b)[a.length][b.length];
+
+// a、b 用于比较，expected、actual 是对应位置上要展示的原始内容
+// preferGaps 为 true 时，代价相同的情况下优先判为漏掉/多出，而不是替换
+const align = (a: ArrayLike<string>, b: ArrayLike<string>, expected: ArrayLike<string>, actual: ArrayLike<string>, preferGaps: boolean = false): DiffOp[] => {
+  const table = buildTable(a, b);
+  const ops: DiffOp[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    const isMatch = i > 0 && j > 0 && a[i - 1] === b[j - 1] && table[i][j] === table[i - 1][j - 1];
+    const canSubstitute = i > 0 && j > 0 && !isMatch && table[i][j] === table[i - 1][j - 1] + 1;
+    const canSkip = i > 0 && table[i][j] === table[i - 1][j] + 1;
+    const canInsert = j > 0 && table[i][j] === table[i][j - 1] + 1;
+    if (isMatch || (canSubstitute && !(preferGaps && (canSkip || canInsert)))) {
+      ops.push({ type: isMatch ? 'match' : 'substitute', expected: expected[i - 1], actual: actual[j - 1] });
+      i--;
+      j--;
+    } else if (canSkip) {
+      ops.push({ type: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'extra', actual: actual[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+};
+
+// 按字母对齐正确拼写和学生的拼写，比较时不区分大小写
+export const diffLetters = (expected: string, actual: string): DiffOp[] =>
+  align(expected.toLowerCase(), actual.toLowerCase(), expected, actual);
+
+export const normalizeToken = (word: string): string => word.toLowerCase().replace(/[^a-z0-9']/g, '');
+
+// 按单词对齐，忽略大小写和标点；展示时保留原句中的写法
+export const diffWords = (expected: string[], actual: string[]): DiffOp[] =>
+  align(expected.map(normalizeToken), actual.map(normalizeToken), expected, actual, true);
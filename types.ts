@@ -3,11 +3,39 @@ export interface WordPair {
   id: string;
   en: string;
   cn: string;
+  phonetic?: string;
+  partOfSpeech?: string;
+  example?: string;
+}
+
+export interface NotebookEntry {
+  id: string;
+  en: string;
+  cn: string;
+  phonetic: string;
+  partOfSpeech: string;
+  example: string;
+  source: string;
+  tags: string[];
+  createdAt: number;
+  lastPracticedAt: number | null;
+}
+
+export interface WordList {
+  id: string;
+  name: string;
+  words: WordPair[];
+  // 导入来源，如文件名
+  source: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ContextQuestion {
   sentence: string;
   answer: string;
+  // 同样正确的其他答案，例如 learned / learnt
+  acceptedAnswers?: string[];
 }
 
 export interface GrammarExplanation {
@@ -17,10 +45,17 @@ export interface GrammarExplanation {
   comparisons: string;
 }
 
-export interface GrammarFillQuestion {
-  sentence: string;
+// 答案可以是多个单词，如 has been doing
+export interface FillBlank {
   hint: string;
   answer: string;
+  acceptedAnswers?: string[];
+}
+
+// sentence 中的 _____ 依次对应 blanks 中的每一项
+export interface GrammarFillQuestion {
+  sentence: string;
+  blanks: FillBlank[];
 }
 
 export interface GrammarChoiceQuestion {
@@ -29,18 +64,231 @@ export interface GrammarChoiceQuestion {
   answer: string;
 }
 
+// 连词成句：打乱 sentence 的单词让学习者重新排列，acceptedOrders 是同样正确的其他语序
+export interface GrammarOrderQuestion {
+  sentence: string;
+  translation?: string;
+  acceptedOrders?: string[];
+}
+
+// 改错：句中至多一处错误，error 是写错的那个单词，句子没有错误时 error 和 correction 都为空字符串
+export interface GrammarCorrectionQuestion {
+  sentence: string;
+  error: string;
+  correction: string;
+  acceptedCorrections?: string[];
+}
+
 export interface GrammarPracticeData {
   explanation: GrammarExplanation;
   fillQuestions: GrammarFillQuestion[];
   choiceQuestions: GrammarChoiceQuestion[];
+  orderQuestions: GrammarOrderQuestion[];
+  correctionQuestions: GrammarCorrectionQuestion[];
 }
 
-export type GrammarSubMode = 'explanation' | 'fill' | 'choice';
+export type TfngAnswer = 'true' | 'false' | 'not_given';
+
+// evidence 是原文中能支撑答案的句子，答题后展示
+export type ReadingQuestion = (
+  | { kind: 'choice', question: string, options: string[], answer: string }
+  | { kind: 'tfng', question: string, answer: TfngAnswer }
+  | { kind: 'short', question: string, answer: string, acceptedAnswers?: string[] }
+) & { evidence?: string };
 
-export type AppMode = 'input' | 'matching' | 'context' | 'settings' | 'grammar_input' | 'grammar_practice';
+export interface ReadingPassage {
+  title: string;
+  passage: string;
+  questions: ReadingQuestion[];
+}
+
+export type PracticeSetContent =
+  | { kind: 'matching', pairs: WordPair[] }
+  | { kind: 'context', questions: ContextQuestion[] }
+  | { kind: 'grammar', data: GrammarPracticeData };
+
+// 可分享的练习包，打开时不需要再调用 AI
+export interface PracticeSet {
+  format: 'tonglanguage-practice-set';
+  version: number;
+  title: string;
+  createdAt: number;
+  content: PracticeSetContent;
+}
+
+export interface ReviewCard {
+  word: string;
+  en: string;
+  cn: string;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  due: number;
+  lastReviewed: number | null;
+}
+
+export type MistakeQuestion =
+  | { kind: 'context', question: ContextQuestion }
+  | { kind: 'grammar_fill', question: GrammarFillQuestion }
+  | { kind: 'grammar_choice', question: GrammarChoiceQuestion }
+  | { kind: 'grammar_order', question: GrammarOrderQuestion }
+  | { kind: 'grammar_correction', question: GrammarCorrectionQuestion };
+
+export type MistakeRecord = MistakeQuestion & {
+  id: string;
+  source: string;
+  userAnswer: string;
+  analysis: string | null;
+  createdAt: number;
+  updatedAt: number;
+  wrongCount: number;
+  correctStreak: number;
+};
+
+// 作业题目与错题本使用同一种结构
+export type AssignmentQuestion = MistakeQuestion;
+
+export interface Assignment {
+  format: 'tonglanguage-assignment';
+  version: number;
+  id: string;
+  title: string;
+  questions: AssignmentQuestion[];
+  dueAt: number | null;
+  // 0 表示不限次数
+  attemptsAllowed: number;
+  allowAiExplanations: boolean;
+  // 每份作业单独生成的 ECDSA 密钥：签名私钥随作业文件发给学生，验证公钥只保存在教师本机
+  signingKey?: JsonWebKey;
+  verifyKey?: JsonWebKey;
+  createdAt: number;
+}
+
+export interface AssignmentAnswer {
+  userAnswer: string;
+  correct: boolean;
+  usedAi: boolean;
+}
+
+export interface AssignmentResult {
+  format: 'tonglanguage-assignment-result';
+  version: number;
+  assignmentId: string;
+  assignmentTitle: string;
+  student: string;
+  attempt: number;
+  // 按题目顺序排列
+  answers: AssignmentAnswer[];
+  startedAt: number;
+  submittedAt: number;
+  // 覆盖以上全部字段；生成环境不支持 Web Crypto 时没有签名
+  signature?: string;
+}
+
+export type GrammarSubMode = 'explanation' | 'fill' | 'choice' | 'order' | 'correction';
+export type GrammarQuestionKind = Exclude<GrammarSubMode, 'explanation'>;
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1';
+
+// skill 为 vocabulary 或 grammar:<语法点>，rating 是 Elo 能力分
+export interface SkillRating {
+  skill: string;
+  label: string;
+  rating: number;
+  attempts: number;
+  updatedAt: number;
+}
+
+export type CurriculumStage = 'grade7' | 'grade8' | 'grade9' | 'senior';
+
+// 语法课程大纲中的一个知识点，name 是规范名称，也是发给 AI 的语法点
+export interface CurriculumNode {
+  id: string;
+  name: string;
+  english: string;
+  aliases: string[];
+  stage: CurriculumStage;
+  level: CefrLevel;
+  prerequisites: string[];
+  description: string;
+}
+
+export type SessionKind = 'matching' | 'context' | 'dictation' | 'grammar_fill' | 'grammar_choice' | 'grammar_order' | 'grammar_correction' | 'reading';
+
+export interface QuestionResult {
+  prompt: string;
+  answer: string;
+  userAnswer: string;
+  correct: boolean;
+  hintsUsed: number;
+}
+
+// topic 对单词练习是单词列表，对语法练习是语法点名称
+export interface SessionRecord {
+  id: string;
+  kind: SessionKind;
+  topic: string;
+  results: QuestionResult[];
+  startedAt: number;
+  endedAt: number;
+}
+
+export type AppMode = 'input' | 'matching' | 'context' | 'settings' | 'grammar_input' | 'grammar_practice' | 'notebook' | 'mistakes' | 'dashboard' | 'dictation' | 'speaking' | 'import' | 'assignments' | 'question_editor' | 'reading';
 export type AppTheme = 'duolingo' | 'aero';
 
+export type VerbForm = 'base' | 'third' | 'past' | 'pp' | 'ing';
+
+export interface LocalWord {
+  en: string;
+  cn: string;
+  phonetic: string;
+  partOfSpeech: string;
+  sentences: string[];
+}
+
+export interface LocalVerb {
+  base: string;
+  third: string;
+  past: string;
+  pp: string;
+  ing: string;
+}
+
+export interface LocalGrammarFrame {
+  sentence: string;
+  form: VerbForm;
+  verbs: string[];
+}
+
+export interface LocalGrammarPoint {
+  name: string;
+  aliases: string[];
+  explanation: GrammarExplanation;
+  frames: LocalGrammarFrame[];
+}
+
+export interface LocalContentPack {
+  id: string;
+  words: LocalWord[];
+  verbs: LocalVerb[];
+  grammar: LocalGrammarPoint[];
+}
+
+export type AiProvider = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+export type TtsAccent = 'us' | 'uk';
+
+// 主模型请求失败后按顺序尝试的备用模型，留空的字段沿用对应服务商的默认值
+export interface AiFallback {
+  provider: AiProvider;
+  baseUrl: string;
+  apiKey: string;
+  modelName: string;
+}
+
 export interface AppSettings {
+  provider: AiProvider;
   baseUrl: string;
   customApiKey: string;
   modelName: string;
@@ -49,4 +297,15 @@ export interface AppSettings {
   aeroOpacity: number;
   wordPracticeCount: number;
   grammarPracticeCount: number;
+  mistakeRedoStreak: number;
+  offlineMode: boolean;
+  cacheEnabled: boolean;
+  requestTimeoutSec: number;
+  maxRetries: number;
+  fallbacks: AiFallback[];
+  ttsAccent: TtsAccent;
+  ttsRate: number;
+  ttsAutoPlay: boolean;
+  // 生成题目后先进入编辑页检查，再开始练习
+  reviewBeforePractice: boolean;
 }
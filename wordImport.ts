@@ -0,0 +1,248 @@
+
+import { WordPair } from './types';
+
+export type ImportFormat = 'csv' | 'tsv' | 'txt' | 'anki';
+
+export type ImportField = 'en' | 'cn' | 'phonetic' | 'partOfSpeech' | 'example' | 'ignore';
+
+export const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV（逗号分隔）',
+  tsv: 'TSV（制表符分隔）',
+  txt: '纯文本（每行一个单词）',
+  anki: 'Anki 导出 (.txt)'
+};
+
+export const FIELD_LABELS: Record<ImportField, string> = {
+  en: '英文单词',
+  cn: '中文释义',
+  phonetic: '音标',
+  partOfSpeech: '词性',
+  example: '例句',
+  ignore: '忽略此列'
+};
+
+export interface ParsedTable {
+  format: ImportFormat;
+  // 表头列名，没有表头时为 null（Anki 的列名来自 #columns 行）
+  header: string[] | null;
+  rows: string[][];
+}
+
+export interface ImportedWord {
+  en: string;
+  cn: string;
+  phonetic: string;
+  partOfSpeech: string;
+  example: string;
+}
+
+const CJK = /[\u3400-\u9fff]/;
+
+const HEADER_ALIASES: Record<Exclude<ImportField, 'ignore'>, string[]> = {
+  en: ['en', 'english', 'word', 'words', 'term', 'front', 'vocabulary', '单词', '英文', '英语'],
+  cn: ['cn', 'zh', 'chinese', 'meaning', 'translation', 'definition', 'back', '中文', '释义', '词义', '翻译', '意思'],
+  phonetic: ['phonetic', 'phonetics', 'ipa', 'pronunciation', '音标', '发音'],
+  partOfSpeech: ['pos', 'part of speech', 'partofspeech', 'type', '词性'],
+  example: ['example', 'examples', 'sentence', '例句']
+};
+
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+  colon: ':'
+};
+
+// 支持引号包裹、"" 转义以及引号内换行（RFC 4180）
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && !field.trim()) {
+      field = '';
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.map(r => r.map(f => f.trim())).filter(r => r.some(Boolean));
+};
+
+const decodeEntities = (text: string): string => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Anki 字段里常带 HTML 和 [sound:xxx.mp3] 引用
+const stripAnkiMarkup = (field: string): string => decodeEntities(field
+  .replace(/<br\s*\/?>/gi, ' ')
+  .replace(/<[^>]+>/g, '')
+  .replace(/\[sound:[^\]]*\]/g, ''))
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const parseAnki = (text: string): ParsedTable => {
+  const lines = text.split(/\r?\n/);
+  const directives = new Map<string, string>();
+  while (lines.length && lines[0].startsWith('#')) {
+    const [key, ...value] = lines.shift()!.slice(1).split(':');
+    directives.set(key.trim().toLowerCase(), value.join(':').trim());
+  }
+  const delimiter = ANKI_SEPARATORS[directives.get('separator')?.toLowerCase() || 'tab'] || directives.get('separator') || '\t';
+  const columns = directives.get('columns');
+  return {
+    format: 'anki',
+    header: columns ? columns.split(delimiter).map(c => c.trim()) : null,
+    rows: parseDelimited(lines.join('\n'), delimiter).map(r => r.map(stripAnkiMarkup))
+  };
+};
+
+// 课本单元词表里的 Unit 3 / Lesson 2 之类的标题行
+const UNIT_HEADING = /^(starter\s+)?(unit|lesson|module|chapter)\s*\d+\b|^第[一二三四五六七八九十\d]+[单课章]/i;
+
+// 纯文本每行一个单词；若一行里英文后面跟着中文，则拆成两列
+const parsePlainText = (text: string): ParsedTable => ({
+  format: 'txt',
+  header: null,
+  rows: text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !UNIT_HEADING.test(l)).map(line => {
+    const match = line.match(/^([^\u3400-\u9fff]+?)[\s:：\-—=]+([\u3400-\u9fff].*)$/);
+    return match ? [match[1].trim(), match[2].trim()] : [line];
+  })
+});
+
+export const detectFormat = (text: string, fileName: string = ''): ImportFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (/^#(separator|html|columns|notetype|deck|tags)/m.test(text)) return 'anki';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'tsv') return 'tsv';
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  if (lines.some(l => l.includes('\t'))) return extension === 'txt' ? 'anki' : 'tsv';
+  if (lines.length > 1 && lines.filter(l => l.includes(',')).length > lines.length / 2) return 'csv';
+  return 'txt';
+};
+
+const isHeaderCell = (cell: string) => Object.values(HEADER_ALIASES).some(aliases => aliases.includes(cell.trim().toLowerCase()));
+
+export const parseImport = (text: string, format: ImportFormat): ParsedTable => {
+  const cleaned = text.replace(/^\uFEFF/, '');
+  if (format === 'anki') return parseAnki(cleaned);
+  if (format === 'txt') return parsePlainText(cleaned);
+  const rows = parseDelimited(cleaned, format === 'csv' ? ',' : '\t');
+  const hasHeader = rows.length > 0 && rows[0].some(isHeaderCell);
+  return { format, header: hasHeader ? rows[0] : null, rows: hasHeader ? rows.slice(1) : rows };
+};
+
+export const columnCount = (table: ParsedTable): number =>
+  Math.max(table.header?.length || 0, ...table.rows.map(r => r.length), 0);
+
+const ratio = (values: string[], test: (v: string) => boolean) => {
+  const filled = values.filter(Boolean);
+  return filled.length ? filled.filter(test).length / filled.length : 0;
+};
+
+const wordCount = (v: string) => v.split(/\s+/).filter(Boolean).length;
+
+// 有表头按列名匹配，否则根据前几行的内容推测每列的含义
+export const guessMapping = (table: ParsedTable): ImportField[] => {
+  const count = columnCount(table);
+  const mapping: ImportField[] = Array(count).fill('ignore');
+  const used = new Set<ImportField>();
+  const assign = (index: number, field: ImportField) => {
+    if (index === -1 || used.has(field) || mapping[index] !== 'ignore') return;
+    mapping[index] = field;
+    used.add(field);
+  };
+
+  table.header?.forEach((name, i) => {
+    const key = name.trim().toLowerCase();
+    const field = (Object.keys(HEADER_ALIASES) as Exclude<ImportField, 'ignore'>[]).find(f => HEADER_ALIASES[f].includes(key));
+    if (field) assign(i, field);
+  });
+
+  const sample = table.rows.slice(0, 20);
+  const columns = Array.from({ length: count }, (_, i) => sample.map(r => r[i] || ''));
+  const find = (test: (values: string[]) => boolean) => columns.findIndex((values, i) => mapping[i] === 'ignore' && values.some(Boolean) && test(values));
+
+  assign(find(v => ratio(v, s => /^[/[].+[/\]]$/.test(s)) > 0.5), 'phonetic');
+  assign(find(v => ratio(v, s => /^(n|v|vt|vi|adj|adv|prep|conj|pron|num|art|int|interj|aux)\.?$/i.test(s)) > 0.5), 'partOfSpeech');
+  assign(find(v => ratio(v, s => CJK.test(s)) > 0.5), 'cn');
+  assign(find(v => ratio(v, s => !CJK.test(s) && wordCount(s) <= 3) > 0.5), 'en');
+  assign(find(v => ratio(v, s => !CJK.test(s) && wordCount(s) > 3) > 0.5), 'example');
+  return mapping;
+};
+
+// 按映射取出单词，去掉空行、非英文和重复的单词
+export const applyMapping = (table: ParsedTable, mapping: ImportField[]): ImportedWord[] => {
+  const pick = (row: string[], field: ImportField) => {
+    const index = mapping.indexOf(field);
+    return index === -1 ? '' : (row[index] || '').trim();
+  };
+  const seen = new Set<string>();
+  const words: ImportedWord[] = [];
+  for (const row of table.rows) {
+    const en = pick(row, 'en').replace(/\s+/g, ' ');
+    const key = en.toLowerCase();
+    if (!en || CJK.test(en) || !/[a-z]/i.test(en) || seen.has(key)) continue;
+    seen.add(key);
+    words.push({
+      en,
+      cn: pick(row, 'cn'),
+      phonetic: pick(row, 'phonetic'),
+      partOfSpeech: pick(row, 'partOfSpeech'),
+      example: pick(row, 'example')
+    });
+  }
+  return words;
+};
+
+// 合并 AI 补全的释义后仍然缺少中文的单词，即 toWordPairs 会丢弃的那些
+export const missingTranslations = (words: ImportedWord[], translated: WordPair[] = []): ImportedWord[] => {
+  const translatedWords = new Set(translated.filter(t => t.cn).map(t => t.en.toLowerCase()));
+  return words.filter(w => !w.cn && !translatedWords.has(w.en.toLowerCase()));
+};
+
+// translated 为 AI 补全的释义，按单词合并；仍没有释义的单词会被丢弃
+export const toWordPairs = (words: ImportedWord[], translated: WordPair[] = []): WordPair[] => {
+  const byWord = new Map(translated.map(t => [t.en.toLowerCase(), t]));
+  return words.flatMap((w, i) => {
+    const extra = byWord.get(w.en.toLowerCase());
+    const cn = w.cn || extra?.cn || '';
+    if (!cn) return [];
+    return [{
+      id: `import-${i}`,
+      en: w.en,
+      cn,
+      phonetic: w.phonetic || extra?.phonetic || '',
+      partOfSpeech: w.partOfSpeech || extra?.partOfSpeech || '',
+      example: w.example || extra?.example || ''
+    }];
+  });
+};
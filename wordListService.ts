@@ -0,0 +1,45 @@
+
+import { WordList, WordPair } from './types';
+import { STORES, idbGetAll, idbPut, idbDelete } from './db';
+
+// 同名词表视为同一份，重新导入时覆盖
+const listId = (name: string) => `list:${name.trim().toLowerCase()}`;
+
+export const listWordLists = async (): Promise<WordList[]> => {
+  const lists = await idbGetAll<WordList>(STORES.wordLists);
+  return lists.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveWordList = async (name: string, words: WordPair[], source: string, now: number = Date.now()): Promise<WordList> => {
+  const id = listId(name);
+  const list: WordList = {
+    id,
+    name: name.trim(),
+    words: words.map((w, i) => ({ ...w, id: `${id}-${i}` })),
+    source,
+    createdAt: now,
+    updatedAt: now
+  };
+  await idbPut(STORES.wordLists, list);
+  return list;
+};
+
+export const deleteWordList = (id: string) => idbDelete(STORES.wordLists, id);
+
+export const listToInput = (list: WordList): string => list.words.map(w => w.en).join(', ');
+
+// 含逗号等分隔符时按其切分（词表里可能有 look after 这样的短语），否则按空格切分
+export const splitWordInput = (userWords: string): string[] => {
+  const separator = /[,，、;；\n]/.test(userWords) ? /[,，、;；\n]+/ : /\s+/;
+  return userWords.split(separator).map(w => w.trim()).filter(Boolean);
+};
+
+// 词表中已有释义的单词直接使用，只把其余单词交给 AI 翻译
+export const splitByList = (userWords: string, list: WordList | null): { known: WordPair[], rest: string } => {
+  if (!list) return { known: [], rest: userWords };
+  const byWord = new Map(list.words.filter(w => w.cn).map(w => [w.en.toLowerCase(), w]));
+  const words = splitWordInput(userWords);
+  const known = words.map(w => byWord.get(w.toLowerCase())).filter((w): w is WordPair => !!w);
+  const rest = words.filter(w => !byWord.has(w.toLowerCase())).join(', ');
+  return { known, rest };
+};
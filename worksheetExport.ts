@@ -0,0 +1,240 @@
+
+import { ContextQuestion, GrammarPracticeData } from './types';
+import { BLANK } from './responseValidator';
+import { blankAnswerText } from './answerEvaluator';
+import { scrambleTokens, endMarkOf } from './sentenceBuilder';
+import { correctionAnswerText } from './errorCorrection';
+
+export type WorksheetSource =
+  | { kind: 'context', title: string, questions: ContextQuestion[] }
+  | { kind: 'grammar', data: GrammarPracticeData };
+
+export interface WorksheetItem {
+  // 题干，空格保留为 _____
+  sentence: string;
+  // 每个空格后括号里的提示词
+  hints: string[];
+  // 选择题选项（已打乱），填空题为空数组
+  options: string[];
+  answer: string;
+}
+
+export interface WorksheetSection {
+  heading: string;
+  instructions: string;
+  // 语境填空附带打乱顺序的词库
+  wordBank: string[];
+  items: WorksheetItem[];
+}
+
+export interface Worksheet {
+  title: string;
+  sections: WorksheetSection[];
+}
+
+export interface WorksheetOptions {
+  includeAnswerKey: boolean;
+}
+
+const SECTION_NUMBERS = ['一', '二', '三', '四', '五'];
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const buildWorksheet = (source: WorksheetSource, random: () => number = Math.random): Worksheet => {
+  if (source.kind === 'context') {
+    return {
+      title: source.title,
+      sections: [{
+        heading: '语境填空',
+        instructions: '从词库中选择合适的单词，必要时使用其正确形式填空。',
+        wordBank: shuffle(Array.from(new Set(source.questions.map(q => q.answer))), random),
+        items: source.questions.map(q => ({ sentence: q.sentence, hints: [], options: [], answer: q.answer }))
+      }]
+    };
+  }
+  const { explanation, fillQuestions, choiceQuestions, orderQuestions, correctionQuestions } = source.data;
+  const sections: WorksheetSection[] = [];
+  if (fillQuestions.length) {
+    sections.push({
+      heading: '用括号内单词的正确形式填空',
+      instructions: '每个空格可能需要填写多个单词。',
+      wordBank: [],
+      items: fillQuestions.map(q => ({ sentence: q.sentence, hints: q.blanks.map(b => b.hint), options: [], answer: blankAnswerText(q.blanks) }))
+    });
+  }
+  if (choiceQuestions.length) {
+    sections.push({
+      heading: '单项选择',
+      instructions: '从 A、B、C、D 中选出最佳答案。',
+      wordBank: [],
+      items: choiceQuestions.map(q => {
+        const options = shuffle(q.options, random);
+        return { sentence: q.sentence, hints: [], options, answer: `${OPTION_LETTERS[options.indexOf(q.answer)] || ''}. ${q.answer}` };
+      })
+    });
+  }
+  // 旧版本导出的数据没有连词成句题
+  if (orderQuestions?.length) {
+    sections.push({
+      heading: '连词成句',
+      instructions: '将所给单词连成一个完整、正确的句子，句末标点已给出。',
+      wordBank: [],
+      items: orderQuestions.map(q => ({
+        sentence: `${scrambleTokens(q, random).map(t => t.text).join(' / ')} (${endMarkOf(q.sentence)}) ${BLANK}`,
+        hints: [],
+        options: [],
+        answer: [q.sentence, ...(q.acceptedOrders || [])].join('；')
+      }))
+    });
+  }
+  if (correctionQuestions?.length) {
+    sections.push({
+      heading: '改错',
+      instructions: '每句最多有一处错误，找出错误并在横线上改正；没有错误的句子在横线上写 ✓。',
+      wordBank: [],
+      items: correctionQuestions.map(q => ({ sentence: `${q.sentence} ${BLANK}`, hints: [], options: [], answer: correctionAnswerText(q) }))
+    });
+  }
+  return { title: explanation.title, sections };
+};
+
+export const sectionHeading = (section: WorksheetSection, index: number) => `${SECTION_NUMBERS[index] || index + 1}、${section.heading}`;
+
+// 题干中的空格依次替换为 render 的结果，并在其后附上提示词
+const renderBlanks = (item: WorksheetItem, render: (hint: string | undefined, index: number) => string, text: (s: string) => string) =>
+  item.sentence.split(BLANK).map((part, i, arr) => text(part) + (i < arr.length - 1 ? render(item.hints[i], i) : '')).join('');
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: "Times New Roman", "Songti SC", "SimSun", serif; color: #000; font-size: 13pt; line-height: 1.7; margin: 0 auto; max-width: 180mm; }
+  h1 { text-align: center; font-size: 20pt; margin: 0 0 6pt; }
+  .meta { display: flex; justify-content: center; gap: 24pt; margin-bottom: 16pt; }
+  .meta span { display: inline-block; min-width: 110pt; border-bottom: 1px solid #000; }
+  h2 { font-size: 14pt; margin: 16pt 0 4pt; }
+  .instructions { font-size: 11pt; color: #333; margin: 0 0 8pt; }
+  .word-bank { border: 1px solid #000; padding: 6pt 10pt; margin-bottom: 10pt; word-spacing: 14pt; }
+  ol { padding-left: 22pt; margin: 0; }
+  li { margin-bottom: 10pt; break-inside: avoid; page-break-inside: avoid; }
+  .blank { display: inline-block; min-width: 80pt; border-bottom: 1px solid #000; margin: 0 3pt; }
+  .hint { font-style: italic; }
+  .options { display: flex; flex-wrap: wrap; gap: 4pt 28pt; margin-top: 2pt; }
+  .answer-key { break-before: page; page-break-before: always; }
+  .answer-key li { margin-bottom: 2pt; }
+  @media screen { body { padding: 24px; } }
+`;
+
+export const renderWorksheetHtml = (worksheet: Worksheet, options: WorksheetOptions): string => {
+  const sections = worksheet.sections.map((section, s) => `
+    <h2>${escapeHtml(sectionHeading(section, s))}</h2>
+    <p class="instructions">${escapeHtml(section.instructions)}</p>
+    ${section.wordBank.length ? `<div class="word-bank">${section.wordBank.map(escapeHtml).join(' ')}</div>` : ''}
+    <ol>
+      ${section.items.map(item => `<li>
+        ${renderBlanks(item, hint => `<span class="blank"></span>${hint ? `<span class="hint">(${escapeHtml(hint)})</span>` : ''}`, escapeHtml)}
+        ${item.options.length ? `<div class="options">${item.options.map((o, i) => `<span>${OPTION_LETTERS[i]}. ${escapeHtml(o)}</span>`).join('')}</div>` : ''}
+      </li>`).join('')}
+    </ol>`).join('');
+
+  const answerKey = options.includeAnswerKey ? `
+    <section class="answer-key">
+      <h1>${escapeHtml(worksheet.title)} · 参考答案</h1>
+      ${worksheet.sections.map((section, s) => `
+        <h2>${escapeHtml(sectionHeading(section, s))}</h2>
+        <ol>${section.items.map(item => `<li>${escapeHtml(item.answer)}</li>`).join('')}</ol>`).join('')}
+    </section>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(worksheet.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(worksheet.title)}</h1>
+  <div class="meta">姓名 <span></span> 班级 <span></span> 日期 <span></span></div>
+  ${sections}
+  ${answerKey}
+</body>
+</html>`;
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]#|])/g, '\\$1').replace(/</g, '&lt;');
+
+const MARKDOWN_BLANK = '\\_\\_\\_\\_\\_\\_\\_\\_';
+
+export const renderWorksheetMarkdown = (worksheet: Worksheet, options: WorksheetOptions): string => {
+  const lines: string[] = [`# ${escapeMarkdown(worksheet.title)}`, '', '姓名：________　班级：________　日期：________', ''];
+  worksheet.sections.forEach((section, s) => {
+    lines.push(`## ${escapeMarkdown(sectionHeading(section, s))}`, '', `> ${section.instructions}`, '');
+    if (section.wordBank.length) lines.push(`**词库：** ${section.wordBank.map(escapeMarkdown).join(' / ')}`, '');
+    section.items.forEach((item, i) => {
+      lines.push(`${i + 1}. ${renderBlanks(item, hint => `${MARKDOWN_BLANK}${hint ? ` *(${escapeMarkdown(hint)})*` : ''}`, escapeMarkdown)}`);
+      if (item.options.length) lines.push(`   ${item.options.map((o, j) => `${OPTION_LETTERS[j]}. ${escapeMarkdown(o)}`).join('　')}`);
+    });
+    lines.push('');
+  });
+  if (options.includeAnswerKey) {
+    lines.push('---', '', '## 参考答案', '');
+    worksheet.sections.forEach((section, s) => {
+      lines.push(`### ${escapeMarkdown(sectionHeading(section, s))}`, '');
+      section.items.forEach((item, i) => lines.push(`${i + 1}. ${escapeMarkdown(item.answer)}`));
+      lines.push('');
+    });
+  }
+  return lines.join('\n');
+};
+
+// JSON 保留原始题目数据和打乱后的练习纸，便于再次导入或二次编辑
+export const renderWorksheetJson = (source: WorksheetSource, worksheet: Worksheet): string => JSON.stringify({
+  format: 'tonglanguage-worksheet',
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  source,
+  worksheet
+}, null, 2);
+
+export const worksheetFileName = (worksheet: Worksheet, extension: string) =>
+  `${worksheet.title.replace(/[\\/:*?"<>|]+/g, ' ').trim() || 'worksheet'}-练习纸.${extension}`;
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// 在隐藏的 iframe 中打开打印对话框，可直接另存为 PDF，避免被弹窗拦截
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return frame.remove();
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};